@@ -0,0 +1,124 @@
+import path from 'node:path'
+import fs from 'node:fs'
+import { randomUUID } from 'node:crypto'
+
+export type AssetEntry = {
+  id: string;
+  name: string;
+  fileName: string;
+  mimeType: string;
+  createdAt: number;
+  thumbnail?: string;
+  meta?: Record<string, unknown>;
+};
+
+export type AssetImport = {
+  name: string;
+  mimeType: string;
+  extension: string;
+  data: Uint8Array;
+  thumbnail?: string;
+  meta?: Record<string, unknown>;
+};
+
+const isValidId = (id: unknown): id is string => typeof id === 'string' && /^[a-f0-9-]{8,64}$/i.test(id);
+
+// A folder of user assets with a JSON index, e.g. `<userData>/masks/index.json`.
+export function createAssetLibrary(rootDir: string) {
+  const indexPath = path.join(rootDir, 'index.json');
+
+  // A missing index is an empty library. A corrupt one is moved aside before starting fresh,
+  // so the next write cannot wipe entries that may still be recoverable by hand.
+  const readIndex = (): AssetEntry[] => {
+    let raw: string;
+    try {
+      raw = fs.readFileSync(indexPath, 'utf-8');
+    } catch {
+      return [];
+    }
+    try {
+      const parsed = JSON.parse(raw);
+      if (Array.isArray(parsed)) {
+        return parsed.filter((entry) => isValidId(entry?.id));
+      }
+    } catch {
+      // Handled below with the non-array case.
+    }
+    const backupPath = `${indexPath}.${Date.now()}.bak`;
+    console.warn(`Asset index ${indexPath} is unreadable; moving it to ${backupPath}.`);
+    fs.renameSync(indexPath, backupPath);
+    return [];
+  };
+
+  const writeIndex = (entries: AssetEntry[]) => {
+    fs.mkdirSync(rootDir, { recursive: true });
+    fs.writeFileSync(indexPath, JSON.stringify(entries, null, 2), 'utf-8');
+  };
+
+  const list = () => readIndex();
+
+  const importAsset = (payload: AssetImport): AssetEntry => {
+    const id = randomUUID();
+    const extension = payload.extension.replace(/[^a-z0-9]/gi, '').toLowerCase() || 'bin';
+    const fileName = `${id}.${extension}`;
+    fs.mkdirSync(rootDir, { recursive: true });
+    fs.writeFileSync(path.join(rootDir, fileName), Buffer.from(payload.data));
+    const entry: AssetEntry = {
+      id,
+      name: payload.name.trim() || 'Untitled',
+      fileName,
+      mimeType: payload.mimeType,
+      createdAt: Date.now(),
+      thumbnail: payload.thumbnail,
+      meta: payload.meta,
+    };
+    writeIndex([...readIndex(), entry]);
+    return entry;
+  };
+
+  const read = (id: string): Buffer | null => {
+    if (!isValidId(id)) return null;
+    const entry = readIndex().find((item) => item.id === id);
+    if (!entry) return null;
+    try {
+      return fs.readFileSync(path.join(rootDir, path.basename(entry.fileName)));
+    } catch (error) {
+      console.warn(`Failed to read asset ${id}:`, error);
+      return null;
+    }
+  };
+
+  const update = (id: string, patch: Partial<Pick<AssetEntry, 'name' | 'thumbnail' | 'meta'>>): AssetEntry | null => {
+    if (!isValidId(id)) return null;
+    const entries = readIndex();
+    const entry = entries.find((item) => item.id === id);
+    if (!entry) return null;
+    if (typeof patch.name === 'string' && patch.name.trim()) {
+      entry.name = patch.name.trim();
+    }
+    if (typeof patch.thumbnail === 'string') {
+      entry.thumbnail = patch.thumbnail;
+    }
+    if (patch.meta && typeof patch.meta === 'object') {
+      entry.meta = { ...entry.meta, ...patch.meta };
+    }
+    writeIndex(entries);
+    return entry;
+  };
+
+  const remove = (id: string) => {
+    if (!isValidId(id)) return false;
+    const entries = readIndex();
+    const entry = entries.find((item) => item.id === id);
+    if (!entry) return false;
+    try {
+      fs.rmSync(path.join(rootDir, path.basename(entry.fileName)), { force: true });
+    } catch (error) {
+      console.warn(`Failed to delete asset file ${entry.fileName}:`, error);
+    }
+    writeIndex(entries.filter((item) => item.id !== id));
+    return true;
+  };
+
+  return { list, importAsset, read, update, remove };
+}
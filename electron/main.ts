@@ -3,10 +3,13 @@ import * as electron from 'electron'
 import { fileURLToPath } from 'node:url'
 import path from 'node:path'
 import fs from 'node:fs'
+import { createAssetLibrary, type AssetImport } from './assetLibrary'
 
 type RenderMode = 'cpu' | 'gpu';
 type GpuBackend = 'd3d11' | 'd3d9' | 'opengl' | 'vulkan' | 'desktop';
 const settingsPath = path.join(electron.app.getPath('userData'), 'settings.json');
+const maskLibrary = createAssetLibrary(path.join(electron.app.getPath('userData'), 'masks'));
+const avatarLibrary = createAssetLibrary(path.join(electron.app.getPath('userData'), 'avatars'));
 let renderMode: RenderMode = 'gpu';
 let allowGpuFallback = true;
 let gpuBackend: GpuBackend = 'd3d11';
@@ -303,6 +306,58 @@ electron.ipcMain.handle('app:get-gpu-status', async () => {
   }
   return { status, info };
 });
+electron.ipcMain.handle('masks:list', () => maskLibrary.list());
+electron.ipcMain.handle('masks:import', (_event, payload: AssetImport) => {
+  if (!payload || !(payload.data instanceof Uint8Array) || typeof payload.name !== 'string') {
+    return null;
+  }
+  try {
+    return maskLibrary.importAsset(payload);
+  } catch (error) {
+    console.error('Failed to import mask:', error);
+    return null;
+  }
+});
+electron.ipcMain.handle('masks:read', (_event, id: string) => maskLibrary.read(id));
+electron.ipcMain.handle('masks:rename', (_event, id: string, name: string) => {
+  if (typeof name !== 'string') {
+    return null;
+  }
+  return maskLibrary.update(id, { name });
+});
+electron.ipcMain.handle('masks:update-meta', (_event, id: string, meta: Record<string, unknown>) => {
+  if (!meta || typeof meta !== 'object') {
+    return null;
+  }
+  return maskLibrary.update(id, { meta });
+});
+electron.ipcMain.handle('masks:delete', (_event, id: string) => maskLibrary.remove(id));
+electron.ipcMain.handle('avatars:list', () => avatarLibrary.list());
+electron.ipcMain.handle('avatars:import', (_event, payload: AssetImport) => {
+  if (!payload || !(payload.data instanceof Uint8Array) || typeof payload.name !== 'string') {
+    return null;
+  }
+  try {
+    return avatarLibrary.importAsset(payload);
+  } catch (error) {
+    console.error('Failed to import avatar:', error);
+    return null;
+  }
+});
+electron.ipcMain.handle('avatars:read', (_event, id: string) => avatarLibrary.read(id));
+electron.ipcMain.handle('avatars:rename', (_event, id: string, name: string) => {
+  if (typeof name !== 'string') {
+    return null;
+  }
+  return avatarLibrary.update(id, { name });
+});
+electron.ipcMain.handle('avatars:update-meta', (_event, id: string, meta: Record<string, unknown>) => {
+  if (!meta || typeof meta !== 'object') {
+    return null;
+  }
+  return avatarLibrary.update(id, { meta });
+});
+electron.ipcMain.handle('avatars:delete', (_event, id: string) => avatarLibrary.remove(id));
 electron.ipcMain.on('app:renderer-ready', () => {
   rendererReady = true;
   if (gpuFallbackTimer) {
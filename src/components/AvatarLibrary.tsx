@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import { AlertTriangle, Box, Check, Pencil, Trash2, X } from 'lucide-react';
+import type { Avatar, AvatarReport } from '../types/avatar';
+import { ARKIT_BLENDSHAPES } from '../utils/avatar';
+
+function AvatarReportDetails({ report }: { report: AvatarReport }) {
+    const [width, height, depth] = report.dimensions.map((value) => value.toFixed(2));
+    return (
+        <details className="px-2 pb-2 text-[10px] text-gray-500">
+            <summary className="cursor-pointer select-none">
+                {report.supportedBlendshapes.length}/{ARKIT_BLENDSHAPES.length} ARKit blendshapes
+            </summary>
+            <div className="mt-1 space-y-1">
+                <div>
+                    {report.meshCount} mesh{report.meshCount === 1 ? '' : 'es'}, {report.vertexCount.toLocaleString()} vertices,
+                    {' '}{report.morphTargetCount} morph targets
+                </div>
+                <div>Size {width} × {height} × {depth}</div>
+                {report.format === 'vrm' && (
+                    <div>
+                        VRM {report.vrmVersion === '0' ? '0.x' : '1.0'}
+                        {report.expressions && report.expressions.length > 0 && `: ${report.expressions.join(', ')}`}
+                    </div>
+                )}
+                {report.warnings.map((warning) => (
+                    <div key={warning} className="text-amber-300">{warning}</div>
+                ))}
+                {report.supportedBlendshapes.length > 0 && (
+                    <div>
+                        <span className="text-emerald-300">Driven: </span>
+                        {report.supportedBlendshapes.join(', ')}
+                    </div>
+                )}
+                {report.missingBlendshapes.length > 0 && (
+                    <div>
+                        <span className="text-gray-400">Missing: </span>
+                        {report.missingBlendshapes.join(', ')}
+                    </div>
+                )}
+            </div>
+        </details>
+    );
+}
+
+export function AvatarLibrary({
+    avatars,
+    activeAvatarId,
+    onSelect,
+    onRename,
+    onDelete,
+}: {
+    avatars: Avatar[];
+    activeAvatarId: string;
+    onSelect: (id: string) => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+}) {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    const commitRename = () => {
+        if (editingId) {
+            onRename(editingId, draftName);
+        }
+        setEditingId(null);
+    };
+
+    return (
+        <div className="space-y-1 text-xs text-gray-400">
+            {avatars.map((avatar) => {
+                const isActive = avatar.id === activeAvatarId;
+                const isEditing = avatar.id === editingId;
+                return (
+                    <div
+                        key={avatar.id}
+                        className={`group rounded-lg border bg-gray-900 ${isActive ? 'border-orange-400 ring-1 ring-orange-400/50' : 'border-gray-700 hover:border-gray-500'}`}
+                    >
+                        <div className="flex items-center gap-2 px-2 py-1">
+                            <Box size={12} className={isActive ? 'text-orange-300' : 'text-gray-500'} />
+                            {isEditing ? (
+                                <>
+                                    <input
+                                        autoFocus
+                                        value={draftName}
+                                        onChange={(e) => setDraftName(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === 'Enter') commitRename();
+                                            if (e.key === 'Escape') setEditingId(null);
+                                        }}
+                                        className="min-w-0 flex-1 rounded bg-gray-800 px-1 text-[11px] text-gray-200"
+                                    />
+                                    <button onClick={commitRename} className="text-emerald-300" title="Save">
+                                        <Check size={12} />
+                                    </button>
+                                    <button onClick={() => setEditingId(null)} className="text-gray-400" title="Cancel">
+                                        <X size={12} />
+                                    </button>
+                                </>
+                            ) : (
+                                <>
+                                    <button
+                                        onClick={() => onSelect(avatar.id)}
+                                        className={`flex-1 truncate text-left ${isActive ? 'text-orange-200' : 'hover:text-gray-200'}`}
+                                        title={avatar.name}
+                                    >
+                                        {avatar.name}
+                                        {avatar.builtIn && <span className="ml-1 text-gray-600">(built-in)</span>}
+                                    </button>
+                                    {avatar.report && avatar.report.warnings.length > 0 && (
+                                        <span className="text-amber-300" title={avatar.report.warnings.join('\n')}>
+                                            <AlertTriangle size={12} />
+                                        </span>
+                                    )}
+                                    {!avatar.builtIn && (
+                                        <div className="hidden gap-1 group-hover:flex">
+                                            <button
+                                                onClick={() => {
+                                                    setEditingId(avatar.id);
+                                                    setDraftName(avatar.name);
+                                                }}
+                                                className="text-gray-400 hover:text-gray-200"
+                                                title="Rename"
+                                            >
+                                                <Pencil size={12} />
+                                            </button>
+                                            <button
+                                                onClick={() => onDelete(avatar.id)}
+                                                className="text-red-300 hover:text-red-200"
+                                                title="Delete"
+                                            >
+                                                <Trash2 size={12} />
+                                            </button>
+                                        </div>
+                                    )}
+                                </>
+                            )}
+                        </div>
+                        {avatar.report && <AvatarReportDetails report={avatar.report} />}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -1,10 +1,44 @@
 import { Canvas, useFrame, useThree } from '@react-three/fiber';
-import { useGLTF } from '@react-three/drei';
-import { useEffect, useRef, Suspense, useState } from 'react';
-import type { MutableRefObject } from 'react';
+import { PivotControls, useGLTF } from '@react-three/drei';
+import { Component, useCallback, useEffect, useMemo, useRef, Suspense, useState } from 'react';
+import type { MutableRefObject, ReactNode } from 'react';
 import * as THREE from 'three';
+import type { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { clone as cloneSkinned } from 'three/examples/jsm/utils/SkeletonUtils.js';
+import { VRMUtils, type VRM } from '@pixiv/three-vrm';
+import type { AvatarFormat, AvatarPlacement, RetargetProfile } from '../types/avatar';
 import type { FaceBox, FaceSnapshot, FrameSize } from '../types/face';
+import type { UpperBodyPose } from '../types/pose';
 import { computeFaceBox } from '../utils/face';
+import { getPlacementMatrix, getPlacementQuaternion, placementFromMatrix } from '../utils/avatar';
+import { evaluateRetarget } from '../utils/retarget';
+import { REST_UPPER_BODY, UpperBodySolver } from '../utils/pose';
+import {
+    triangulateLandmarks,
+    writeOccluderPositions,
+    type AvatarOcclusionOptions,
+    type PersonMaskFrame,
+} from '../utils/occlusion';
+import type { OverlayCapture } from '../utils/snapshot';
+import { manualLightEstimate, type SceneLightFrame, type SceneLightingOptions } from '../utils/lighting';
+import {
+    AvatarPresence,
+    ProceduralBlink,
+    assignAvatarSlots,
+    idleBreath,
+    idleSway,
+    setMaterialsOpacity,
+    type AvatarSlot,
+    type MaterialOpacity,
+} from '../utils/avatarIdle';
+import {
+    applyVrmLookAt,
+    driveVrmHeadBones,
+    driveVrmUpperBody,
+    measureVrmHead,
+    mirrorBlendshapeName,
+    registerVrmLoader,
+} from '../utils/vrm';
 
 function CameraSync() {
     const { camera, size } = useThree();
@@ -26,7 +60,7 @@ function RenderTick({
     snapshotRef,
     enabled,
 }: {
-    snapshotRef: MutableRefObject<FaceSnapshot | null>;
+    snapshotRef: MutableRefObject<FaceSnapshot[]>;
     enabled: boolean;
 }) {
     const { invalidate } = useThree();
@@ -51,23 +85,292 @@ function RenderTick({
     return null;
 }
 
+// Lets the host copy the avatar layer into a snapshot. The drawing buffer is
+// not preserved, so the scene is rendered again right before it is read.
+function AvatarCapture({ captureRef }: { captureRef: MutableRefObject<OverlayCapture | null> }) {
+    const { gl, scene, camera } = useThree();
+
+    useEffect(() => {
+        captureRef.current = (ctx, width, height) => {
+            gl.render(scene, camera);
+            ctx.drawImage(gl.domElement, 0, 0, width, height);
+        };
+        return () => {
+            captureRef.current = null;
+        };
+    }, [captureRef, gl, scene, camera]);
+
+    return null;
+}
+
+// Keeps a broken avatar file from taking down the whole R3F tree; resets when the model changes.
+class AvatarErrorBoundary extends Component<
+    { modelUrl: string; onError?: (error: Error) => void; children?: ReactNode },
+    { modelUrl: string; hasError: boolean }
+> {
+    public state = { modelUrl: this.props.modelUrl, hasError: false };
+
+    public static getDerivedStateFromError() {
+        return { hasError: true };
+    }
+
+    public static getDerivedStateFromProps(props: { modelUrl: string }, state: { modelUrl: string }) {
+        return props.modelUrl !== state.modelUrl ? { modelUrl: props.modelUrl, hasError: false } : null;
+    }
+
+    public componentDidCatch(error: Error) {
+        this.props.onError?.(error);
+    }
+
+    public render() {
+        return this.state.hasError ? null : this.props.children;
+    }
+}
+
+// Drives the avatar's lights from the camera-frame estimate (or the manual override) and optionally its environment map.
+function SceneLighting({
+    lightRef,
+    options,
+}: {
+    lightRef: MutableRefObject<SceneLightFrame | null>;
+    options: SceneLightingOptions;
+}) {
+    const ambientRef = useRef<THREE.AmbientLight>(null);
+    const directionalRef = useRef<THREE.DirectionalLight>(null);
+    const { gl, scene } = useThree();
+    const manual = useMemo(() => manualLightEstimate(options), [options]);
+    const targetColorRef = useRef(new THREE.Color());
+    const targetPositionRef = useRef(new THREE.Vector3());
+    const environmentRef = useRef<{
+        pmrem: THREE.PMREMGenerator;
+        texture: THREE.CanvasTexture | null;
+        target: THREE.WebGLRenderTarget | null;
+        updatedAt: number;
+    } | null>(null);
+
+    const lightSmoothing = 4;
+    const ambientIntensity = 1.5;
+    const directionalIntensity = 2;
+    const baseBrightness = 0.45;
+    const environmentIntervalMs = 500;
+
+    useEffect(() => {
+        if (!options.environment) return;
+        const environment: NonNullable<typeof environmentRef.current> = {
+            pmrem: new THREE.PMREMGenerator(gl),
+            texture: null,
+            target: null,
+            updatedAt: 0,
+        };
+        environmentRef.current = environment;
+        return () => {
+            scene.environment = null;
+            environment.texture?.dispose();
+            environment.target?.dispose();
+            environment.pmrem.dispose();
+            environmentRef.current = null;
+        };
+    }, [options.environment, gl, scene]);
+
+    useFrame((_, delta) => {
+        const frame = lightRef.current;
+        const estimate = options.auto && frame ? frame.estimate : manual;
+        // Dim rooms dim the avatar, but never so far that it disappears.
+        const exposure = THREE.MathUtils.clamp(estimate.brightness / baseBrightness, 0.35, 1.6) * options.intensity;
+        const alpha = 1 - Math.exp(-lightSmoothing * delta);
+        const color = targetColorRef.current.setRGB(...estimate.color);
+        const ambient = ambientRef.current;
+        const directional = directionalRef.current;
+        if (ambient) {
+            ambient.color.lerp(color, alpha);
+            ambient.intensity = THREE.MathUtils.lerp(ambient.intensity, ambientIntensity * exposure, alpha);
+        }
+        if (directional) {
+            directional.color.lerp(color, alpha);
+            directional.intensity = THREE.MathUtils.lerp(directional.intensity, directionalIntensity * exposure, alpha);
+            directional.position.lerp(targetPositionRef.current.fromArray(estimate.direction).multiplyScalar(5), alpha);
+        }
+
+        const environment = environmentRef.current;
+        if (!environment || !frame?.environment || frame.updatedAt - environment.updatedAt < environmentIntervalMs) {
+            return;
+        }
+        environment.updatedAt = frame.updatedAt;
+        if (!environment.texture || environment.texture.image !== frame.environment) {
+            environment.texture?.dispose();
+            environment.texture = new THREE.CanvasTexture(frame.environment);
+            environment.texture.mapping = THREE.EquirectangularReflectionMapping;
+            environment.texture.colorSpace = THREE.SRGBColorSpace;
+        }
+        environment.texture.needsUpdate = true;
+        // Reuses the render target; PMREM only re-filters the new frame.
+        environment.target = environment.pmrem.fromEquirectangular(environment.texture, environment.target);
+        scene.environment = environment.target.texture;
+        scene.environmentIntensity = exposure;
+    });
+
+    return (
+        <>
+            <ambientLight ref={ambientRef} intensity={ambientIntensity} />
+            <directionalLight ref={directionalRef} position={[0, 0, 5]} intensity={directionalIntensity} />
+        </>
+    );
+}
+
+// Drawn before the avatar; writes depth only, so the video shows through while avatar parts behind it are hidden.
+function FaceOccluder({
+    snapshotRef,
+    faceId,
+    frameSizeRef,
+    mirror,
+    depthOffset,
+}: {
+    snapshotRef: MutableRefObject<FaceSnapshot[]>;
+    faceId: number;
+    frameSizeRef: MutableRefObject<FrameSize>;
+    mirror: boolean;
+    depthOffset: number;
+}) {
+    const meshRef = useRef<THREE.Mesh>(null);
+    const geometry = useMemo(() => new THREE.BufferGeometry(), []);
+    const { size } = useThree();
+
+    useEffect(() => () => geometry.dispose(), [geometry]);
+
+    useFrame(() => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const frame = frameSizeRef.current;
+        const snapshot = snapshotRef.current.find((face) => face.id === faceId);
+        if (!snapshot || snapshot.landmarks.length < 3 || !frame.width || !frame.height) {
+            mesh.visible = false;
+            return;
+        }
+        const landmarks = snapshot.landmarks;
+        let position = geometry.getAttribute('position') as THREE.BufferAttribute | undefined;
+        if (!position || position.count !== landmarks.length) {
+            position = new THREE.BufferAttribute(new Float32Array(landmarks.length * 3), 3);
+            position.setUsage(THREE.DynamicDrawUsage);
+            geometry.setAttribute('position', position);
+            geometry.setIndex(new THREE.BufferAttribute(triangulateLandmarks(landmarks), 1));
+        }
+        writeOccluderPositions(position.array as Float32Array, landmarks, frame, size, mirror, depthOffset);
+        position.needsUpdate = true;
+        mesh.visible = true;
+    });
+
+    return (
+        <mesh ref={meshRef} geometry={geometry} renderOrder={-1} frustumCulled={false} visible={false}>
+            <meshBasicMaterial colorWrite={false} side={THREE.DoubleSide} />
+        </mesh>
+    );
+}
+
+// Full-viewport plane at head-centre depth, cut out by the person mask.
+function PersonOccluder({
+    personMaskRef,
+    mirror,
+}: {
+    personMaskRef: MutableRefObject<PersonMaskFrame | null>;
+    mirror: boolean;
+}) {
+    const meshRef = useRef<THREE.Mesh>(null);
+    const textureRef = useRef<THREE.CanvasTexture | null>(null);
+    const material = useMemo(
+        () => new THREE.MeshBasicMaterial({ colorWrite: false, alphaTest: 0.5 }),
+        []
+    );
+    const { size } = useThree();
+    const maskStaleMs = 500;
+
+    useEffect(() => () => {
+        textureRef.current?.dispose();
+        material.dispose();
+    }, [material]);
+
+    useFrame(() => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const mask = personMaskRef.current;
+        if (!mask || performance.now() - mask.updatedAt > maskStaleMs) {
+            mesh.visible = false;
+            return;
+        }
+        let texture = textureRef.current;
+        const { canvas } = mask;
+        // GPU texture storage is sized once, so a resized mask needs a new texture.
+        if (!texture || texture.image !== canvas || texture.userData.width !== canvas.width || texture.userData.height !== canvas.height) {
+            texture?.dispose();
+            texture = new THREE.CanvasTexture(canvas);
+            texture.userData = { width: canvas.width, height: canvas.height };
+            textureRef.current = texture;
+            material.map = texture;
+            material.needsUpdate = true;
+        }
+        texture.repeat.x = mirror ? -1 : 1;
+        texture.offset.x = mirror ? 1 : 0;
+        texture.needsUpdate = true;
+        mesh.scale.set(size.width, size.height, 1);
+        mesh.visible = true;
+    });
+
+    return (
+        <mesh ref={meshRef} material={material} renderOrder={-1} frustumCulled={false} visible={false}>
+            <planeGeometry args={[1, 1]} />
+        </mesh>
+    );
+}
+
+// drei loads through three-stdlib's GLTFLoader, which has the same plugin API as three's.
+const extendWithVrm = (loader: unknown) => registerVrmLoader(loader as GLTFLoader);
+
 function AvatarModel({
+    modelUrl,
+    modelFormat,
+    retargetProfile,
+    placement,
+    calibrating,
+    onPlacementChange,
     snapshotRef,
+    slotKey,
+    faceId,
+    tracked,
+    onFadedOut,
     frameSizeRef,
-    headScale,
     mirror,
     enabled,
+    snapshotsFiltered,
 }: {
-    snapshotRef: MutableRefObject<FaceSnapshot | null>;
+    snapshotRef: MutableRefObject<FaceSnapshot[]>;
+    slotKey: number;
+    faceId: number;
+    // False once the face has left the tracker; the avatar idles, fades out and then reports back.
+    tracked: boolean;
+    onFadedOut: (slotKey: number) => void;
     frameSizeRef: MutableRefObject<FrameSize>;
-    headScale: number;
     mirror: boolean;
     enabled: boolean;
+    snapshotsFiltered: boolean;
+    modelUrl: string;
+    modelFormat: AvatarFormat;
+    retargetProfile: RetargetProfile;
+    placement: AvatarPlacement;
+    calibrating: boolean;
+    onPlacementChange?: (placement: AvatarPlacement) => void;
 }) {
-    const { scene } = useGLTF('/raccoon_head.glb');
+    // A VRM cannot be cloned (its humanoid and expressions point at the original
+    // nodes), so each avatar slot loads its own instance under a per-slot cache
+    // key. The fragment is ignored when the file is fetched.
+    const isVrm = modelFormat === 'vrm';
+    const loadKey = isVrm ? `${modelUrl}#face-${slotKey}` : modelUrl;
+    const gltf = useGLTF(loadKey, true, true, isVrm ? extendWithVrm : undefined);
+    const vrm = isVrm ? (gltf.userData.vrm as VRM | undefined) ?? null : null;
+    // Every tracked face gets its own copy so morph influences stay independent.
+    // SkeletonUtils keeps skinned meshes bound to the cloned bones of rigged avatars.
+    const scene = useMemo(() => vrm?.scene ?? cloneSkinned(gltf.scene), [vrm, gltf.scene]);
     const groupRef = useRef<THREE.Group>(null);
     const modelRef = useRef<THREE.Object3D | null>(null);
-    const morphTargetMeshRef = useRef<THREE.Mesh | null>(null);
+    const morphTargetMeshesRef = useRef<THREE.Mesh[]>([]);
     const { size } = useThree();
     const rotationMatrixRef = useRef(new THREE.Matrix4());
     const mpMatrixRef = useRef(new THREE.Matrix4());
@@ -75,64 +378,158 @@ function AvatarModel({
     const targetQuatRef = useRef(new THREE.Quaternion());
     const smoothQuatRef = useRef(new THREE.Quaternion());
     const hasRotationRef = useRef(false);
+    const upperBodySolverRef = useRef(new UpperBodySolver());
+    const upperBodyRef = useRef<UpperBodyPose>({ ...REST_UPPER_BODY });
+    const torsoQuatRef = useRef(new THREE.Quaternion());
+    const headQuatRef = useRef(new THREE.Quaternion());
     const blendshapeStateRef = useRef<Record<string, number>>({});
+    const retargetInputsRef = useRef<Record<string, number>>({});
     const lastFaceBoxRef = useRef<FaceBox | null>(null);
-    const lastFaceBoxTimeRef = useRef(0);
+    const presenceRef = useRef(new AvatarPresence());
+    const blinkRef = useRef(new ProceduralBlink());
+    const idleQuatRef = useRef(new THREE.Quaternion());
+    const poseQuatRef = useRef(new THREE.Quaternion());
+    const materialsRef = useRef<MaterialOpacity[]>([]);
+    const appliedOpacityRef = useRef(1);
+    const mixerRef = useRef<THREE.AnimationMixer | null>(null);
+    const idleActionRef = useRef<THREE.AnimationAction | null>(null);
     const smoothPositionRef = useRef(new THREE.Vector3());
     const smoothScaleRef = useRef(1);
     const hasPositionRef = useRef(false);
+    const placementMatrix = useMemo(() => getPlacementMatrix(placement), [placement]);
+    const placementQuat = useMemo(() => getPlacementQuaternion(placement), [placement]);
 
-    const rotationSmoothing = 12;
-    const positionSmoothing = 12;
+    // Filtered snapshots only need bridging between detection frames; raw ones need real smoothing.
+    const rotationSmoothing = snapshotsFiltered ? 30 : 12;
+    const bodySmoothing = 8;
+    const positionSmoothing = snapshotsFiltered ? 30 : 12;
+    // Rate for bridging filtered blendshapes; raw ones use the retarget profile's per-frame factors.
+    const blendshapeBridging = 30;
     const scaleSmoothing = 10;
-    const blendshapeSmoothing = 0.25;
-    const eyeLookSmoothing = 0.15;
-    const eyeLookScale = 0.4;
-    const faceBoxHoldMs = 1500;
+    // A snapshot older than this means detection has stopped seeing the face.
+    const faceLostMs = 250;
     const avatarPadX = 0.28;
     const avatarPadY = 0.55;
     const avatarShiftY = 0.45;
     const avatarOffsetY = 0.08;
 
-    // Find the mesh with morph targets
     useEffect(() => {
+        if (!vrm) return;
+        VRMUtils.rotateVRM0(vrm);
+        return () => {
+            VRMUtils.deepDispose(vrm.scene);
+            useGLTF.clear(loadKey);
+        };
+    }, [vrm, loadKey]);
+
+    // A new face taking over this slot must not inherit the previous one's shrug baseline.
+    useEffect(() => {
+        upperBodySolverRef.current.reset();
+    }, [faceId]);
+
+    // Find the meshes with morph targets
+    useEffect(() => {
+        // Swapping avatars reuses this component, so forget the previous model's state.
+        morphTargetMeshesRef.current = [];
+        blendshapeStateRef.current = {};
+        const materials: MaterialOpacity[] = [];
+        materialsRef.current = materials;
+        appliedOpacityRef.current = 1;
+        const clonedMaterials: THREE.Material[] = [];
         scene.traverse((child) => {
             if ((child as THREE.Mesh).isMesh) {
                 const mesh = child as THREE.Mesh;
-                if (mesh.morphTargetDictionary) {
-                    morphTargetMeshRef.current = mesh;
+                mesh.frustumCulled = false;
+                // Clones share materials with the cached glTF, and each avatar fades on its own.
+                if (!vrm) {
+                    mesh.material = Array.isArray(mesh.material)
+                        ? mesh.material.map((material) => material.clone())
+                        : mesh.material.clone();
                 }
-                if (Array.isArray(mesh.material)) {
-                    mesh.material.forEach((material) => {
-                        material.side = THREE.DoubleSide;
-                    });
-                } else if (mesh.material) {
-                    mesh.material.side = THREE.DoubleSide;
+                const meshMaterials = Array.isArray(mesh.material) ? mesh.material : [mesh.material];
+                meshMaterials.forEach((material) => {
+                    materials.push({ material, opacity: material.opacity, transparent: material.transparent });
+                    if (!vrm) clonedMaterials.push(material);
+                });
+                // VRM expressions drive the morphs, and MToon manages its own face culling for outlines.
+                if (vrm) return;
+                if (mesh.morphTargetDictionary) {
+                    morphTargetMeshesRef.current.push(mesh);
                 }
-                mesh.frustumCulled = false;
+                meshMaterials.forEach((material) => {
+                    material.side = THREE.DoubleSide;
+                });
             }
         });
-    }, [scene]);
+        return () => {
+            setMaterialsOpacity(materials, 1);
+            clonedMaterials.forEach((material) => material.dispose());
+        };
+    }, [scene, vrm]);
+
+    // Idle clip shipped with a glTF avatar, played instead of nothing while the face is lost.
+    useEffect(() => {
+        if (vrm || gltf.animations.length === 0) return;
+        const clip = gltf.animations.find((animation) => /idle/i.test(animation.name)) ?? gltf.animations[0];
+        const mixer = new THREE.AnimationMixer(scene);
+        mixerRef.current = mixer;
+        idleActionRef.current = mixer.clipAction(clip);
+        return () => {
+            mixer.stopAllAction();
+            mixer.uncacheRoot(scene);
+            mixerRef.current = null;
+            idleActionRef.current = null;
+        };
+    }, [gltf.animations, scene, vrm]);
+
+    // Outputs dropped from the mapping would otherwise keep their last weight.
+    useEffect(() => {
+        if (vrm) {
+            vrm.expressionManager?.resetValues();
+            return;
+        }
+        morphTargetMeshesRef.current.forEach((mesh) => mesh.morphTargetInfluences?.fill(0));
+    }, [retargetProfile, scene, vrm]);
 
     // Center + normalize model size for face matrix alignment.
     useEffect(() => {
         const model = modelRef.current;
         if (!model) return;
+        // After a hot swap the group still holds the last face pose; snap to the face on the next frame.
+        groupRef.current?.quaternion.identity();
+        hasPositionRef.current = false;
+        hasRotationRef.current = false;
+        // Measure in the model's own space; its parents carry the face pose and calibration.
+        const parent = model.parent;
+        parent?.remove(model);
 
-        const box = new THREE.Box3().setFromObject(model);
-        const center = new THREE.Vector3();
-        box.getCenter(center);
-        model.position.sub(center);
-
-        const size = new THREE.Vector3();
-        box.getSize(size);
-        const maxDim = Math.max(size.x, size.y, size.z);
-        if (maxDim > 0) {
-            const target = 1.0;
-            const scale = target / maxDim;
-            model.scale.setScalar(scale);
+        if (vrm) {
+            // Frame the head rather than the whole body.
+            model.position.set(0, 0, 0);
+            model.scale.setScalar(1);
+            const head = measureVrmHead(vrm);
+            if (head) {
+                const scale = 1 / head.height;
+                model.scale.setScalar(scale);
+                model.position.copy(head.center).multiplyScalar(-scale);
+            }
+        } else {
+            const box = new THREE.Box3().setFromObject(model);
+            const center = new THREE.Vector3();
+            box.getCenter(center);
+            model.position.sub(center);
+
+            const size = new THREE.Vector3();
+            box.getSize(size);
+            const maxDim = Math.max(size.x, size.y, size.z);
+            if (maxDim > 0) {
+                const target = 1.0;
+                const scale = target / maxDim;
+                model.scale.setScalar(scale);
+            }
         }
-    }, [scene]);
+        parent?.add(model);
+    }, [scene, vrm]);
 
     useFrame((_, delta) => {
         if (!enabled) {
@@ -143,7 +540,9 @@ function AvatarModel({
         }
         const now = performance.now();
         const frame = frameSizeRef.current;
-        const snapshot = snapshotRef.current;
+        // The host keeps the last snapshots while the avatar is on, so a stale one means the face is gone.
+        const found = tracked ? snapshotRef.current.find((face) => face.id === faceId) : undefined;
+        const snapshot = found && now - found.timestamp <= faceLostMs ? found : null;
         let latestFaceBox: FaceBox | null = null;
         if (snapshot && snapshot.landmarks.length > 0 && frame.width && frame.height) {
             latestFaceBox = computeFaceBox(
@@ -158,25 +557,31 @@ function AvatarModel({
         }
         if (latestFaceBox) {
             lastFaceBoxRef.current = latestFaceBox;
-            lastFaceBoxTimeRef.current = now;
         }
-        const faceBox = latestFaceBox ?? (
-            lastFaceBoxRef.current && now - lastFaceBoxTimeRef.current < faceBoxHoldMs
-                ? lastFaceBoxRef.current
-                : null
-        );
-        if (!groupRef.current || !faceBox || !frame.width || !frame.height) {
+        // Without a face the avatar stays where it was last seen while it idles and fades out.
+        const presence = presenceRef.current.update(latestFaceBox !== null, now, delta);
+        const faceBox = lastFaceBoxRef.current;
+        if (!groupRef.current || !faceBox || !frame.width || !frame.height || presence.opacity <= 0) {
             if (groupRef.current) groupRef.current.visible = false;
+            if (!tracked && presence.state === 'hidden') onFadedOut(slotKey);
             return;
         }
+        const idleWeight = presence.idleWeight;
+        const seconds = now / 1000;
+        if (presence.opacity !== appliedOpacityRef.current) {
+            setMaterialsOpacity(materialsRef.current, presence.opacity);
+            appliedOpacityRef.current = presence.opacity;
+        }
 
         const scaleX = size.width / frame.width;
         const scaleY = size.height / frame.height;
         const boxCenterX = (faceBox.x + faceBox.width * 0.5) * scaleX;
         const boxCenterY = (faceBox.y + faceBox.height * 0.5) * scaleY;
-        const posX = boxCenterX - size.width * 0.5;
-        const posY = size.height * 0.5 - boxCenterY + faceBox.height * scaleY * avatarOffsetY;
-        const boxScale = Math.max(faceBox.width * scaleX, faceBox.height * scaleY) * headScale;
+        const posX = boxCenterX - size.width * 0.5 + faceBox.width * scaleX * placement.offset[0];
+        const boxScale = Math.max(faceBox.width * scaleX, faceBox.height * scaleY);
+        const breath = idleBreath(seconds) * idleWeight;
+        const posY = size.height * 0.5 - boxCenterY + faceBox.height * scaleY * (avatarOffsetY + placement.offset[1])
+            + boxScale * 0.008 * breath;
 
         groupRef.current.visible = true;
         const targetPos = new THREE.Vector3(posX, posY, 0);
@@ -190,7 +595,17 @@ function AvatarModel({
             smoothScaleRef.current = THREE.MathUtils.damp(smoothScaleRef.current, boxScale, scaleSmoothing, delta);
         }
         groupRef.current.position.copy(smoothPositionRef.current);
-        groupRef.current.scale.setScalar(smoothScaleRef.current);
+        groupRef.current.scale.setScalar(smoothScaleRef.current * (1 + 0.006 * breath));
+
+        // Torso first: the head rotation is applied relative to it.
+        if (vrm) {
+            const target = snapshot?.pose ? upperBodySolverRef.current.solve(snapshot.pose, mirror) : null;
+            const body = upperBodyRef.current;
+            (Object.keys(body) as Array<keyof UpperBodyPose>).forEach((key) => {
+                body[key] = THREE.MathUtils.damp(body[key], target?.[key] ?? 0, bodySmoothing, delta);
+            });
+            driveVrmUpperBody(vrm, body, torsoQuatRef.current, placementQuat);
+        }
 
         const matrixData = snapshot?.matrix;
         let hasValidMatrix = false;
@@ -214,69 +629,163 @@ function AvatarModel({
                 const mirrorMatrix = mirrorMatrixRef.current;
                 rotationMatrix.premultiply(mirrorMatrix).multiply(mirrorMatrix);
             }
-
-            const targetQuat = targetQuatRef.current.setFromRotationMatrix(rotationMatrix);
+            targetQuatRef.current.setFromRotationMatrix(rotationMatrix);
+        }
+        // Idle eases from the last tracked pose towards a neutral one with a slow sway.
+        if (hasValidMatrix || hasRotationRef.current || idleWeight > 0) {
+            const poseQuat = poseQuatRef.current.copy(targetQuatRef.current);
+            if (idleWeight > 0) {
+                poseQuat.slerp(idleSway(seconds, idleQuatRef.current), idleWeight);
+            }
             const smoothQuat = smoothQuatRef.current;
             if (!hasRotationRef.current) {
-                smoothQuat.copy(targetQuat);
+                smoothQuat.copy(poseQuat);
                 hasRotationRef.current = true;
             } else {
                 const alpha = 1 - Math.exp(-rotationSmoothing * delta);
-                smoothQuat.slerp(targetQuat, alpha);
+                smoothQuat.slerp(poseQuat, alpha);
+            }
+            if (vrm) {
+                // Turn the head on the neck instead of spinning the whole body.
+                const headQuat = headQuatRef.current.copy(torsoQuatRef.current).invert().multiply(smoothQuat);
+                driveVrmHeadBones(vrm, headQuat, placementQuat);
+            } else {
+                groupRef.current.quaternion.copy(smoothQuat);
             }
-            groupRef.current.quaternion.copy(smoothQuat);
         }
 
-        // Apply Blendshapes
-        if (snapshot?.blendshapes && snapshot.blendshapes.length > 0 && morphTargetMeshRef.current) {
-            const mesh = morphTargetMeshRef.current;
-            const shapes = snapshot.blendshapes;
-
-            shapes.forEach((shape) => {
-                // MediaPipe shape names like "jawOpen", "eyeBlinkLeft"
-                // GLB usually has specific names. We rely on the GLB having matching names
-                // or standard ARKit names.
-                const index = mesh.morphTargetDictionary?.[shape.name];
-                if (index !== undefined && mesh.morphTargetInfluences) {
-                    const isEyeLook = shape.name.startsWith('eyeLook');
-                    const smooth = isEyeLook ? eyeLookSmoothing : blendshapeSmoothing;
-                    const target = (isEyeLook ? shape.score * eyeLookScale : shape.score);
-                    const prev = blendshapeStateRef.current[shape.name] ?? 0;
-                    const next = THREE.MathUtils.lerp(prev, target, smooth);
-                    blendshapeStateRef.current[shape.name] = next;
-                    mesh.morphTargetInfluences[index] = Math.min(1, Math.max(0, next));
-                }
+        // Apply Blendshapes through the avatar's retargeting profile.
+        const scores = blendshapeStateRef.current;
+        if (snapshot?.blendshapes && snapshot.blendshapes.length > 0) {
+            const bridge = 1 - Math.exp(-blendshapeBridging * delta);
+            snapshot.blendshapes.forEach((shape) => {
+                // A mirrored VRM blinks the eye on the same side of the screen as the user's.
+                const name = vrm && mirror ? mirrorBlendshapeName(shape.name) : shape.name;
+                const smooth = snapshotsFiltered
+                    ? bridge
+                    : name.startsWith('eyeLook') ? retargetProfile.eyeLookSmoothing : retargetProfile.smoothing;
+                scores[name] = THREE.MathUtils.lerp(scores[name] ?? 0, shape.score, smooth);
+            });
+        }
+        if (snapshot?.blendshapes?.length || idleWeight > 0) {
+            // Idle relaxes the expression and blinks on its own.
+            const inputs = retargetInputsRef.current;
+            Object.keys(scores).forEach((name) => {
+                inputs[name] = scores[name] * (1 - idleWeight);
             });
+            const blink = blinkRef.current.value(now) * idleWeight;
+            inputs.eyeBlinkLeft = Math.max((scores.eyeBlinkLeft ?? 0) * (1 - idleWeight), blink);
+            inputs.eyeBlinkRight = Math.max((scores.eyeBlinkRight ?? 0) * (1 - idleWeight), blink);
+            const outputs = evaluateRetarget(retargetProfile, inputs);
+            if (vrm) {
+                outputs.forEach((weight, expression) => vrm.expressionManager?.setValue(expression, weight));
+                applyVrmLookAt(vrm, inputs);
+            } else {
+                morphTargetMeshesRef.current.forEach((mesh) => {
+                    const influences = mesh.morphTargetInfluences;
+                    if (!influences) return;
+                    outputs.forEach((weight, morph) => {
+                        const index = mesh.morphTargetDictionary?.[morph];
+                        if (index !== undefined) {
+                            influences[index] = weight;
+                        }
+                    });
+                });
+            }
         }
+        const mixer = mixerRef.current;
+        const idleAction = idleActionRef.current;
+        if (mixer && idleAction) {
+            if (idleWeight > 0) {
+                if (!idleAction.isRunning()) idleAction.reset().play();
+                idleAction.setEffectiveWeight(idleWeight);
+                mixer.update(delta);
+            } else if (idleAction.isRunning()) {
+                // Stopping hands the animated properties back to their original values.
+                idleAction.stop();
+            }
+        }
+        vrm?.update(delta);
     });
 
     return (
         <group ref={groupRef}>
-            <primitive object={scene} ref={modelRef} dispose={null} />
+            <PivotControls
+                matrix={placementMatrix}
+                autoTransform={false}
+                enabled={calibrating}
+                onDrag={(local) => onPlacementChange?.(placementFromMatrix(local, placement))}
+                fixed
+                scale={70}
+                disableScaling
+                depthTest={false}
+            >
+                <primitive object={scene} ref={modelRef} dispose={null} />
+            </PivotControls>
         </group>
     );
 }
 
 export function AvatarOverlay({
+    modelUrl,
+    modelFormat,
+    retargetProfile,
+    placement,
+    calibrating,
+    onPlacementChange,
+    onModelError,
     snapshotRef,
+    faceIds,
     frameSizeRef,
-    headScale,
     mirror,
     enabled,
     renderQuality,
+    snapshotsFiltered,
+    occlusion,
+    personMaskRef,
+    lighting,
+    lightRef,
+    captureRef,
 }: {
-    snapshotRef: MutableRefObject<FaceSnapshot | null>;
+    modelUrl: string;
+    modelFormat: AvatarFormat;
+    retargetProfile: RetargetProfile;
+    placement: AvatarPlacement;
+    // Shows a move / rotate gizmo on the first avatar and lets the overlay take pointer input.
+    calibrating: boolean;
+    onPlacementChange?: (placement: AvatarPlacement) => void;
+    onModelError?: (error: Error) => void;
+    snapshotRef: MutableRefObject<FaceSnapshot[]>;
+    faceIds: number[];
     frameSizeRef: MutableRefObject<FrameSize>;
-    headScale: number;
     mirror: boolean;
     enabled: boolean;
     renderQuality: number;
+    // The host already filters landmarks, so the avatar only interpolates between detections.
+    snapshotsFiltered: boolean;
+    occlusion: AvatarOcclusionOptions;
+    personMaskRef: MutableRefObject<PersonMaskFrame | null>;
+    lighting: SceneLightingOptions;
+    lightRef: MutableRefObject<SceneLightFrame | null>;
+    captureRef: MutableRefObject<OverlayCapture | null>;
 }) {
     const [rendererKey, setRendererKey] = useState(0);
+    const [slots, setSlots] = useState<AvatarSlot[]>([]);
+    const nextSlotKeyRef = useRef(0);
     const dpr = Math.min(1.5, Math.max(0.8, renderQuality));
 
+    useEffect(() => {
+        setSlots((current) => assignAvatarSlots(current, faceIds, () => nextSlotKeyRef.current++));
+    }, [faceIds]);
+
+    const handleFadedOut = useCallback((slotKey: number) => {
+        setSlots((current) => (
+            current.some((slot) => slot.key === slotKey) ? current.filter((slot) => slot.key !== slotKey) : current
+        ));
+    }, []);
+
     return (
-        <div className="absolute inset-0 pointer-events-none">
+        <div className={`absolute inset-0 ${calibrating ? 'pointer-events-auto' : 'pointer-events-none'}`}>
             <Canvas
                 key={rendererKey}
                 orthographic
@@ -294,21 +803,49 @@ export function AvatarOverlay({
                         }, 250);
                     }, { passive: false });
                 }}
-                style={{ pointerEvents: 'none', width: '100%', height: '100%' }}
+                style={{ pointerEvents: calibrating ? 'auto' : 'none', width: '100%', height: '100%' }}
             >
                 <CameraSync />
                 <RenderTick snapshotRef={snapshotRef} enabled={enabled} />
-                <ambientLight intensity={1.5} />
-                <directionalLight position={[0, 0, 5]} intensity={2} />
-                <Suspense fallback={null}>
-                    <AvatarModel
+                <AvatarCapture captureRef={captureRef} />
+                <SceneLighting lightRef={lightRef} options={lighting} />
+                {enabled && occlusion.head && faceIds.map((faceId) => (
+                    <FaceOccluder
+                        key={faceId}
                         snapshotRef={snapshotRef}
+                        faceId={faceId}
                         frameSizeRef={frameSizeRef}
-                        headScale={headScale}
                         mirror={mirror}
-                        enabled={enabled}
+                        depthOffset={occlusion.depthOffset}
                     />
-                </Suspense>
+                ))}
+                {enabled && occlusion.body && (
+                    <PersonOccluder personMaskRef={personMaskRef} mirror={mirror} />
+                )}
+                <AvatarErrorBoundary modelUrl={modelUrl} onError={onModelError}>
+                    <Suspense fallback={null}>
+                        {slots.map((slot, index) => (
+                            <AvatarModel
+                                key={slot.key}
+                                modelUrl={modelUrl}
+                                modelFormat={modelFormat}
+                                retargetProfile={retargetProfile}
+                                placement={placement}
+                                calibrating={calibrating && index === 0}
+                                onPlacementChange={onPlacementChange}
+                                snapshotRef={snapshotRef}
+                                slotKey={slot.key}
+                                faceId={slot.faceId}
+                                tracked={faceIds.includes(slot.faceId)}
+                                onFadedOut={handleFadedOut}
+                                frameSizeRef={frameSizeRef}
+                                mirror={mirror}
+                                enabled={enabled}
+                                snapshotsFiltered={snapshotsFiltered}
+                            />
+                        ))}
+                    </Suspense>
+                </AvatarErrorBoundary>
             </Canvas>
         </div>
     );
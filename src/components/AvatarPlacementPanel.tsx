@@ -0,0 +1,133 @@
+import type { Avatar, AvatarPlacement } from '../types/avatar';
+
+type SliderSpec = {
+    label: string;
+    min: number;
+    max: number;
+    step: number;
+    get: (placement: AvatarPlacement) => number;
+    set: (placement: AvatarPlacement, value: number) => AvatarPlacement;
+};
+
+const withTuple = <T extends number[]>(tuple: T, index: number, value: number) => (
+    tuple.map((item, i) => (i === index ? value : item)) as T
+);
+
+const offsetSliders: SliderSpec[] = ['X', 'Y'].map((axis, index) => ({
+    label: `Offset ${axis}`,
+    min: -0.5,
+    max: 0.5,
+    step: 0.005,
+    get: (placement) => placement.offset[index],
+    set: (placement, value) => ({ ...placement, offset: withTuple(placement.offset, index, value) }),
+}));
+
+const pivotSliders: SliderSpec[] = ['X', 'Y', 'Z'].map((axis, index) => ({
+    label: `Pivot ${axis}`,
+    min: -0.5,
+    max: 0.5,
+    step: 0.005,
+    get: (placement) => placement.pivot[index],
+    set: (placement, value) => ({ ...placement, pivot: withTuple(placement.pivot, index, value) }),
+}));
+
+const rotationSliders: SliderSpec[] = ['Pitch', 'Yaw', 'Roll'].map((axis, index) => ({
+    label: axis,
+    min: -180,
+    max: 180,
+    step: 1,
+    get: (placement) => placement.rotation[index],
+    set: (placement, value) => ({ ...placement, rotation: withTuple(placement.rotation, index, value) }),
+}));
+
+const scaleSlider: SliderSpec = {
+    label: 'Scale',
+    min: 0.5,
+    max: 2.5,
+    step: 0.01,
+    get: (placement) => placement.scale,
+    set: (placement, value) => ({ ...placement, scale: value }),
+};
+
+/**
+ * Side panel for fitting an avatar onto the head. The same placement is also
+ * edited by the gizmo on the preview, so this panel is fully controlled.
+ */
+export function AvatarPlacementPanel({
+    avatar,
+    placement,
+    onChange,
+    onSave,
+    onClose,
+}: {
+    avatar: Avatar;
+    placement: AvatarPlacement;
+    onChange: (placement: AvatarPlacement) => void;
+    onSave: (placement: AvatarPlacement | null) => void;
+    onClose: () => void;
+}) {
+    const renderSlider = (spec: SliderSpec) => {
+        const value = spec.get(placement);
+        return (
+            <label key={spec.label} className="block space-y-1">
+                <div className="flex items-center justify-between">
+                    <span>{spec.label}</span>
+                    <span className="text-gray-500">{spec.step < 1 ? value.toFixed(2) : `${Math.round(value)}°`}</span>
+                </div>
+                <input
+                    type="range"
+                    min={spec.min}
+                    max={spec.max}
+                    step={spec.step}
+                    value={value}
+                    onChange={(e) => onChange(spec.set(placement, Number(e.target.value)))}
+                    className="w-full accent-orange-400"
+                />
+            </label>
+        );
+    };
+
+    return (
+        <div className="fixed inset-y-0 right-0 z-50 flex w-80 max-w-full flex-col gap-4 overflow-y-auto border-l border-gray-700 bg-gray-900/95 p-4 text-gray-200 shadow-2xl">
+            <div>
+                <div className="text-sm font-semibold">Calibrate "{avatar.name}"</div>
+                <p className="mt-1 text-[11px] text-gray-400">
+                    Look straight at the camera with a neutral face. Drag the gizmo on the preview to move the pivot
+                    or rotate the model, and fine-tune with the sliders.
+                </p>
+            </div>
+
+            <div className="space-y-2 text-xs text-gray-400">
+                {renderSlider(scaleSlider)}
+                {offsetSliders.map(renderSlider)}
+            </div>
+            <div className="space-y-2 text-xs text-gray-400">
+                {pivotSliders.map(renderSlider)}
+            </div>
+            <div className="space-y-2 text-xs text-gray-400">
+                {rotationSliders.map(renderSlider)}
+            </div>
+
+            <div className="mt-auto space-y-2">
+                <button
+                    onClick={() => onSave(placement)}
+                    className="w-full rounded-lg border border-emerald-500/40 bg-emerald-600/20 px-3 py-2 text-xs text-emerald-200 hover:bg-emerald-600/30"
+                >
+                    Save Placement
+                </button>
+                <button
+                    onClick={() => onSave(null)}
+                    className="w-full rounded-lg border border-gray-700 bg-gray-800 px-3 py-2 text-xs text-gray-300 hover:bg-gray-750"
+                >
+                    Reset to Default
+                </button>
+                <button
+                    onClick={onClose}
+                    className="w-full rounded-lg border border-gray-700 bg-gray-900 px-3 py-2 text-xs text-gray-400 hover:text-gray-200"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+}
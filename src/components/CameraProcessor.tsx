@@ -1,17 +1,102 @@
-import { useEffect, useRef, useState, useCallback, type MutableRefObject } from 'react';
+import { useEffect, useMemo, useRef, useState, useCallback, type MutableRefObject } from 'react';
 import { useCamera } from '../hooks/useCamera';
+import { useMaskLibrary } from '../hooks/useMaskLibrary';
+import { useAvatarLibrary } from '../hooks/useAvatarLibrary';
 import { MediaPipeService } from '../services/MediaPipeService';
-import { ImageSegmenterResult, type FaceLandmarkerResult } from '@mediapipe/tasks-vision';
-import type { FaceBox, FrameSize, FaceSnapshot } from '../types/face';
-import { computeFaceBox } from '../utils/face';
+import {
+    getInferenceControls,
+    inferenceWorkerSupported,
+    InferenceWorkerClient,
+    readInferenceMode,
+} from '../services/InferenceWorkerClient';
+import type { FaceLandmarkerResult, HandLandmarkerResult, PoseLandmarkerResult } from '@mediapipe/tasks-vision';
+import type { AnimationMode, FaceAssignment, Point2D, FaceBox, FaceDetection, FaceEffect, FrameSize, FaceSnapshot, MaskAnchors, MaskFitMode } from '../types/face';
+import { computeFaceBox, getAnchorLandmarkPoints, getMaskAnchorPoints } from '../utils/face';
+import { fitAffine, fitSimilarity } from '../utils/transform';
+import { computeStickerPlacement, loadStickers } from '../utils/stickers';
+import { applyPrivacy, computePrivacyRegion, type PrivacyMode } from '../utils/privacy';
+import { disposeBackgroundSource, drawBackground, loadBackgroundSource, resumeBackgroundSource } from '../utils/background';
+import type { BackgroundScaleMode, BackgroundSource, MatteSource } from '../types/background';
+import { applyChromaKey, DEFAULT_CHROMA_KEY, type ChromaKeyOptions } from '../utils/chromaKey';
+import { applyClassTint, copySegmentationMasks, DEFAULT_MASK_REFINEMENT, drawMaskAlpha, MaskRefiner, type MaskRefinementOptions } from '../utils/segmentation';
+import {
+    WebGLCompositor,
+    type ClassTint,
+    type CompositeFaceLayer,
+    type CompositeImage,
+    type CompositeWarp,
+} from '../utils/webglCompositor';
+import type { SegmentationMasks, SegmentationModel } from '../types/segmentation';
+import type { InferenceMode } from '../types/inference';
+import type { Sticker } from '../types/sticker';
+import { FaceTracker } from '../utils/faceTracking';
+import {
+    DEFAULT_LANDMARK_FILTER,
+    LANDMARK_FILTER_LABELS,
+    LANDMARK_FILTER_PRESET_LABELS,
+    SnapshotFilter,
+    type LandmarkFilterOptions,
+    type LandmarkFilterPreset,
+    type LandmarkFilterType,
+} from '../utils/landmarkFilter';
+import { attachPoses } from '../utils/pose';
+import {
+    PerformanceGovernor,
+    QUALITY_LEVELS,
+    readQualityPin,
+    type PerformanceStats,
+    type QualityPin,
+} from '../utils/performance';
+import { GESTURE_ACTION_LABELS, GESTURE_LABELS, HandGestureDetector, parseGestureBindings } from '../utils/gestures';
+import { saveSnapshot, type OverlayCapture } from '../utils/snapshot';
+import type { GestureAction, GestureBindings as GestureBindingMap, GestureName } from '../types/gesture';
+import { BUILT_IN_AVATAR_ID, DEFAULT_AVATAR_PLACEMENT } from '../utils/avatar';
+import { createDefaultRetargetProfile } from '../utils/retarget';
+import type { AvatarPlacement, RetargetProfile } from '../types/avatar';
+import { drawWarpedTriangles, triangulate } from '../utils/faceMesh';
+import { DEFAULT_SCENE_LIGHTING, LightEstimator, type SceneLightFrame, type SceneLightingOptions } from '../utils/lighting';
+import { DEFAULT_AVATAR_OCCLUSION, type AvatarOcclusionOptions, type PersonMaskFrame } from '../utils/occlusion';
+import { applyColorTransfer, computeColorStats, computeFaceOvalBounds, traceFaceOval } from '../utils/blend';
 import { AvatarOverlay } from './AvatarOverlay';
-import { Settings, User, Image as ImageIcon, ExternalLink, Box, FlipHorizontal, Cpu, Monitor } from 'lucide-react';
+import { MaskLibrary } from './MaskLibrary';
+import { AvatarLibrary } from './AvatarLibrary';
+import { RetargetEditor } from './RetargetEditor';
+import { AvatarPlacementPanel } from './AvatarPlacementPanel';
+import { SceneLightingPanel } from './SceneLightingPanel';
+import { GestureBindings } from './GestureBindings';
+import { MaskAnchorEditor } from './MaskAnchorEditor';
+import { Settings, User, Image as ImageIcon, ExternalLink, Box, FlipHorizontal, Cpu, Monitor, Sticker as StickerIcon, Eye, EyeOff, X, Hand, Camera } from 'lucide-react';
 
 export function CameraProcessor() {
     const { videoRef, error } = useCamera();
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const maskCanvasRef = useRef<HTMLCanvasElement | null>(null);
     const personCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const maskGuideCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const maskRefinerRef = useRef(new MaskRefiner());
+    const occlusionMaskCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const occlusionRefinerRef = useRef(new MaskRefiner());
+    const personMaskRef = useRef<PersonMaskFrame | null>(null);
+    const lightEstimatorRef = useRef(new LightEstimator());
+    const sceneLightRef = useRef<SceneLightFrame | null>(null);
+    const lastLightSampleRef = useRef(0);
+    const glCompositorRef = useRef<WebGLCompositor | null>(null);
+    const glCompositorFailedRef = useRef(false);
+    const classMaskCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const classTintCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const hairMaskCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const hairLayerCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const faceLayerCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const faceFeatherCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const faceSampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const skinSampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const ovalSampleCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const privacyCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const backgroundBlurCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const inferenceCanvasRef = useRef<HTMLCanvasElement | null>(null);
+    const privacyRegionsRef = useRef(new Map<number, { region: Point2D[]; seenAt: number }>());
+    // Once a covered face is lost the whole frame stays covered until tracking has been steady for faceHoldMs.
+    const privacyLockRef = useRef<{ locked: boolean; stableSince: number | null }>({ locked: false, stableSince: null });
     const faceBoxRef = useRef<FaceBox | null>(null);
     const frameSizeRef = useRef<FrameSize>({ width: 0, height: 0 });
     const [isInitializing, setIsInitializing] = useState(true);
@@ -19,7 +104,8 @@ export function CameraProcessor() {
     const [enableFaceSwap, setEnableFaceSwap] = useState(false);
     const [enable3DAvatar, setEnable3DAvatar] = useState(false); // Default to false to prevent crash on load
     const [enableBackgroundReplace, setEnableBackgroundReplace] = useState(false);
-    const [headScale, setHeadScale] = useState(1.15);
+    const [faceBlendStrength, setFaceBlendStrength] = useState(0.7);
+    const [faceFeather, setFaceFeather] = useState(12);
     const [mirrorCamera, setMirrorCamera] = useState(true);
     const [has3DInitialized, setHas3DInitialized] = useState(false);
     const [renderQuality, setRenderQuality] = useState(1.25);
@@ -38,6 +124,8 @@ export function CameraProcessor() {
         return 'cpu';
     });
     const [needsRestart, setNeedsRestart] = useState(false);
+    // Applies on the next start; the models are loaded once, in the worker or on this thread.
+    const [inferenceMode, setInferenceMode] = useState<InferenceMode>(readInferenceMode);
     const [allowGpuFallback, setAllowGpuFallback] = useState(true);
     const [gpuBackend, setGpuBackend] = useState<'d3d11' | 'd3d9' | 'opengl' | 'vulkan' | 'desktop'>('d3d11');
     const [ignoreGpuBlocklist, setIgnoreGpuBlocklist] = useState(false);
@@ -45,19 +133,151 @@ export function CameraProcessor() {
     const [preventMinimizeForObs, setPreventMinimizeForObs] = useState(true);
 
     // Ref to pass data to 3D scene without re-renders
-    const faceSnapshotRef = useRef<FaceSnapshot | null>(null);
+    const faceSnapshotRef = useRef<FaceSnapshot[]>([]);
+    const faceTrackerRef = useRef(new FaceTracker());
+    // Unfiltered tracker output; privacy covers these so smoothing lag cannot expose a moving face.
+    const trackedFacesRef = useRef<FaceSnapshot[]>([]);
+    // Most recent masks, reused on frames that skip segmentation and, in worker mode, until newer ones arrive.
+    const segmentationCacheRef = useRef<SegmentationMasks | null>(null);
+    const snapshotFilterRef = useRef(new SnapshotFilter());
+    const performanceGovernorRef = useRef(new PerformanceGovernor());
+    // Frames handed to inference, for running segmentation every Nth one.
+    const inferenceFrameRef = useRef(0);
+    const qualityLevelRef = useRef(0);
+    const [qualityLevel, setQualityLevel] = useState(0);
+    const [qualityPin, setQualityPin] = useState<QualityPin>(readQualityPin);
+    const [performanceStats, setPerformanceStats] = useState<PerformanceStats>(() => performanceGovernorRef.current.getStats());
+    const trackedFaceKeyRef = useRef('');
+    const [trackedFaceIds, setTrackedFaceIds] = useState<number[]>([]);
+    const [maxFaces, setMaxFaces] = useState(1);
+    const [landmarkFilter, setLandmarkFilter] = useState<LandmarkFilterOptions>(DEFAULT_LANDMARK_FILTER);
+    const [faceAssignments, setFaceAssignments] = useState<Record<number, FaceAssignment>>({});
     const lastVideoTimeRef = useRef(-1);
     // Assets
-    const [backgroundImage, setBackgroundImage] = useState<HTMLImageElement | null>(null);
-    const [faceOverlayImage, setFaceOverlayImage] = useState<HTMLImageElement | null>(null);
+    const [backgroundSource, setBackgroundSource] = useState<BackgroundSource | null>(null);
+    const [backgroundScaleMode, setBackgroundScaleMode] = useState<BackgroundScaleMode>('cover');
+    const [maskRefinement, setMaskRefinement] = useState<MaskRefinementOptions>(DEFAULT_MASK_REFINEMENT);
+    const [matteSource, setMatteSource] = useState<MatteSource>('segmenter');
+    const [chromaKey, setChromaKey] = useState<ChromaKeyOptions>(DEFAULT_CHROMA_KEY);
+    const [enableKeyOutput, setEnableKeyOutput] = useState(false);
+    const [keyOutputColor, setKeyOutputColor] = useState('#00ff00');
+    const backgroundSourceRef = useRef<BackgroundSource | null>(null);
+    const [segmentationModel, setSegmentationModel] = useState<SegmentationModel>(
+        () => MediaPipeService.getInstance().getSegmentationModel()
+    );
+    const [enableHairColor, setEnableHairColor] = useState(false);
+    const [hairColor, setHairColor] = useState('#c2185b');
+    const [hairColorStrength, setHairColorStrength] = useState(0.6);
+    const [enableClothesTint, setEnableClothesTint] = useState(false);
+    const [clothesColor, setClothesColor] = useState('#1e88e5');
+    const [clothesTintStrength, setClothesTintStrength] = useState(0.5);
+    const [keepHair, setKeepHair] = useState(false);
+    const {
+        masks,
+        isLoading: isMaskLibraryLoading,
+        importMask,
+        renameMask,
+        deleteMask,
+        setMaskTarget,
+        updateMaskCalibration,
+        updateMaskAnimationMode,
+    } = useMaskLibrary();
+    const [calibratingMaskId, setCalibratingMaskId] = useState<string | null>(null);
+    const [stickers, setStickers] = useState<Sticker[]>([]);
+    const [enableStickers, setEnableStickers] = useState(false);
+    const [stickerError, setStickerError] = useState<string | null>(null);
+    const [privacyMode, setPrivacyMode] = useState<PrivacyMode>('off');
+    const [privacyColor, setPrivacyColor] = useState('#111111');
+    const [activeMaskId, setActiveMaskId] = useState<string | null>(() => {
+        try {
+            return window.localStorage.getItem('activeMaskId');
+        } catch {
+            return null;
+        }
+    });
+    const {
+        avatars,
+        isLoading: isAvatarLibraryLoading,
+        importAvatar,
+        renameAvatar,
+        deleteAvatar,
+        updateAvatarProfile,
+        updateAvatarPlacement,
+    } = useAvatarLibrary();
+    const [activeAvatarId, setActiveAvatarId] = useState<string>(() => {
+        try {
+            return window.localStorage.getItem('activeAvatarId') ?? BUILT_IN_AVATAR_ID;
+        } catch {
+            return BUILT_IN_AVATAR_ID;
+        }
+    });
+    const [avatarError, setAvatarError] = useState<string | null>(null);
+    const [isRetargeting, setIsRetargeting] = useState(false);
+    // Unsaved mapping from the retarget editor, previewed on the avatar while it is open.
+    const [retargetDraft, setRetargetDraft] = useState<RetargetProfile | null>(null);
+    // Placement being calibrated; non-null while calibration mode is on.
+    const [placementDraft, setPlacementDraft] = useState<AvatarPlacement | null>(null);
+    const [avatarOcclusion, setAvatarOcclusion] = useState<AvatarOcclusionOptions>(DEFAULT_AVATAR_OCCLUSION);
+    const [sceneLighting, setSceneLighting] = useState<SceneLightingOptions>(DEFAULT_SCENE_LIGHTING);
+    const [isLightingPanelOpen, setIsLightingPanelOpen] = useState(false);
+    const [enablePoseTracking, setEnablePoseTracking] = useState(false);
+    const [enableGestures, setEnableGestures] = useState(false);
+    const [gestureBindings, setGestureBindings] = useState<GestureBindingMap>(() => {
+        try {
+            const stored = window.localStorage.getItem('gestureBindings');
+            return parseGestureBindings(stored ? JSON.parse(stored) : null);
+        } catch {
+            return parseGestureBindings(null);
+        }
+    });
+    const [lastGesture, setLastGesture] = useState<{ gesture: GestureName; action: GestureAction } | null>(null);
+    const gestureDetectorRef = useRef(new HandGestureDetector());
+    // Latest gesture handler for the render loop, which would otherwise restart on every state change.
+    const gestureHandlerRef = useRef<(gesture: GestureName) => void>(() => undefined);
+    const avatarCaptureRef = useRef<OverlayCapture | null>(null);
+    const lightSampleMs = 150;
+    const detectedMaskIdsRef = useRef(new Set<string>());
     const lastFaceResultTimeRef = useRef(0);
     const faceHoldMs = 600;
 
+    const hasExplicitAvatar = Object.values(faceAssignments).some((assignment) => assignment.effect === 'avatar');
+    const hasExplicitMask = Object.values(faceAssignments).some((assignment) => assignment.effect === 'mask');
+    const avatarActive = enable3DAvatar || hasExplicitAvatar;
+    const needsFaceTracking = enableFaceSwap
+        || avatarActive
+        || hasExplicitMask
+        || (enableStickers && stickers.length > 0)
+        || privacyMode !== 'off';
+    const classEffectsActive = segmentationModel === 'multiclass' && (enableHairColor || enableClothesTint || keepHair);
+    const bodyOcclusionActive = avatarActive && avatarOcclusion.body;
+    const lightSamplingActive = avatarActive && (sceneLighting.auto || sceneLighting.environment);
+    const poseTrackingActive = avatarActive && enablePoseTracking;
+    // Key colour output cuts the person out too, so it needs the matte even without a replacement background.
+    const mattingActive = enableBackgroundReplace || enableKeyOutput;
+    const needsSegmentation = (mattingActive && matteSource === 'segmenter') || classEffectsActive || bodyOcclusionActive;
+    const avatarFaceIds = trackedFaceIds.filter((id) => {
+        const assignment = faceAssignments[id];
+        return assignment && assignment.effect !== 'default' ? assignment.effect === 'avatar' : enable3DAvatar;
+    });
+
+    // Forget assignments of faces whose track has expired; a returning person gets a new ID.
     useEffect(() => {
-        if (enable3DAvatar && !has3DInitialized) {
+        setFaceAssignments((current) => {
+            const stale = Object.keys(current).filter((id) => !trackedFaceIds.includes(Number(id)));
+            if (stale.length === 0) return current;
+            const next = { ...current };
+            stale.forEach((id) => {
+                delete next[Number(id)];
+            });
+            return next;
+        });
+    }, [trackedFaceIds]);
+
+    useEffect(() => {
+        if (avatarActive && !has3DInitialized) {
             setHas3DInitialized(true);
         }
-    }, [enable3DAvatar, has3DInitialized]);
+    }, [avatarActive, has3DInitialized]);
 
     useEffect(() => {
         let active = true;
@@ -137,6 +357,38 @@ export function CameraProcessor() {
         };
     }, []);
 
+    useEffect(() => {
+        // Stale history would ghost the previous silhouette in when re-enabled.
+        maskRefinerRef.current.reset();
+        glCompositorRef.current?.reset();
+    }, [mattingActive]);
+
+    useEffect(() => {
+        if (lightSamplingActive) return;
+        lightEstimatorRef.current.reset();
+        sceneLightRef.current = null;
+    }, [lightSamplingActive]);
+
+    useEffect(() => {
+        if (bodyOcclusionActive) return;
+        occlusionRefinerRef.current.reset();
+        personMaskRef.current = null;
+    }, [bodyOcclusionActive]);
+
+    useEffect(() => () => {
+        glCompositorRef.current?.dispose();
+        glCompositorRef.current = null;
+    }, []);
+
+    useEffect(() => {
+        backgroundSourceRef.current = backgroundSource;
+        return () => {
+            if (backgroundSource) {
+                disposeBackgroundSource(backgroundSource);
+            }
+        };
+    }, [backgroundSource]);
+
     useEffect(() => {
         const handleVisible = () => {
             if (document.visibilityState === 'visible') {
@@ -147,6 +399,7 @@ export function CameraProcessor() {
                         // Ignore play errors when resuming.
                     });
                 }
+                resumeBackgroundSource(backgroundSourceRef.current);
             }
         };
         document.addEventListener('visibilitychange', handleVisible);
@@ -157,6 +410,45 @@ export function CameraProcessor() {
         };
     }, [videoRef]);
 
+    // The pose model is only created while an avatar is shown with upper-body tracking on.
+    useEffect(() => {
+        if (isInitializing || initError) return;
+        getInferenceControls()
+            .setPoseTrackingEnabled(poseTrackingActive)
+            .catch((err) => {
+                console.warn('Failed to start upper-body tracking:', err);
+                setAvatarError('Upper-body tracking is unavailable: the pose model failed to load.');
+                setEnablePoseTracking(false);
+            });
+    }, [poseTrackingActive, isInitializing, initError]);
+
+    useEffect(() => {
+        if (isInitializing || initError) return;
+        if (!enableGestures) {
+            gestureDetectorRef.current.reset();
+        }
+        getInferenceControls()
+            .setHandTrackingEnabled(enableGestures)
+            .catch((err) => {
+                console.warn('Failed to start hand tracking:', err);
+                setEnableGestures(false);
+            });
+    }, [enableGestures, isInitializing, initError]);
+
+    useEffect(() => {
+        try {
+            window.localStorage.setItem('gestureBindings', JSON.stringify(gestureBindings));
+        } catch {
+            // Ignore storage access errors.
+        }
+    }, [gestureBindings]);
+
+    useEffect(() => {
+        if (!lastGesture) return;
+        const timeoutId = window.setTimeout(() => setLastGesture(null), 1500);
+        return () => window.clearTimeout(timeoutId);
+    }, [lastGesture]);
+
     useEffect(() => {
         try {
             window.localStorage.setItem('renderMode', renderMode);
@@ -167,8 +459,20 @@ export function CameraProcessor() {
 
     useEffect(() => {
         let active = true;
-        MediaPipeService.getInstance()
-            .initialize()
+        const start = async () => {
+            if (readInferenceMode() === 'worker') {
+                const client = InferenceWorkerClient.start();
+                try {
+                    await client.initialize();
+                    return;
+                } catch (err) {
+                    console.warn('Inference worker failed to start; running MediaPipe on the main thread:', err);
+                    client.stop();
+                }
+            }
+            await MediaPipeService.getInstance().initialize();
+        };
+        start()
             .then(() => {
                 if (!active) return;
                 setIsInitializing(false);
@@ -184,12 +488,80 @@ export function CameraProcessor() {
         };
     }, []);
 
+    // Detect each uploaded face once so it can be warped onto the live mesh.
+    useEffect(() => {
+        if (isInitializing || initError) {
+            return;
+        }
+        const service = getInferenceControls();
+        masks.forEach((mask) => {
+            if (detectedMaskIdsRef.current.has(mask.id)) return;
+            detectedMaskIdsRef.current.add(mask.id);
+            service.detectFaceInImage(mask.image)
+                .then((result) => {
+                    const landmarks = result?.faceLandmarks?.[0];
+                    if (!landmarks || landmarks.length === 0) {
+                        console.warn(`No face found in mask "${mask.name}", falling back to box overlay.`);
+                        return;
+                    }
+                    const width = mask.image.naturalWidth;
+                    const height = mask.image.naturalHeight;
+                    const points = landmarks.map((landmark) => ({ x: landmark.x * width, y: landmark.y * height }));
+                    setMaskTarget(mask.id, { landmarks: points, triangles: triangulate(points) });
+                })
+                .catch((err) => {
+                    console.warn(`Failed to detect face in mask "${mask.name}":`, err);
+                });
+        });
+    }, [masks, isInitializing, initError, setMaskTarget]);
+
+    // Remember the selected mask across restarts; drop it once the library says it is gone.
+    useEffect(() => {
+        if (isMaskLibraryLoading) return;
+        if (activeMaskId && !masks.some((mask) => mask.id === activeMaskId)) {
+            setActiveMaskId(null);
+            return;
+        }
+        try {
+            if (activeMaskId) {
+                window.localStorage.setItem('activeMaskId', activeMaskId);
+            } else {
+                window.localStorage.removeItem('activeMaskId');
+            }
+        } catch {
+            // Ignore storage access errors.
+        }
+    }, [activeMaskId, masks, isMaskLibraryLoading]);
+
+    const activeAvatar = avatars.find((avatar) => avatar.id === activeAvatarId) ?? avatars[0];
+    // Memoised: a new profile object resets the avatar's morph weights.
+    const savedRetargetProfile = useMemo(
+        () => activeAvatar.profile ?? createDefaultRetargetProfile(activeAvatar),
+        [activeAvatar]
+    );
+    const activeRetargetProfile = retargetDraft ?? savedRetargetProfile;
+    const activePlacement = placementDraft ?? activeAvatar.placement ?? DEFAULT_AVATAR_PLACEMENT;
+
+    // Same for the avatar; an unknown id falls back to the bundled raccoon.
+    useEffect(() => {
+        if (isAvatarLibraryLoading) return;
+        if (!avatars.some((avatar) => avatar.id === activeAvatarId)) {
+            setActiveAvatarId(BUILT_IN_AVATAR_ID);
+            return;
+        }
+        try {
+            window.localStorage.setItem('activeAvatarId', activeAvatarId);
+        } catch {
+            // Ignore storage access errors.
+        }
+    }, [activeAvatarId, avatars, isAvatarLibraryLoading]);
+
     const drawComposition = useCallback((
         ctx: CanvasRenderingContext2D,
         video: HTMLVideoElement,
         canvas: HTMLCanvasElement,
-        segmentation: ImageSegmenterResult | null,
-        snapshot: FaceSnapshot | null
+        segmentationMasks: SegmentationMasks | null,
+        snapshots: FaceSnapshot[]
     ) => {
         const ensureCanvas = (ref: MutableRefObject<HTMLCanvasElement | null>, width: number, height: number) => {
             if (!ref.current) {
@@ -202,6 +574,9 @@ export function CameraProcessor() {
             return ref.current;
         };
 
+        // Set by the performance governor each frame; lower levels drop the Gaussian blurs.
+        const quality = QUALITY_LEVELS[performanceGovernorRef.current.level];
+
         ctx.save();
         ctx.clearRect(0, 0, canvas.width, canvas.height);
 
@@ -212,58 +587,92 @@ export function CameraProcessor() {
         }
 
         // --- Background Layer ---
-        if (enableBackgroundReplace && (segmentation?.confidenceMasks?.length || segmentation?.categoryMask)) {
-            const mask = segmentation.confidenceMasks?.[0] ?? segmentation.categoryMask!;
-            const isConfidenceMask = Boolean(segmentation.confidenceMasks?.length);
-            const maskWidth = mask.width;
-            const maskHeight = mask.height;
-            const maskCanvas = ensureCanvas(maskCanvasRef, maskWidth, maskHeight);
-            const personCanvas = ensureCanvas(personCanvasRef, canvas.width, canvas.height);
-            const maskCtx = maskCanvas.getContext('2d', { willReadFrequently: true });
-            const personCtx = personCanvas.getContext('2d', { willReadFrequently: true });
-
-            if (maskCtx && personCtx) {
-                const maskData = isConfidenceMask ? mask.getAsFloat32Array() : mask.getAsUint8Array();
-                const imageData = maskCtx.createImageData(maskWidth, maskHeight);
-                const data = imageData.data;
-                for (let i = 0; i < maskData.length; i++) {
-                    const value = maskData[i];
-                    const alpha = isConfidenceMask ? Math.round(Math.min(1, Math.max(0, value)) * 255) : (value > 0 ? 255 : 0);
-                    const idx = i * 4;
-                    data[idx] = 255;
-                    data[idx + 1] = 255;
-                    data[idx + 2] = 255;
-                    data[idx + 3] = alpha;
-                }
-                maskCtx.putImageData(imageData, 0, 0);
-
-                if (backgroundImage) {
-                    ctx.drawImage(backgroundImage, 0, 0, canvas.width, canvas.height);
-                } else {
-                    ctx.save();
-                    ctx.filter = 'blur(12px)';
-                    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-                    ctx.restore();
-                }
-
-                personCtx.clearRect(0, 0, personCanvas.width, personCanvas.height);
-                personCtx.drawImage(video, 0, 0, personCanvas.width, personCanvas.height);
-                personCtx.globalCompositeOperation = 'destination-in';
-                personCtx.drawImage(maskCanvas, 0, 0, personCanvas.width, personCanvas.height);
-                personCtx.globalCompositeOperation = 'source-over';
-                ctx.drawImage(personCanvas, 0, 0, canvas.width, canvas.height);
-            } else {
+        const classes = segmentationMasks?.classes ?? {};
+        // The avatar's body occluder reads the raw person mask, whatever the background settings.
+        if (bodyOcclusionActive && segmentationMasks) {
+            const mask = segmentationMasks.person;
+            const occlusionCanvas = ensureCanvas(occlusionMaskCanvasRef, mask.width, mask.height);
+            const occlusionCtx = occlusionCanvas.getContext('2d', { willReadFrequently: true });
+            if (occlusionCtx) {
+                const maskData = segmentationMasks.personKind === 'category' ? mask.getAsUint8Array() : mask.getAsFloat32Array();
+                const alphaValues = occlusionRefinerRef.current.refine(
+                    maskData,
+                    segmentationMasks.personKind,
+                    mask.width,
+                    mask.height,
+                    DEFAULT_MASK_REFINEMENT
+                );
+                drawMaskAlpha(occlusionCtx, alphaValues, mask.width, mask.height);
+                personMaskRef.current = { canvas: occlusionCanvas, updatedAt: performance.now() };
+            }
+        }
+        const chromaKeyActive = mattingActive && matteSource === 'chromaKey';
+        const person = mattingActive && !chromaKeyActive && segmentationMasks
+            ? { mask: segmentationMasks.person, kind: segmentationMasks.personKind }
+            : null;
+        const backgroundColor = enableKeyOutput ? keyOutputColor : null;
+        const drawBackgroundFill = () => {
+            if (backgroundColor) {
+                ctx.fillStyle = backgroundColor;
+                ctx.fillRect(0, 0, canvas.width, canvas.height);
+            } else if (backgroundSource) {
+                drawBackground(ctx, backgroundSource, canvas.width, canvas.height, backgroundScaleMode);
+            } else if (quality.blur) {
+                ctx.save();
+                ctx.filter = 'blur(12px)';
                 ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+                ctx.restore();
+            } else {
+                // Cheap stand-in for the blur: scale the camera down and let smoothing blur it back up.
+                const small = ensureCanvas(
+                    backgroundBlurCanvasRef,
+                    Math.max(1, Math.round(canvas.width / 16)),
+                    Math.max(1, Math.round(canvas.height / 16))
+                );
+                small.getContext('2d')?.drawImage(video, 0, 0, small.width, small.height);
+                ctx.save();
+                ctx.imageSmoothingEnabled = true;
+                ctx.imageSmoothingQuality = 'low';
+                ctx.drawImage(small, 0, 0, canvas.width, canvas.height);
+                ctx.restore();
             }
-            segmentation.close();
-        } else {
-            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        };
+        const tints: ClassTint[] = [];
+        if (enableHairColor && classes.hair) {
+            tints.push({ mask: classes.hair, color: hairColor, strength: hairColorStrength });
+        }
+        if (enableClothesTint && classes.clothes) {
+            tints.push({ mask: classes.clothes, color: clothesColor, strength: clothesTintStrength });
         }
 
+        // Keep hair: the finished hair pixels are laid back over the face effects.
+        const hairMask = keepHair && snapshots.length > 0 ? classes.hair ?? null : null;
+
         // --- Face Layer ---
-        let faceBox: FaceBox | null = null;
-        if (snapshot && snapshot.landmarks.length > 0) {
-            faceBox = computeFaceBox(
+        // Described in frame space first, then drawn by the WebGL compositor or by Canvas2D below.
+        const frameTime = performance.now();
+        const activeMask = masks.find((mask) => mask.id === activeMaskId) ?? null;
+        faceBoxRef.current = null;
+        const visibleStickers = enableStickers
+            ? stickers.filter((sticker) => sticker.visible).sort((a, b) => a.definition.zOrder - b.definition.zOrder)
+            : [];
+        // Stickers with a negative z-order sit beneath the mask.
+        const underlays: CompositeImage[] = [];
+        const overlays: CompositeImage[] = [];
+        const faces: CompositeFaceLayer[] = [];
+        for (const snapshot of snapshots) {
+            if (snapshot.landmarks.length === 0 || faceAssignments[snapshot.id]?.effect === 'none') continue;
+            for (const sticker of visibleStickers) {
+                const placement = computeStickerPlacement(sticker, snapshot.landmarks, snapshot.matrix, canvas.width, canvas.height);
+                if (placement) {
+                    (sticker.definition.zOrder < 0 ? underlays : overlays).push({ source: sticker.image, ...placement });
+                }
+            }
+        }
+
+        for (const snapshot of snapshots) {
+            if (snapshot.landmarks.length === 0) continue;
+            const faceBox = computeFaceBox(
                 snapshot.landmarks,
                 canvas.width,
                 canvas.height,
@@ -272,63 +681,434 @@ export function CameraProcessor() {
                 0.3,
                 mirrorCamera
             );
-            faceBoxRef.current = faceBox;
+            if (!faceBoxRef.current) {
+                faceBoxRef.current = faceBox;
+            }
+
+            // Explicit per-face assignments win over the global toggles.
+            const assignment = faceAssignments[snapshot.id];
+            const explicit = assignment && assignment.effect !== 'default';
+            const showMask = explicit ? assignment.effect === 'mask' : enableFaceSwap;
+            if (!showMask) continue;
+            const mask = explicit ? masks.find((entry) => entry.id === assignment.maskId) ?? null : activeMask;
+            const faceOverlayImage = mask?.image ?? null;
+            const animation = mask?.animation;
+            if (animation?.mode === 'trigger') {
+                // Opening the mouth fires a play-on-trigger mask.
+                const jawOpen = snapshot.blendshapes?.find((shape) => shape.name === 'jawOpen')?.score ?? 0;
+                if (jawOpen > 0.5) {
+                    animation.trigger(frameTime);
+                }
+            }
+            // Animated masks share the still image's dimensions, so only the pixels change.
+            const faceSource = animation ? animation.getFrame(frameTime) : faceOverlayImage;
+            const faceSwapTarget = mask?.target ?? null;
+            const anchorDst = mask?.anchors
+                ? getAnchorLandmarkPoints(snapshot.landmarks, canvas.width, canvas.height)
+                : null;
+
+            if (faceOverlayImage && mask?.anchors && anchorDst) {
+                // User-calibrated artwork: fit the anchor points onto the matching landmarks.
+                const anchorSrc = getMaskAnchorPoints(mask.anchors, faceOverlayImage.naturalWidth, faceOverlayImage.naturalHeight);
+                const matrix = mask.fitMode === 'affine'
+                    ? fitAffine(anchorSrc, anchorDst)
+                    : fitSimilarity(anchorSrc, anchorDst);
+                if (matrix) {
+                    faces.push({
+                        kind: 'image',
+                        source: faceSource ?? faceOverlayImage,
+                        transform: matrix,
+                        width: faceOverlayImage.naturalWidth,
+                        height: faceOverlayImage.naturalHeight,
+                    });
+                }
+            } else if (faceOverlayImage && faceSwapTarget) {
+                // Landmarks are in unmirrored frame space; the output is mirrored as a whole.
+                const dstPoints = snapshot.landmarks.map((landmark) => ({
+                    x: landmark.x * canvas.width,
+                    y: landmark.y * canvas.height,
+                }));
+                const bounds = computeFaceOvalBounds(dstPoints, faceFeather * 2, canvas.width, canvas.height);
+                if (bounds) {
+                    faces.push({
+                        kind: 'warp',
+                        source: faceSource ?? faceOverlayImage,
+                        sourceWidth: faceOverlayImage.naturalWidth,
+                        sourceHeight: faceOverlayImage.naturalHeight,
+                        sourcePoints: faceSwapTarget.landmarks,
+                        points: dstPoints,
+                        triangles: faceSwapTarget.triangles,
+                        bounds,
+                        colorMatch: faceBlendStrength,
+                        feather: faceFeather,
+                        softEdge: quality.blur,
+                    });
+                }
+            } else if (faceOverlayImage) {
+                faces.push({
+                    kind: 'image',
+                    source: faceSource ?? faceOverlayImage,
+                    transform: [1, 0, 0, 1, faceBox.x, faceBox.y],
+                    width: faceBox.width,
+                    height: faceBox.height,
+                });
+            } else if (!explicit) {
+                // Debug Landmarks
+                faces.push({
+                    kind: 'landmarks',
+                    points: snapshot.landmarks.map((landmark) => ({
+                        x: landmark.x * canvas.width,
+                        y: landmark.y * canvas.height,
+                    })),
+                });
+            }
+        }
+
+        // --- Privacy Layer ---
+        // Regions are tracked in screen space and drawn last, so they also cover masks and stickers.
+        const privacyRegions = privacyRegionsRef.current;
+        const privacyLock = privacyLockRef.current;
+        if (privacyMode !== 'off') {
+            const trackedFaces = trackedFacesRef.current;
+            for (const face of trackedFaces) {
+                const region = computePrivacyRegion(face.landmarks, canvas.width, canvas.height, mirrorCamera);
+                if (region) {
+                    privacyRegions.set(face.id, { region, seenAt: face.timestamp });
+                }
+            }
+            // Keep covering a face briefly after tracking drops, like faceHoldMs for snapshots.
+            privacyRegions.forEach((entry, id) => {
+                if (frameTime - entry.seenAt > faceHoldMs) {
+                    privacyRegions.delete(id);
+                    privacyLock.locked = true;
+                    privacyLock.stableSince = null;
+                }
+            });
+            if (privacyLock.locked) {
+                // Steady means every covered face is in the latest tracker output.
+                const steady = privacyRegions.size > 0
+                    && Array.from(privacyRegions.keys()).every((id) => trackedFaces.some((face) => face.id === id));
+                if (!steady) {
+                    privacyLock.stableSince = null;
+                } else if (privacyLock.stableSince === null) {
+                    privacyLock.stableSince = frameTime;
+                } else if (frameTime - privacyLock.stableSince >= faceHoldMs) {
+                    privacyLock.locked = false;
+                }
+            }
         } else {
-            faceBoxRef.current = null;
+            privacyRegions.clear();
+            privacyLock.locked = false;
+            privacyLock.stableSince = null;
+        }
+        // Fail closed: with no face region left, or while a lost face keeps the lock, the whole frame is blurred.
+        const coverRegions = privacyRegions.size > 0 && !privacyLock.locked
+            ? Array.from(privacyRegions.values(), (entry) => entry.region)
+            : null;
+
+        // GPU mode composites the whole frame in WebGL2; Canvas2D below stays the CPU path and the fallback.
+        if (renderMode === 'gpu' && !glCompositorRef.current && !glCompositorFailedRef.current) {
+            glCompositorRef.current = WebGLCompositor.create(MediaPipeService.getInstance().getSegmenterCanvas());
+            glCompositorFailedRef.current = !glCompositorRef.current;
+        }
+        const compositor = renderMode === 'gpu' ? glCompositorRef.current : null;
+        const composited = compositor?.render({
+            video,
+            person,
+            tints,
+            chromaKey: chromaKeyActive ? chromaKey : null,
+            backgroundColor,
+            background: backgroundSource,
+            backgroundScaleMode,
+            refinement: quality.blur ? maskRefinement : { ...maskRefinement, feather: 0 },
+            blurBackground: quality.blur,
+            underlays,
+            faces,
+            overlays,
+            keepHair: hairMask,
+            // The compositor works in frame space; the mirror is applied when its canvas is copied.
+            privacy: privacyMode !== 'off'
+                ? {
+                    mode: privacyMode,
+                    color: privacyColor,
+                    regions: coverRegions && mirrorCamera
+                        ? coverRegions.map((region) => region.map((pt) => ({ x: canvas.width - pt.x, y: pt.y })))
+                        : coverRegions,
+                }
+                : null,
+        }, canvas.width, canvas.height) ?? false;
+        if (compositor && !composited) {
+            console.warn('WebGL compositor lost its context; using Canvas2D.');
+            compositor.dispose();
+            glCompositorRef.current = null;
+            glCompositorFailedRef.current = true;
+        }
+        if (compositor && composited) {
+            // The output canvas stays 2D for capture, so the finished frame is copied once.
+            ctx.drawImage(compositor.canvas, 0, 0, canvas.width, canvas.height);
+            ctx.restore();
+            return;
         }
 
-        if (enableFaceSwap && faceBox) {
-            if (faceOverlayImage) {
-                ctx.drawImage(faceOverlayImage, faceBox.x, faceBox.y, faceBox.width, faceBox.height);
-            } else if (snapshot) {
-                const landmarks = snapshot.landmarks;
-                // Debug Landmarks
+        if (person || chromaKeyActive || tints.length > 0) {
+            if (chromaKeyActive) {
+                const personCanvas = ensureCanvas(personCanvasRef, canvas.width, canvas.height);
+                const personCtx = personCanvas.getContext('2d', { willReadFrequently: true });
+                if (personCtx) {
+                    personCtx.drawImage(video, 0, 0, personCanvas.width, personCanvas.height);
+                    const frame = personCtx.getImageData(0, 0, personCanvas.width, personCanvas.height);
+                    applyChromaKey(frame.data, chromaKey);
+                    personCtx.putImageData(frame, 0, 0);
+                    drawBackgroundFill();
+                    ctx.drawImage(personCanvas, 0, 0, canvas.width, canvas.height);
+                } else {
+                    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+                }
+            } else if (person) {
+                const mask = person.mask;
+                const maskWidth = mask.width;
+                const maskHeight = mask.height;
+                const maskCanvas = ensureCanvas(maskCanvasRef, maskWidth, maskHeight);
+                const personCanvas = ensureCanvas(personCanvasRef, canvas.width, canvas.height);
+                const maskCtx = maskCanvas.getContext('2d', { willReadFrequently: true });
+                const personCtx = personCanvas.getContext('2d', { willReadFrequently: true });
+
+                if (maskCtx && personCtx) {
+                    const maskData = person.kind === 'category' ? mask.getAsUint8Array() : mask.getAsFloat32Array();
+                    let guide: Uint8ClampedArray | null = null;
+                    if (maskRefinement.edgeAware) {
+                        const guideCanvas = ensureCanvas(maskGuideCanvasRef, maskWidth, maskHeight);
+                        const guideCtx = guideCanvas.getContext('2d', { willReadFrequently: true });
+                        if (guideCtx) {
+                            guideCtx.drawImage(video, 0, 0, maskWidth, maskHeight);
+                            guide = guideCtx.getImageData(0, 0, maskWidth, maskHeight).data;
+                        }
+                    }
+                    const alphaValues = maskRefinerRef.current.refine(
+                        maskData,
+                        person.kind,
+                        maskWidth,
+                        maskHeight,
+                        maskRefinement,
+                        guide
+                    );
+                    drawMaskAlpha(maskCtx, alphaValues, maskWidth, maskHeight);
+                    drawBackgroundFill();
+
+                    personCtx.clearRect(0, 0, personCanvas.width, personCanvas.height);
+                    personCtx.drawImage(video, 0, 0, personCanvas.width, personCanvas.height);
+                    personCtx.globalCompositeOperation = 'destination-in';
+                    personCtx.filter = quality.blur && maskRefinement.feather > 0 ? `blur(${maskRefinement.feather}px)` : 'none';
+                    personCtx.drawImage(maskCanvas, 0, 0, personCanvas.width, personCanvas.height);
+                    personCtx.filter = 'none';
+                    personCtx.globalCompositeOperation = 'source-over';
+                    ctx.drawImage(personCanvas, 0, 0, canvas.width, canvas.height);
+                } else {
+                    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+                }
+            } else {
+                ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+            }
+
+            for (const tint of tints) {
+                const classCanvas = ensureCanvas(classMaskCanvasRef, tint.mask.width, tint.mask.height);
+                const classCtx = classCanvas.getContext('2d', { willReadFrequently: true });
+                if (!classCtx) continue;
+                if (!classTintCanvasRef.current) {
+                    classTintCanvasRef.current = document.createElement('canvas');
+                }
+                drawMaskAlpha(classCtx, tint.mask.getAsFloat32Array(), tint.mask.width, tint.mask.height);
+                applyClassTint(ctx, classCanvas, classTintCanvasRef.current, tint.color, tint.strength, canvas.width, canvas.height);
+            }
+        } else {
+            ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+        }
+
+        // Keep hair: copy the finished hair pixels now and lay them back over the face effects.
+        let hairLayer: HTMLCanvasElement | null = null;
+        if (hairMask) {
+            const hairMaskCanvas = ensureCanvas(hairMaskCanvasRef, hairMask.width, hairMask.height);
+            const hairMaskCtx = hairMaskCanvas.getContext('2d', { willReadFrequently: true });
+            hairLayer = ensureCanvas(hairLayerCanvasRef, canvas.width, canvas.height);
+            const hairLayerCtx = hairLayer.getContext('2d');
+            if (hairMaskCtx && hairLayerCtx) {
+                drawMaskAlpha(hairMaskCtx, hairMask.getAsFloat32Array(), hairMask.width, hairMask.height);
+                hairLayerCtx.save();
+                hairLayerCtx.clearRect(0, 0, hairLayer.width, hairLayer.height);
+                hairLayerCtx.drawImage(canvas, 0, 0);
+                hairLayerCtx.globalCompositeOperation = 'destination-in';
+                // The copy is in screen space while the mask follows the camera frame.
+                if (mirrorCamera) {
+                    hairLayerCtx.scale(-1, 1);
+                    hairLayerCtx.translate(-hairLayer.width, 0);
+                }
+                hairLayerCtx.drawImage(hairMaskCanvas, 0, 0, hairLayer.width, hairLayer.height);
+                hairLayerCtx.restore();
+            } else {
+                hairLayer = null;
+            }
+        }
+
+        const drawImageLayer = (image: CompositeImage) => {
+            ctx.save();
+            ctx.transform(...image.transform);
+            ctx.drawImage(image.source, 0, 0, image.width, image.height);
+            ctx.restore();
+        };
+        const drawWarpLayer = (warp: CompositeWarp) => {
+            const { bounds, feather } = warp;
+            const layerCanvas = ensureCanvas(faceLayerCanvasRef, canvas.width, canvas.height);
+            const featherCanvas = ensureCanvas(faceFeatherCanvasRef, canvas.width, canvas.height);
+            const layerCtx = layerCanvas.getContext('2d', { willReadFrequently: true });
+            const featherCtx = featherCanvas.getContext('2d');
+            if (!layerCtx || !featherCtx) return;
+
+            layerCtx.clearRect(0, 0, layerCanvas.width, layerCanvas.height);
+            drawWarpedTriangles(layerCtx, warp.source, warp.sourcePoints, warp.points, warp.triangles);
+
+            // Colour match: compare the warped face with the live skin under the oval
+            // on small samples, then shift the full-resolution face region.
+            if (warp.colorMatch > 0) {
+                const sampleScale = 64 / Math.max(bounds.width, bounds.height);
+                const sampleWidth = Math.max(1, Math.round(bounds.width * sampleScale));
+                const sampleHeight = Math.max(1, Math.round(bounds.height * sampleScale));
+                const faceSample = ensureCanvas(faceSampleCanvasRef, sampleWidth, sampleHeight);
+                const skinSample = ensureCanvas(skinSampleCanvasRef, sampleWidth, sampleHeight);
+                const ovalSample = ensureCanvas(ovalSampleCanvasRef, sampleWidth, sampleHeight);
+                const faceSampleCtx = faceSample.getContext('2d', { willReadFrequently: true });
+                const skinSampleCtx = skinSample.getContext('2d', { willReadFrequently: true });
+                const ovalSampleCtx = ovalSample.getContext('2d', { willReadFrequently: true });
+                if (faceSampleCtx && skinSampleCtx && ovalSampleCtx) {
+                    ovalSampleCtx.clearRect(0, 0, sampleWidth, sampleHeight);
+                    ovalSampleCtx.fillStyle = '#fff';
+                    traceFaceOval(ovalSampleCtx, warp.points, bounds.x, bounds.y, sampleScale);
+                    ovalSampleCtx.fill();
+                    faceSampleCtx.clearRect(0, 0, sampleWidth, sampleHeight);
+                    faceSampleCtx.drawImage(layerCanvas, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, sampleWidth, sampleHeight);
+                    skinSampleCtx.clearRect(0, 0, sampleWidth, sampleHeight);
+                    skinSampleCtx.drawImage(video, bounds.x, bounds.y, bounds.width, bounds.height, 0, 0, sampleWidth, sampleHeight);
+
+                    const ovalPixels = ovalSampleCtx.getImageData(0, 0, sampleWidth, sampleHeight).data;
+                    const faceStats = computeColorStats(faceSampleCtx.getImageData(0, 0, sampleWidth, sampleHeight).data, ovalPixels);
+                    const skinStats = computeColorStats(skinSampleCtx.getImageData(0, 0, sampleWidth, sampleHeight).data, ovalPixels);
+                    const region = layerCtx.getImageData(bounds.x, bounds.y, bounds.width, bounds.height);
+                    applyColorTransfer(region.data, faceStats, skinStats, warp.colorMatch);
+                    layerCtx.putImageData(region, bounds.x, bounds.y);
+                }
+            }
+
+            // Feathered oval, inset so the soft edge falls inside the warped face.
+            const centerX = bounds.x + bounds.width * 0.5;
+            const centerY = bounds.y + bounds.height * 0.5;
+            const radius = Math.max(1, Math.min(bounds.width, bounds.height) * 0.5 - feather * 2);
+            const inset = Math.max(0.5, 1 - feather / radius);
+            featherCtx.clearRect(0, 0, featherCanvas.width, featherCanvas.height);
+            featherCtx.save();
+            featherCtx.filter = warp.softEdge && feather > 0 ? `blur(${feather}px)` : 'none';
+            featherCtx.translate(centerX, centerY);
+            featherCtx.scale(inset, inset);
+            featherCtx.translate(-centerX, -centerY);
+            featherCtx.fillStyle = '#fff';
+            traceFaceOval(featherCtx, warp.points);
+            featherCtx.fill();
+            featherCtx.restore();
+
+            layerCtx.globalCompositeOperation = 'destination-in';
+            layerCtx.drawImage(featherCanvas, 0, 0);
+            layerCtx.globalCompositeOperation = 'source-over';
+            ctx.drawImage(layerCanvas, 0, 0, canvas.width, canvas.height);
+        };
+
+        underlays.forEach(drawImageLayer);
+        for (const face of faces) {
+            if (face.kind === 'warp') {
+                drawWarpLayer(face);
+            } else if (face.kind === 'image') {
+                drawImageLayer(face);
+            } else {
                 ctx.fillStyle = 'rgba(0, 255, 0, 0.5)';
-                for (const landmark of landmarks) {
+                for (const point of face.points) {
                     ctx.beginPath();
-                    ctx.arc(landmark.x * canvas.width, landmark.y * canvas.height, 1.5, 0, 2 * Math.PI);
+                    ctx.arc(point.x, point.y, 1.5, 0, 2 * Math.PI);
                     ctx.fill();
                 }
             }
         }
 
+        if (hairLayer) {
+            ctx.save();
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            ctx.drawImage(hairLayer, 0, 0);
+            ctx.restore();
+        }
+
+        overlays.forEach(drawImageLayer);
+
         ctx.restore();
-    }, [enableBackgroundReplace, backgroundImage, enableFaceSwap, faceOverlayImage, mirrorCamera]);
 
-    const buildFaceSnapshot = (result: FaceLandmarkerResult, timestamp: number): FaceSnapshot | null => {
+        if (privacyMode !== 'off') {
+            if (!privacyCanvasRef.current) {
+                privacyCanvasRef.current = document.createElement('canvas');
+            }
+            applyPrivacy(ctx, canvas, coverRegions, {
+                mode: privacyMode,
+                color: privacyColor,
+                scratch: privacyCanvasRef.current,
+            });
+        }
+    }, [bodyOcclusionActive, mattingActive, backgroundSource, backgroundScaleMode, maskRefinement, matteSource, chromaKey, enableKeyOutput, keyOutputColor, renderMode, enableHairColor, hairColor, hairColorStrength, enableClothesTint, clothesColor, clothesTintStrength, keepHair, enableFaceSwap, masks, activeMaskId, faceAssignments, faceBlendStrength, faceFeather, enableStickers, stickers, privacyMode, privacyColor, mirrorCamera]);
+
+    const buildFaceDetections = (result: FaceLandmarkerResult, timestamp: number): FaceDetection[] => {
         if (!result.faceLandmarks || result.faceLandmarks.length === 0) {
-            return null;
+            return [];
         }
-        const landmarks = result.faceLandmarks[0].map((landmark) => ({
-            x: landmark.x,
-            y: landmark.y,
-            z: landmark.z,
-        }));
-
-        let matrix: number[] | undefined;
-        const rawMatrix = result.facialTransformationMatrixes?.[0];
-        const rawData = Array.isArray(rawMatrix)
-            ? rawMatrix
-            : rawMatrix && typeof rawMatrix === 'object' && 'data' in rawMatrix
-                ? (rawMatrix as { data: number[] }).data
-                : undefined;
-        if (rawData && rawData.length >= 16) {
-            matrix = Array.from(rawData.slice(0, 16));
-        }
-
-        const blendshapes = result.faceBlendshapes?.[0]?.categories?.map((category) => ({
-            name: category.categoryName,
-            score: category.score,
-        }));
-
-        return {
-            landmarks,
-            matrix,
-            blendshapes,
-            timestamp,
-        };
+        return result.faceLandmarks.map((faceLandmarks, faceIndex) => {
+            const landmarks = faceLandmarks.map((landmark) => ({
+                x: landmark.x,
+                y: landmark.y,
+                z: landmark.z,
+            }));
+
+            let matrix: number[] | undefined;
+            const rawMatrix = result.facialTransformationMatrixes?.[faceIndex];
+            const rawData = Array.isArray(rawMatrix)
+                ? rawMatrix
+                : rawMatrix && typeof rawMatrix === 'object' && 'data' in rawMatrix
+                    ? (rawMatrix as { data: number[] }).data
+                    : undefined;
+            if (rawData && rawData.length >= 16) {
+                matrix = Array.from(rawData.slice(0, 16));
+            }
+
+            const blendshapes = result.faceBlendshapes?.[faceIndex]?.categories?.map((category) => ({
+                name: category.categoryName,
+                score: category.score,
+            }));
+
+            return {
+                landmarks,
+                matrix,
+                blendshapes,
+                timestamp,
+            };
+        });
     };
 
+    // The governor's averages are only shown, so they are polled rather than pushed from the render loop.
+    useEffect(() => {
+        if (cleanMode) return;
+        const interval = window.setInterval(() => {
+            const stats = performanceGovernorRef.current.getStats();
+            setPerformanceStats((prev) => (
+                Math.round(prev.frameMs) === Math.round(stats.frameMs)
+                && Math.round(prev.inferenceMs) === Math.round(stats.inferenceMs)
+                    ? prev
+                    : stats
+            ));
+        }, 1000);
+        return () => window.clearInterval(interval);
+    }, [cleanMode]);
+
     useEffect(() => {
         let animationFrameId: number;
 
@@ -337,7 +1117,8 @@ export function CameraProcessor() {
             const canvas = canvasRef.current;
 
             if (video && canvas && video.readyState >= 2 && !isInitializing && !initError) {
-                const ctx = canvas.getContext('2d', { willReadFrequently: true });
+                // The output is never read back; a CPU-backed canvas would force a GPU readback of the WebGL composite.
+                const ctx = canvas.getContext('2d', { willReadFrequently: renderMode === 'cpu' });
                 if (ctx) {
                     if (video.videoWidth > 0 && video.videoHeight > 0
                         && (canvas.width !== video.videoWidth || canvas.height !== video.videoHeight)
@@ -351,31 +1132,154 @@ export function CameraProcessor() {
                         lastVideoTimeRef.current = video.currentTime;
                         const startTimeMs = performance.now();
                         const service = MediaPipeService.getInstance();
+                        const inferenceWorker = InferenceWorkerClient.getActive();
+                        const governor = performanceGovernorRef.current;
+                        const level = governor.update(startTimeMs, qualityPin);
+                        if (level !== qualityLevelRef.current) {
+                            qualityLevelRef.current = level;
+                            setQualityLevel(level);
+                        }
+                        const quality = QUALITY_LEVELS[level];
+                        const segmentFrame = needsSegmentation && (
+                            inferenceFrameRef.current % quality.segmentationInterval === 0
+                            || !segmentationCacheRef.current
+                        );
+                        if (!needsSegmentation) {
+                            segmentationCacheRef.current = null;
+                        }
+
+                        // The worker downscales on its own; here the models read a scaled copy of the frame.
+                        let inferenceInput: HTMLVideoElement | HTMLCanvasElement = video;
+                        if (!inferenceWorker && quality.inferenceScale < 1
+                            && (needsFaceTracking || needsSegmentation || enableGestures)
+                        ) {
+                            if (!inferenceCanvasRef.current) {
+                                inferenceCanvasRef.current = document.createElement('canvas');
+                            }
+                            const inferenceCanvas = inferenceCanvasRef.current;
+                            const width = Math.max(1, Math.round(video.videoWidth * quality.inferenceScale));
+                            const height = Math.max(1, Math.round(video.videoHeight * quality.inferenceScale));
+                            if (inferenceCanvas.width !== width || inferenceCanvas.height !== height) {
+                                inferenceCanvas.width = width;
+                                inferenceCanvas.height = height;
+                            }
+                            inferenceCanvas.getContext('2d')?.drawImage(video, 0, 0, width, height);
+                            inferenceInput = inferenceCanvas;
+                        }
 
+                        // In worker mode this frame is only sent off; tracking moves on when a result comes back.
+                        let hasResults = true;
+                        let resultTimeMs = startTimeMs;
                         let faceResult: FaceLandmarkerResult | null = null;
-                        if (enableFaceSwap || enable3DAvatar) {
-                            faceResult = service.detectFace(video, startTimeMs);
+                        let poseResult: PoseLandmarkerResult | null = null;
+                        let handResult: HandLandmarkerResult | null = null;
+                        if (inferenceWorker) {
+                            const submitted = inferenceWorker.submit(video, startTimeMs, {
+                                face: needsFaceTracking,
+                                pose: poseTrackingActive,
+                                hands: enableGestures,
+                                segment: segmentFrame,
+                            }, quality.inferenceScale);
+                            if (submitted) {
+                                inferenceFrameRef.current += 1;
+                            }
+                            const result = inferenceWorker.takeResult();
+                            hasResults = result !== null;
+                            if (result) {
+                                governor.recordInference(performance.now() - result.timestamp);
+                                resultTimeMs = result.timestamp;
+                                faceResult = result.face;
+                                poseResult = result.pose;
+                                handResult = result.hands;
+                                if (needsSegmentation && result.segmentation) {
+                                    segmentationCacheRef.current = result.segmentation;
+                                }
+                            }
+                        } else {
+                            inferenceFrameRef.current += 1;
+                            if (needsFaceTracking) {
+                                faceResult = service.detectFace(inferenceInput, startTimeMs);
+                            }
                         }
-                        const snapshot = faceResult ? buildFaceSnapshot(faceResult, startTimeMs) : null;
-                        if (snapshot) {
-                            faceSnapshotRef.current = snapshot;
-                            lastFaceResultTimeRef.current = startTimeMs;
-                        } else if (
-                            faceSnapshotRef.current
-                            && !enable3DAvatar
-                            && startTimeMs - lastFaceResultTimeRef.current > faceHoldMs
-                        ) {
-                            faceSnapshotRef.current = null;
+
+                        if (hasResults) {
+                            const detections = faceResult ? buildFaceDetections(faceResult, resultTimeMs) : [];
+                            if (poseTrackingActive && detections.length > 0) {
+                                poseResult ??= inferenceWorker ? null : service.detectPose(inferenceInput, startTimeMs);
+                                if (poseResult) {
+                                    attachPoses(detections, poseResult);
+                                }
+                            }
+                            const tracker = faceTrackerRef.current;
+                            const trackedFaces = needsFaceTracking ? tracker.update(detections, resultTimeMs) : [];
+                            trackedFacesRef.current = trackedFaces;
+                            // Filtered once here, so the 2D layers and the avatar see the same face.
+                            const snapshots = needsFaceTracking
+                                ? snapshotFilterRef.current.apply(trackedFaces, landmarkFilter)
+                                : [];
+                            if (snapshots.length > 0) {
+                                faceSnapshotRef.current = snapshots;
+                                lastFaceResultTimeRef.current = resultTimeMs;
+                            } else if (
+                                faceSnapshotRef.current.length > 0
+                                && !avatarActive
+                                && resultTimeMs - lastFaceResultTimeRef.current > faceHoldMs
+                            ) {
+                                faceSnapshotRef.current = [];
+                            }
+                            const trackedIds = needsFaceTracking ? tracker.getTrackIds() : [];
+                            const trackedKey = trackedIds.join(',');
+                            if (trackedKey !== trackedFaceKeyRef.current) {
+                                trackedFaceKeyRef.current = trackedKey;
+                                setTrackedFaceIds(trackedIds);
+                            }
+
+                            if (enableGestures) {
+                                handResult ??= inferenceWorker ? null : service.detectHands(inferenceInput, startTimeMs);
+                                const gesture = gestureDetectorRef.current.update(handResult?.landmarks ?? [], resultTimeMs, mirrorCamera);
+                                if (gesture) {
+                                    gestureHandlerRef.current(gesture);
+                                }
+                            }
+                        }
+                        const activeSnapshots = faceSnapshotRef.current;
+
+                        if (lightSamplingActive && startTimeMs - lastLightSampleRef.current > lightSampleMs) {
+                            lastLightSampleRef.current = startTimeMs;
+                            const sample = lightEstimatorRef.current.sample(
+                                video,
+                                activeSnapshots[0]?.landmarks ?? null,
+                                mirrorCamera
+                            );
+                            if (sample) {
+                                sceneLightRef.current = sample;
+                            }
                         }
-                        const activeSnapshot = faceSnapshotRef.current;
 
-                        if (enableBackgroundReplace) {
-                            service.segmentImage(video, startTimeMs, (result) => {
-                                drawComposition(ctx, video, canvas, result, activeSnapshot);
-                            });
+                        if (inferenceWorker || (needsSegmentation && !segmentFrame)) {
+                            // Drawn with the latest masks the worker sent, or the ones kept from the last segmented frame.
+                            drawComposition(ctx, video, canvas, segmentationCacheRef.current, activeSnapshots);
                         } else {
-                            drawComposition(ctx, video, canvas, null, activeSnapshot);
+                            const segmenting = segmentFrame && service.segmentImage(inferenceInput, startTimeMs, (result) => {
+                                try {
+                                    let masks = service.getSegmentationMasks(result);
+                                    // Skipped frames reuse these masks, so they must outlive the result.
+                                    if (masks && quality.segmentationInterval > 1) {
+                                        masks = copySegmentationMasks(masks);
+                                        segmentationCacheRef.current = masks;
+                                    } else {
+                                        segmentationCacheRef.current = null;
+                                    }
+                                    drawComposition(ctx, video, canvas, masks, activeSnapshots);
+                                } finally {
+                                    result.close();
+                                }
+                            });
+                            if (!segmenting) {
+                                drawComposition(ctx, video, canvas, null, activeSnapshots);
+                            }
                         }
+                        governor.recordFrame(performance.now() - startTimeMs);
                     }
                 }
             } else if (video && canvas && isInitializing) {
@@ -391,13 +1295,19 @@ export function CameraProcessor() {
 
         renderLoop();
         return () => cancelAnimationFrame(animationFrameId);
-    }, [videoRef, isInitializing, initError, enableFaceSwap, enableBackgroundReplace, enable3DAvatar, drawComposition]); // Added enable3DAvatar dependency
+    }, [videoRef, isInitializing, initError, needsFaceTracking, needsSegmentation, avatarActive, poseTrackingActive, lightSamplingActive, enableGestures, landmarkFilter, qualityPin, mirrorCamera, renderMode, drawComposition]);
 
     const handleBgUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const img = new Image();
-            img.src = URL.createObjectURL(e.target.files[0]);
-            img.onload = () => setBackgroundImage(img);
+        const input = e.target;
+        if (input.files && input.files[0]) {
+            loadBackgroundSource(input.files[0])
+                .then((source) => setBackgroundSource(source))
+                .catch((err) => {
+                    console.warn('Failed to load background:', err);
+                })
+                .finally(() => {
+                    input.value = '';
+                });
         }
     };
 
@@ -417,6 +1327,30 @@ export function CameraProcessor() {
         }
     };
 
+    const handleInferenceModeToggle = () => {
+        const nextMode = inferenceMode === 'worker' ? 'inline' : 'worker';
+        setInferenceMode(nextMode);
+        try {
+            window.localStorage.setItem('inferenceMode', nextMode);
+        } catch {
+            // Ignore storage access errors.
+        }
+        setNeedsRestart(true);
+    };
+
+    const handleQualityPinChange = (pin: QualityPin) => {
+        setQualityPin(pin);
+        try {
+            if (pin === 'auto') {
+                window.localStorage.removeItem('qualityPin');
+            } else {
+                window.localStorage.setItem('qualityPin', String(pin));
+            }
+        } catch {
+            // Ignore storage access errors.
+        }
+    };
+
     const handleFallbackToggle = async () => {
         const nextValue = !allowGpuFallback;
         setAllowGpuFallback(nextValue);
@@ -476,20 +1410,249 @@ export function CameraProcessor() {
     };
 
     const handleFaceUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (e.target.files && e.target.files[0]) {
-            const img = new Image();
-            img.src = URL.createObjectURL(e.target.files[0]);
-            img.onload = () => setFaceOverlayImage(img);
+        const input = e.target;
+        if (input.files && input.files[0]) {
+            importMask(input.files[0])
+                .then((mask) => {
+                    if (mask) {
+                        setActiveMaskId(mask.id);
+                    }
+                })
+                .catch((err) => {
+                    console.warn('Failed to import mask:', err);
+                })
+                .finally(() => {
+                    input.value = '';
+                });
+        }
+    };
+
+    const handleMaskDelete = (id: string) => {
+        deleteMask(id).catch((err) => {
+            console.warn('Failed to delete mask:', err);
+        });
+    };
+
+    const handleMaskCalibrationSave = (anchors: MaskAnchors | null, fitMode: MaskFitMode) => {
+        const id = calibratingMaskId;
+        setCalibratingMaskId(null);
+        if (!id) return;
+        updateMaskCalibration(id, anchors, fitMode).catch((err) => {
+            console.warn('Failed to save mask anchors:', err);
+        });
+    };
+
+    const handleMaskAnimationModeChange = (id: string, mode: AnimationMode) => {
+        updateMaskAnimationMode(id, mode).catch((err) => {
+            console.warn('Failed to update mask animation:', err);
+        });
+    };
+
+    const handleMaskRename = (id: string, name: string) => {
+        renameMask(id, name).catch((err) => {
+            console.warn('Failed to rename mask:', err);
+        });
+    };
+
+    const handleAvatarUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const input = e.target;
+        if (!input.files || !input.files[0]) return;
+        setAvatarError(null);
+        importAvatar(input.files[0])
+            .then((avatar) => {
+                setActiveAvatarId(avatar.id);
+                setEnable3DAvatar(true);
+            })
+            .catch((err) => {
+                console.warn('Failed to import avatar:', err);
+                setAvatarError(err instanceof Error ? err.message : String(err));
+            })
+            .finally(() => {
+                input.value = '';
+            });
+    };
+
+    const handleAvatarRename = (id: string, name: string) => {
+        renameAvatar(id, name).catch((err) => {
+            console.warn('Failed to rename avatar:', err);
+        });
+    };
+
+    const handleAvatarDelete = (id: string) => {
+        // Switch away first so the overlay never renders a revoked model URL.
+        if (id === activeAvatarId) {
+            setActiveAvatarId(BUILT_IN_AVATAR_ID);
+        }
+        deleteAvatar(id).catch((err) => {
+            console.warn('Failed to delete avatar:', err);
+        });
+    };
+
+    const closeRetargetEditor = () => {
+        setIsRetargeting(false);
+        setRetargetDraft(null);
+    };
+
+    const openRetargetEditor = () => {
+        setPlacementDraft(null);
+        setIsRetargeting(true);
+    };
+
+    const startPlacementCalibration = () => {
+        closeRetargetEditor();
+        setEnable3DAvatar(true);
+        setPlacementDraft(activePlacement);
+    };
+
+    const handlePlacementSave = (placement: AvatarPlacement | null) => {
+        const id = activeAvatarId;
+        setPlacementDraft(null);
+        updateAvatarPlacement(id, placement).catch((err) => {
+            console.warn('Failed to save avatar placement:', err);
+        });
+    };
+
+    const handleRetargetSave = (profile: RetargetProfile | null) => {
+        const id = activeAvatarId;
+        closeRetargetEditor();
+        updateAvatarProfile(id, profile).catch((err) => {
+            console.warn('Failed to save avatar retargeting:', err);
+        });
+    };
+
+    const handleStickerUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const input = e.target;
+        const files = input.files ? Array.from(input.files) : [];
+        if (files.length === 0) return;
+        setStickerError(null);
+        loadStickers(files)
+            .then((loaded) => {
+                if (loaded.length === 0) {
+                    setStickerError('Select a sticker .json file together with its images.');
+                    return;
+                }
+                setStickers((current) => [...current, ...loaded]);
+                setEnableStickers(true);
+            })
+            .catch((err) => {
+                console.warn('Failed to load stickers:', err);
+                setStickerError(err instanceof Error ? err.message : String(err));
+            })
+            .finally(() => {
+                input.value = '';
+            });
+    };
+
+    const handleStickerToggle = (id: string) => {
+        setStickers((current) => current.map((sticker) => (
+            sticker.id === id ? { ...sticker, visible: !sticker.visible } : sticker
+        )));
+    };
+
+    const handleStickerRemove = (id: string) => {
+        const removed = stickers.find((sticker) => sticker.id === id);
+        if (removed?.image.src.startsWith('blob:')) {
+            URL.revokeObjectURL(removed.image.src);
+        }
+        setStickers((current) => current.filter((sticker) => sticker.id !== id));
+    };
+
+    const handleSegmentationModelChange = (model: SegmentationModel) => {
+        setSegmentationModel(model);
+        getInferenceControls()
+            .setSegmentationModel(model)
+            .catch((err) => {
+                console.warn('Failed to switch segmentation model:', err);
+            });
+    };
+
+    const handleSnapshot = () => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        saveSnapshot(canvas, avatarActive ? avatarCaptureRef.current : null).catch((err) => {
+            console.warn('Failed to save snapshot:', err);
+        });
+    };
+
+    const runGestureAction = (action: GestureAction) => {
+        switch (action) {
+            case 'nextMask': {
+                if (masks.length === 0) return;
+                const index = masks.findIndex((mask) => mask.id === activeMaskId);
+                setActiveMaskId(masks[(index + 1) % masks.length].id);
+                setEnableFaceSwap(true);
+                return;
+            }
+            case 'toggleBackground':
+                setEnableBackgroundReplace((enabled) => !enabled);
+                return;
+            case 'toggleAvatar':
+                setEnable3DAvatar((enabled) => !enabled);
+                return;
+            case 'snapshot':
+                handleSnapshot();
+                return;
+            case 'none':
+                return;
         }
     };
 
+    useEffect(() => {
+        gestureHandlerRef.current = (gesture) => {
+            const action = gestureBindings[gesture];
+            setLastGesture({ gesture, action });
+            runGestureAction(action);
+        };
+    });
+
+    const handleMaxFacesChange = (count: number) => {
+        setMaxFaces(count);
+        getInferenceControls()
+            .setMaxFaces(count)
+            .catch((err) => {
+                console.warn('Failed to update max faces:', err);
+            });
+    };
+
+    const handleFaceAssignmentChange = (faceId: number, value: string) => {
+        setFaceAssignments((current) => {
+            const next = { ...current };
+            if (value.startsWith('mask:')) {
+                next[faceId] = { effect: 'mask', maskId: value.slice('mask:'.length) };
+            } else if (value === 'default') {
+                delete next[faceId];
+            } else {
+                next[faceId] = { effect: value as FaceEffect };
+            }
+            return next;
+        });
+    };
+
+    const updateMaskRefinement = (patch: Partial<MaskRefinementOptions>) => {
+        setMaskRefinement((current) => ({ ...current, ...patch }));
+    };
+
+    const updateLandmarkFilter = (patch: Partial<LandmarkFilterOptions>) => {
+        setLandmarkFilter((current) => ({ ...current, ...patch }));
+    };
+
+    const updateAvatarOcclusion = (patch: Partial<AvatarOcclusionOptions>) => {
+        setAvatarOcclusion((current) => ({ ...current, ...patch }));
+    };
+
+    const updateChromaKey = (patch: Partial<ChromaKeyOptions>) => {
+        setChromaKey((current) => ({ ...current, ...patch }));
+    };
+
     const handleClearBg = () => {
-        setBackgroundImage(null);
+        setBackgroundSource(null);
     };
 
     if (error) return <div className="text-red-500">{error}</div>;
 
     const canRelaunch = Boolean(window.ipcRenderer?.send);
+    const activeMask = masks.find((mask) => mask.id === activeMaskId) ?? null;
+    const calibratingMask = masks.find((mask) => mask.id === calibratingMaskId) ?? null;
 
     // Layout and UI
     return (
@@ -502,14 +1665,27 @@ export function CameraProcessor() {
 
                     {/* 3D Avatar Overlay */}
                     {has3DInitialized && (
-                        <div className={`absolute inset-0 pointer-events-none ${enable3DAvatar ? 'opacity-100' : 'opacity-0'}`}>
+                        <div className={`absolute inset-0 pointer-events-none ${avatarActive ? 'opacity-100' : 'opacity-0'}`}>
                             <AvatarOverlay
+                                modelUrl={activeAvatar.url}
+                                modelFormat={activeAvatar.format}
+                                retargetProfile={activeRetargetProfile}
+                                placement={activePlacement}
+                                calibrating={placementDraft !== null}
+                                onPlacementChange={setPlacementDraft}
+                                onModelError={(err) => setAvatarError(`Failed to load avatar "${activeAvatar.name}": ${err.message}`)}
                                 snapshotRef={faceSnapshotRef}
+                                faceIds={avatarFaceIds}
                                 frameSizeRef={frameSizeRef}
-                                headScale={headScale}
                                 mirror={mirrorCamera}
-                                enabled={enable3DAvatar}
-                                renderQuality={renderQuality}
+                                enabled={avatarActive}
+                                renderQuality={Math.min(renderQuality, QUALITY_LEVELS[qualityLevel].avatarDpr)}
+                                snapshotsFiltered={landmarkFilter.type !== 'none'}
+                                occlusion={avatarOcclusion}
+                                personMaskRef={personMaskRef}
+                                lighting={sceneLighting}
+                                lightRef={sceneLightRef}
+                                captureRef={avatarCaptureRef}
                             />
                         </div>
                     )}
@@ -529,6 +1705,12 @@ export function CameraProcessor() {
                         </div>
                     )}
 
+                    {lastGesture && !cleanMode && (
+                        <div className="absolute left-3 top-3 z-10 rounded-full border border-white/20 bg-black/60 px-3 py-1 text-xs text-white/80">
+                            {GESTURE_LABELS[lastGesture.gesture]} → {GESTURE_ACTION_LABELS[lastGesture.action]}
+                        </div>
+                    )}
+
                     {cleanMode && (
                         <button
                             onClick={() => setCleanMode(false)}
@@ -587,6 +1769,54 @@ export function CameraProcessor() {
                         <div className={`w-2 h-2 rounded-full ${renderMode === 'gpu' ? 'bg-emerald-400' : 'bg-gray-600'}`} />
                     </button>
 
+                    <button
+                        onClick={handleInferenceModeToggle}
+                        disabled={!inferenceWorkerSupported}
+                        className={`w-full flex items-center justify-between px-4 py-3 rounded-xl transition-all border ${inferenceMode === 'worker'
+                            ? 'bg-emerald-600/20 border-emerald-500/50 text-emerald-200'
+                            : inferenceWorkerSupported
+                                ? 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
+                                : 'bg-gray-900 border-gray-800 text-gray-600 cursor-not-allowed'
+                            }`}
+                        title={inferenceWorkerSupported
+                            ? 'Run face, body and segmentation models in a background worker so slow inference does not stall the preview. '
+                                + 'Segmentation masks are copied back from the worker, so GPU Mode cannot use them as textures in place; '
+                                + 'turn this off for the fastest GPU compositing or to debug on the main thread.'
+                            : 'The inference worker needs a production build; the dev server runs inference on the main thread.'}
+                    >
+                        <div className="flex items-center gap-3">
+                            <Cpu size={20} />
+                            <span>Inference Worker</span>
+                        </div>
+                        <div className={`w-2 h-2 rounded-full ${inferenceMode === 'worker' ? 'bg-emerald-400' : 'bg-gray-600'}`} />
+                    </button>
+
+                    <div className="space-y-2 text-xs text-gray-400">
+                        <div className="flex items-center justify-between">
+                            <span>Quality Level</span>
+                            <span className="text-gray-500">
+                                {QUALITY_LEVELS[qualityLevel].label}{qualityPin === 'auto' ? ' (auto)' : ''}
+                            </span>
+                        </div>
+                        <select
+                            value={String(qualityPin)}
+                            onChange={(e) => handleQualityPinChange(e.target.value === 'auto' ? 'auto' : Number(e.target.value))}
+                            className="w-full rounded-lg border border-gray-700 bg-gray-900 px-2 py-2 text-xs text-gray-200"
+                            title="Automatic lowers inference resolution, segmentation rate, avatar resolution and blur when frames run slow, and raises them again when there is headroom."
+                        >
+                            <option value="auto">Automatic</option>
+                            {QUALITY_LEVELS.map((level, index) => (
+                                <option key={level.label} value={index}>{level.label}</option>
+                            ))}
+                        </select>
+                        <div className="flex items-center justify-between text-[11px] text-gray-500">
+                            <span>Frame {performanceStats.frameMs.toFixed(0)} ms</span>
+                            <span>
+                                Inference {inferenceMode === 'worker' ? `${performanceStats.inferenceMs.toFixed(0)} ms` : 'in frame'}
+                            </span>
+                        </div>
+                    </div>
+
                     <button
                         onClick={handleFallbackToggle}
                         className={`w-full flex items-center justify-between px-4 py-3 rounded-xl transition-all border ${allowGpuFallback
@@ -663,7 +1893,7 @@ export function CameraProcessor() {
 
                     {needsRestart && (
                         <div className="rounded-lg border border-gray-700 bg-gray-900/50 px-3 py-2 text-[11px] text-gray-400">
-                            <div>Restart required to apply render mode.</div>
+                            <div>Restart required to apply performance settings.</div>
                             {canRelaunch && (
                                 <button
                                     onClick={handleRestart}
@@ -697,8 +1927,234 @@ export function CameraProcessor() {
                     <label className="flex items-center gap-3 px-4 py-3 bg-gray-800 text-gray-300 rounded-xl hover:bg-gray-750 cursor-pointer transition-colors border border-gray-700">
                         <Settings size={20} />
                         <span className="flex-1">Upload Mask</span>
-                        <input type="file" accept="image/*" className="hidden" onChange={handleFaceUpload} />
+                        <input type="file" accept="image/*,video/webm,video/mp4" className="hidden" onChange={handleFaceUpload} />
                     </label>
+
+                    {activeMask?.animation && (
+                        <div className="space-y-2 text-xs text-gray-400">
+                            <div className="flex items-center justify-between">
+                                <span>Animation</span>
+                                {activeMask.animation.mode === 'trigger' && (
+                                    <button
+                                        onClick={() => activeMask.animation?.trigger(performance.now())}
+                                        className="rounded-md border border-blue-500/40 bg-blue-600/20 px-2 py-0.5 text-[11px] text-blue-200 hover:bg-blue-600/30"
+                                    >
+                                        Play
+                                    </button>
+                                )}
+                            </div>
+                            <select
+                                value={activeMask.animation.mode}
+                                onChange={(e) => handleMaskAnimationModeChange(activeMask.id, e.target.value as AnimationMode)}
+                                className="w-full rounded-lg border border-gray-700 bg-gray-900 px-2 py-2 text-xs text-gray-200"
+                            >
+                                <option value="loop">Loop</option>
+                                <option value="pingpong">Ping-pong</option>
+                                <option value="trigger">Play on trigger (open mouth)</option>
+                            </select>
+                        </div>
+                    )}
+
+                    <MaskLibrary
+                        masks={masks}
+                        activeMaskId={activeMaskId}
+                        onSelect={setActiveMaskId}
+                        onRename={handleMaskRename}
+                        onDelete={handleMaskDelete}
+                        onCalibrate={setCalibratingMaskId}
+                    />
+
+                    <div className="space-y-2 text-xs text-gray-400">
+                        <div className="flex items-center justify-between">
+                            <span>Max Faces</span>
+                            <span className="text-gray-500">{maxFaces}</span>
+                        </div>
+                        <select
+                            value={maxFaces}
+                            onChange={(e) => handleMaxFacesChange(Number(e.target.value))}
+                            className="w-full rounded-lg border border-gray-700 bg-gray-900 px-2 py-2 text-xs text-gray-200"
+                        >
+                            <option value={1}>1 face</option>
+                            <option value={2}>2 faces</option>
+                            <option value={3}>3 faces</option>
+                            <option value={4}>4 faces</option>
+                        </select>
+                    </div>
+
+                    <div className="space-y-2 text-xs text-gray-400">
+                        <div>Landmark Filter</div>
+                        <div className="flex gap-2">
+                            <select
+                                value={landmarkFilter.type}
+                                onChange={(e) => updateLandmarkFilter({ type: e.target.value as LandmarkFilterType })}
+                                className="flex-1 rounded-lg border border-gray-700 bg-gray-900 px-2 py-2 text-xs text-gray-200"
+                                title="Smooths face landmarks, head rotation and expressions for every effect"
+                            >
+                                {(Object.keys(LANDMARK_FILTER_LABELS) as LandmarkFilterType[]).map((type) => (
+                                    <option key={type} value={type}>{LANDMARK_FILTER_LABELS[type]}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={landmarkFilter.preset}
+                                onChange={(e) => updateLandmarkFilter({ preset: e.target.value as LandmarkFilterPreset })}
+                                disabled={landmarkFilter.type === 'none'}
+                                className="flex-1 rounded-lg border border-gray-700 bg-gray-900 px-2 py-2 text-xs text-gray-200 disabled:opacity-50"
+                                title="Responsive follows fast motion with a little jitter; Stable holds still faces steadiest but lags more"
+                            >
+                                {(Object.keys(LANDMARK_FILTER_PRESET_LABELS) as LandmarkFilterPreset[]).map((preset) => (
+                                    <option key={preset} value={preset}>{LANDMARK_FILTER_PRESET_LABELS[preset]}</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    {trackedFaceIds.length > 0 && (
+                        <div className="space-y-2 text-xs text-gray-400">
+                            <div>Tracked Faces</div>
+                            {trackedFaceIds.map((faceId) => {
+                                const assignment = faceAssignments[faceId];
+                                const value = assignment?.effect === 'mask'
+                                    ? `mask:${assignment.maskId}`
+                                    : assignment?.effect ?? 'default';
+                                return (
+                                    <div key={faceId} className="flex items-center gap-2">
+                                        <span className="w-14 text-gray-500">Face {faceId}</span>
+                                        <select
+                                            value={value}
+                                            onChange={(e) => handleFaceAssignmentChange(faceId, e.target.value)}
+                                            className="flex-1 rounded-lg border border-gray-700 bg-gray-900 px-2 py-1 text-xs text-gray-200"
+                                        >
+                                            <option value="default">Default</option>
+                                            <option value="none">None</option>
+                                            <option value="avatar">3D Avatar</option>
+                                            {masks.map((mask) => (
+                                                <option key={mask.id} value={`mask:${mask.id}`}>Mask: {mask.name}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    )}
+
+                    <div className="space-y-2 text-xs text-gray-400">
+                        <div className="flex items-center justify-between">
+                            <span>Blend Strength</span>
+                            <span className="text-gray-500">{Math.round(faceBlendStrength * 100)}%</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0"
+                            max="1"
+                            step="0.05"
+                            value={faceBlendStrength}
+                            onChange={(e) => setFaceBlendStrength(Number(e.target.value))}
+                            className="w-full accent-blue-400"
+                        />
+                    </div>
+
+                    <div className="space-y-2 text-xs text-gray-400">
+                        <div className="flex items-center justify-between">
+                            <span>Edge Feather</span>
+                            <span className="text-gray-500">{faceFeather}px</span>
+                        </div>
+                        <input
+                            type="range"
+                            min="0"
+                            max="40"
+                            step="1"
+                            value={faceFeather}
+                            onChange={(e) => setFaceFeather(Number(e.target.value))}
+                            className="w-full accent-blue-400"
+                        />
+                    </div>
+                </div>
+
+                {/* Section: Privacy */}
+                <div className="space-y-3">
+                    <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Privacy</div>
+
+                    <div className="space-y-2 text-xs text-gray-400">
+                        <div className="flex items-center justify-between">
+                            <span>Anonymize Faces</span>
+                            <span className="text-gray-500">{privacyMode === 'off' ? 'Off' : privacyMode}</span>
+                        </div>
+                        <select
+                            value={privacyMode}
+                            onChange={(e) => setPrivacyMode(e.target.value as PrivacyMode)}
+                            className="w-full rounded-lg border border-gray-700 bg-gray-900 px-2 py-2 text-xs text-gray-200"
+                        >
+                            <option value="off">Off</option>
+                            <option value="blur">Blur</option>
+                            <option value="pixelate">Pixelate</option>
+                            <option value="solid">Solid fill</option>
+                        </select>
+                    </div>
+
+                    {privacyMode === 'solid' && (
+                        <div className="flex items-center justify-between text-xs text-gray-400">
+                            <span>Fill Colour</span>
+                            <input
+                                type="color"
+                                value={privacyColor}
+                                onChange={(e) => setPrivacyColor(e.target.value)}
+                                className="h-6 w-10 rounded border border-gray-700 bg-gray-900"
+                            />
+                        </div>
+                    )}
+
+                    {privacyMode !== 'off' && (
+                        <p className="text-[10px] text-gray-500">
+                            Covers every tracked face. If a face is lost for {faceHoldMs} ms, or none is found, the whole frame is blurred until tracking is steady again.
+                        </p>
+                    )}
+                </div>
+
+                {/* Section: Stickers */}
+                <div className="space-y-3">
+                    <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Stickers</div>
+
+                    <button
+                        onClick={() => setEnableStickers(!enableStickers)}
+                        className={`w-full flex items-center justify-between px-4 py-3 rounded-xl transition-all border ${enableStickers
+                            ? 'bg-pink-600/20 border-pink-500/50 text-pink-200'
+                            : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
+                            }`}
+                    >
+                        <div className="flex items-center gap-3">
+                            <StickerIcon size={20} />
+                            <span>AR Stickers</span>
+                        </div>
+                        <div className={`w-2 h-2 rounded-full ${enableStickers ? 'bg-pink-400' : 'bg-gray-600'}`} />
+                    </button>
+
+                    <label className="flex items-center gap-3 px-4 py-3 bg-gray-800 text-gray-300 rounded-xl hover:bg-gray-750 cursor-pointer transition-colors border border-gray-700">
+                        <Settings size={20} />
+                        <span className="flex-1">Load Stickers (JSON + images)</span>
+                        <input type="file" accept=".json,application/json,image/*" multiple className="hidden" onChange={handleStickerUpload} />
+                    </label>
+
+                    {stickerError && (
+                        <div className="text-[11px] text-red-300">{stickerError}</div>
+                    )}
+
+                    {stickers.length > 0 && (
+                        <div className="space-y-1 text-xs text-gray-400">
+                            {stickers.map((sticker) => (
+                                <div key={sticker.id} className="flex items-center gap-2 rounded-lg border border-gray-700 bg-gray-900 px-2 py-1">
+                                    <img src={sticker.image.src} alt="" className="h-6 w-6 object-contain" />
+                                    <span className="flex-1 truncate">{sticker.definition.name}</span>
+                                    <span className="text-gray-600">z{sticker.definition.zOrder}</span>
+                                    <button onClick={() => handleStickerToggle(sticker.id)} className="text-gray-400 hover:text-gray-200" title="Toggle">
+                                        {sticker.visible ? <Eye size={12} /> : <EyeOff size={12} />}
+                                    </button>
+                                    <button onClick={() => handleStickerRemove(sticker.id)} className="text-red-300 hover:text-red-200" title="Remove">
+                                        <X size={12} />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
                 </div>
 
                 {/* Section: 3D Avatar */}
@@ -714,27 +2170,111 @@ export function CameraProcessor() {
                     >
                         <div className="flex items-center gap-3">
                             <Box size={20} />
-                            <span>3D Raccoon</span>
+                            <span>3D Avatar</span>
                         </div>
                         <div className={`w-2 h-2 rounded-full ${enable3DAvatar ? 'bg-orange-400' : 'bg-gray-600'}`} />
                     </button>
 
-                    <div className="space-y-2 text-xs text-gray-400">
-                        <div className="flex items-center justify-between">
-                            <span>Head Scale</span>
-                            <span className="text-gray-500">{headScale.toFixed(2)}</span>
-                        </div>
-                        <input
-                            type="range"
-                            min="0.8"
-                            max="1.6"
-                            step="0.01"
-                            value={headScale}
-                            onChange={(e) => setHeadScale(Number(e.target.value))}
-                            className="w-full accent-orange-400"
-                        />
+                    <label className="flex items-center gap-3 px-4 py-3 bg-gray-800 text-gray-300 rounded-xl hover:bg-gray-750 cursor-pointer transition-colors border border-gray-700">
+                        <Settings size={20} />
+                        <span className="flex-1">Import Avatar (.glb / .gltf / .vrm)</span>
+                        <input type="file" accept=".glb,.gltf,.vrm,model/gltf-binary,model/gltf+json" className="hidden" onChange={handleAvatarUpload} />
+                    </label>
+
+                    {avatarError && (
+                        <div className="text-[11px] text-red-300">{avatarError}</div>
+                    )}
+
+                    <AvatarLibrary
+                        avatars={avatars}
+                        activeAvatarId={activeAvatar.id}
+                        onSelect={(id) => {
+                            setAvatarError(null);
+                            closeRetargetEditor();
+                            setPlacementDraft(null);
+                            setActiveAvatarId(id);
+                        }}
+                        onRename={handleAvatarRename}
+                        onDelete={handleAvatarDelete}
+                    />
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={openRetargetEditor}
+                            className="rounded-lg border border-orange-500/40 bg-orange-600/20 px-3 py-2 text-xs text-orange-200 hover:bg-orange-600/30"
+                        >
+                            Blendshape Mapping{activeAvatar.profile ? ' (custom)' : ''}
+                        </button>
+                        <button
+                            onClick={startPlacementCalibration}
+                            className="rounded-lg border border-orange-500/40 bg-orange-600/20 px-3 py-2 text-xs text-orange-200 hover:bg-orange-600/30"
+                        >
+                            Calibrate Placement{activeAvatar.placement ? ' (custom)' : ''}
+                        </button>
                     </div>
 
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => updateAvatarOcclusion({ head: !avatarOcclusion.head })}
+                            className={`flex items-center justify-between px-3 py-2 rounded-lg text-xs transition-all border ${avatarOcclusion.head
+                                ? 'bg-orange-600/20 border-orange-500/50 text-orange-200'
+                                : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
+                                }`}
+                            title="Hide avatar parts that sit behind your face"
+                        >
+                            <span>Head Occlusion</span>
+                            <div className={`w-2 h-2 rounded-full ${avatarOcclusion.head ? 'bg-orange-400' : 'bg-gray-600'}`} />
+                        </button>
+                        <button
+                            onClick={() => updateAvatarOcclusion({ body: !avatarOcclusion.body })}
+                            className={`flex items-center justify-between px-3 py-2 rounded-lg text-xs transition-all border ${avatarOcclusion.body
+                                ? 'bg-orange-600/20 border-orange-500/50 text-orange-200'
+                                : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
+                                }`}
+                            title="Hide avatar parts behind your hair and body (runs person segmentation)"
+                        >
+                            <span>Body Occlusion</span>
+                            <div className={`w-2 h-2 rounded-full ${avatarOcclusion.body ? 'bg-orange-400' : 'bg-gray-600'}`} />
+                        </button>
+                    </div>
+
+                    <button
+                        onClick={() => setEnablePoseTracking(!enablePoseTracking)}
+                        className={`w-full flex items-center justify-between px-4 py-2 rounded-xl text-xs transition-all border ${enablePoseTracking
+                            ? 'bg-orange-600/20 border-orange-500/50 text-orange-200'
+                            : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
+                            }`}
+                        title="Drive the neck, shoulders and torso of half-body VRM avatars (runs an extra pose model)"
+                    >
+                        <span>Upper-Body Tracking</span>
+                        <div className={`w-2 h-2 rounded-full ${enablePoseTracking ? 'bg-orange-400' : 'bg-gray-600'}`} />
+                    </button>
+
+                    <button
+                        onClick={() => setIsLightingPanelOpen(true)}
+                        className="w-full rounded-lg border border-orange-500/40 bg-orange-600/20 px-3 py-2 text-xs text-orange-200 hover:bg-orange-600/30"
+                    >
+                        Scene Lighting{sceneLighting.auto ? ' (auto)' : ' (manual)'}
+                    </button>
+
+                    {avatarOcclusion.head && (
+                        <div className="space-y-2 text-xs text-gray-400">
+                            <div className="flex items-center justify-between">
+                                <span>Occluder Depth</span>
+                                <span className="text-gray-500">{avatarOcclusion.depthOffset.toFixed(2)}</span>
+                            </div>
+                            <input
+                                type="range"
+                                min="-0.5"
+                                max="0.5"
+                                step="0.01"
+                                value={avatarOcclusion.depthOffset}
+                                onChange={(e) => updateAvatarOcclusion({ depthOffset: Number(e.target.value) })}
+                                className="w-full accent-orange-400"
+                            />
+                        </div>
+                    )}
+
                     <div className="space-y-2 text-xs text-gray-400">
                         <div className="flex items-center justify-between">
                             <span>Render Quality</span>
@@ -752,6 +2292,38 @@ export function CameraProcessor() {
                     </div>
                 </div>
 
+                {/* Section: Hand Gestures */}
+                <div className="space-y-3">
+                    <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Hand Gestures</div>
+
+                    <button
+                        onClick={() => setEnableGestures(!enableGestures)}
+                        className={`w-full flex items-center justify-between px-4 py-3 rounded-xl transition-all border ${enableGestures
+                            ? 'bg-teal-600/20 border-teal-500/50 text-teal-200'
+                            : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
+                            }`}
+                        title="Runs a hand tracking model; hold a gesture briefly or swipe an open hand"
+                    >
+                        <div className="flex items-center gap-3">
+                            <Hand size={20} />
+                            <span>Gesture Control</span>
+                        </div>
+                        <div className={`w-2 h-2 rounded-full ${enableGestures ? 'bg-teal-400' : 'bg-gray-600'}`} />
+                    </button>
+
+                    {enableGestures && (
+                        <GestureBindings bindings={gestureBindings} onChange={setGestureBindings} />
+                    )}
+
+                    <button
+                        onClick={handleSnapshot}
+                        className="w-full flex items-center justify-center gap-2 rounded-lg border border-gray-700 bg-gray-900 px-3 py-2 text-xs text-gray-300 hover:text-gray-100"
+                    >
+                        <Camera size={14} />
+                        <span>Take Snapshot</span>
+                    </button>
+                </div>
+
                 {/* Section: Background */}
                 <div className="space-y-3">
                     <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Background</div>
@@ -770,16 +2342,198 @@ export function CameraProcessor() {
                         <div className={`w-2 h-2 rounded-full ${enableBackgroundReplace ? 'bg-purple-400' : 'bg-gray-600'}`} />
                     </button>
 
+                    <div className="space-y-2 text-xs text-gray-400">
+                        <div>Matte Source</div>
+                        <select
+                            value={matteSource}
+                            onChange={(e) => setMatteSource(e.target.value as MatteSource)}
+                            className="w-full rounded-lg border border-gray-700 bg-gray-900 px-2 py-2 text-xs text-gray-200"
+                        >
+                            <option value="segmenter">AI segmentation</option>
+                            <option value="chromaKey">Green screen (chroma key)</option>
+                        </select>
+                    </div>
+
+                    {matteSource === 'segmenter' ? (
+                        <>
+                            <div className="space-y-2 text-xs text-gray-400">
+                                <div className="flex items-center justify-between">
+                                    <span>Temporal Smoothing</span>
+                                    <span className="text-gray-500">{Math.round(maskRefinement.temporalSmoothing * 100) + '%'}</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="0.95"
+                                    step="0.05"
+                                    value={maskRefinement.temporalSmoothing}
+                                    onChange={(e) => updateMaskRefinement({ temporalSmoothing: Number(e.target.value) })}
+                                    className="w-full accent-purple-400"
+                                />
+                            </div>
+
+                            <div className="space-y-2 text-xs text-gray-400">
+                                <div className="flex items-center justify-between">
+                                    <span>Threshold</span>
+                                    <span className="text-gray-500">{maskRefinement.threshold.toFixed(2)}</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min="0.05"
+                                    max="0.95"
+                                    step="0.05"
+                                    value={maskRefinement.threshold}
+                                    onChange={(e) => updateMaskRefinement({ threshold: Number(e.target.value) })}
+                                    className="w-full accent-purple-400"
+                                />
+                            </div>
+
+                            <div className="space-y-2 text-xs text-gray-400">
+                                <div className="flex items-center justify-between">
+                                    <span>Softness</span>
+                                    <span className="text-gray-500">{maskRefinement.softness.toFixed(2)}</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="1"
+                                    step="0.05"
+                                    value={maskRefinement.softness}
+                                    onChange={(e) => updateMaskRefinement({ softness: Number(e.target.value) })}
+                                    className="w-full accent-purple-400"
+                                />
+                            </div>
+
+                            <div className="space-y-2 text-xs text-gray-400">
+                                <div className="flex items-center justify-between">
+                                    <span>Edge Feather</span>
+                                    <span className="text-gray-500">{`${maskRefinement.feather}px`}</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min="0"
+                                    max="12"
+                                    step="1"
+                                    value={maskRefinement.feather}
+                                    onChange={(e) => updateMaskRefinement({ feather: Number(e.target.value) })}
+                                    className="w-full accent-purple-400"
+                                />
+                            </div>
+
+                            <button
+                                onClick={() => updateMaskRefinement({ edgeAware: !maskRefinement.edgeAware })}
+                                className={`w-full flex items-center justify-between px-4 py-2 rounded-xl text-xs transition-all border ${maskRefinement.edgeAware
+                                    ? 'bg-purple-600/20 border-purple-500/50 text-purple-200'
+                                    : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
+                                    }`}
+                                title="Snap the matte to edges in the camera frame (joint bilateral filter)"
+                            >
+                                <span>Edge-Aware Refine</span>
+                                <div className={`w-2 h-2 rounded-full ${maskRefinement.edgeAware ? 'bg-purple-400' : 'bg-gray-600'}`} />
+                            </button>
+
+                            <button
+                                onClick={() => setMaskRefinement(DEFAULT_MASK_REFINEMENT)}
+                                className="w-full rounded-lg border border-gray-700 bg-gray-900 px-3 py-2 text-xs text-gray-400 hover:text-gray-200"
+                            >
+                                Reset Edge Settings
+                            </button>
+                        </>
+                    ) : (
+                        <>
+                            <div className="flex items-center justify-between text-xs text-gray-400">
+                                <span>Screen Colour</span>
+                                <input
+                                    type="color"
+                                    value={chromaKey.keyColor}
+                                    onChange={(e) => updateChromaKey({ keyColor: e.target.value })}
+                                    className="h-6 w-10 rounded border border-gray-700 bg-gray-900"
+                                />
+                            </div>
+
+                            <div className="space-y-2 text-xs text-gray-400">
+                                <div className="flex items-center justify-between">
+                                    <span>Similarity</span>
+                                    <span className="text-gray-500">{chromaKey.similarity.toFixed(2)}</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min="0.05"
+                                    max="0.8"
+                                    step="0.01"
+                                    value={chromaKey.similarity}
+                                    onChange={(e) => updateChromaKey({ similarity: Number(e.target.value) })}
+                                    className="w-full accent-purple-400"
+                                />
+                            </div>
+
+                            <div className="space-y-2 text-xs text-gray-400">
+                                <div className="flex items-center justify-between">
+                                    <span>Smoothness</span>
+                                    <span className="text-gray-500">{chromaKey.smoothness.toFixed(2)}</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min="0.01"
+                                    max="0.3"
+                                    step="0.01"
+                                    value={chromaKey.smoothness}
+                                    onChange={(e) => updateChromaKey({ smoothness: Number(e.target.value) })}
+                                    className="w-full accent-purple-400"
+                                />
+                            </div>
+
+                            <div className="space-y-2 text-xs text-gray-400">
+                                <div className="flex items-center justify-between">
+                                    <span>Spill Reduction</span>
+                                    <span className="text-gray-500">{chromaKey.spill.toFixed(2)}</span>
+                                </div>
+                                <input
+                                    type="range"
+                                    min="0.01"
+                                    max="0.5"
+                                    step="0.01"
+                                    value={chromaKey.spill}
+                                    onChange={(e) => updateChromaKey({ spill: Number(e.target.value) })}
+                                    className="w-full accent-purple-400"
+                                />
+                            </div>
+
+                            <button
+                                onClick={() => setChromaKey(DEFAULT_CHROMA_KEY)}
+                                className="w-full rounded-lg border border-gray-700 bg-gray-900 px-3 py-2 text-xs text-gray-400 hover:text-gray-200"
+                            >
+                                Reset Key Settings
+                            </button>
+                        </>
+                    )}
+
                     <label className="flex items-center gap-3 px-4 py-3 bg-gray-800 text-gray-300 rounded-xl hover:bg-gray-750 cursor-pointer transition-colors border border-gray-700">
                         <Settings size={20} />
                         <span className="flex-1">Upload BG</span>
-                        <input type="file" accept="image/*" className="hidden" onChange={handleBgUpload} />
+                        <input type="file" accept="image/*,video/mp4,video/webm" className="hidden" onChange={handleBgUpload} />
                     </label>
 
+                    <div className="space-y-2 text-xs text-gray-400">
+                        <div className="flex items-center justify-between">
+                            <span>Scale</span>
+                            <span className="text-gray-500">{backgroundSource?.kind === 'video' ? 'Video' : 'Image'}</span>
+                        </div>
+                        <select
+                            value={backgroundScaleMode}
+                            onChange={(e) => setBackgroundScaleMode(e.target.value as BackgroundScaleMode)}
+                            className="w-full rounded-lg border border-gray-700 bg-gray-900 px-2 py-2 text-xs text-gray-200"
+                        >
+                            <option value="cover">Cover (crop to fill)</option>
+                            <option value="contain">Contain (letterbox)</option>
+                            <option value="stretch">Stretch</option>
+                        </select>
+                    </div>
+
                     <button
                         onClick={handleClearBg}
-                        disabled={!backgroundImage}
-                        className={`w-full flex items-center justify-between px-4 py-3 rounded-xl transition-all border ${backgroundImage
+                        disabled={!backgroundSource}
+                        className={`w-full flex items-center justify-between px-4 py-3 rounded-xl transition-all border ${backgroundSource
                             ? 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
                             : 'bg-gray-900 border-gray-800 text-gray-600 cursor-not-allowed'
                             }`}
@@ -787,6 +2541,141 @@ export function CameraProcessor() {
                         <span>Clear BG</span>
                         <div className="w-2 h-2 rounded-full bg-gray-600" />
                     </button>
+
+                    <button
+                        onClick={() => setEnableKeyOutput(!enableKeyOutput)}
+                        className={`w-full flex items-center justify-between px-4 py-3 rounded-xl transition-all border ${enableKeyOutput
+                            ? 'bg-purple-600/20 border-purple-500/50 text-purple-200'
+                            : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
+                            }`}
+                        title="Fill the background with a solid colour for keying in OBS"
+                    >
+                        <span>Key Colour Output</span>
+                        <div className={`w-2 h-2 rounded-full ${enableKeyOutput ? 'bg-purple-400' : 'bg-gray-600'}`} />
+                    </button>
+
+                    {enableKeyOutput && (
+                        <div className="flex items-center justify-between text-xs text-gray-400">
+                            <span>Key Colour</span>
+                            <input
+                                type="color"
+                                value={keyOutputColor}
+                                onChange={(e) => setKeyOutputColor(e.target.value)}
+                                className="h-6 w-10 rounded border border-gray-700 bg-gray-900"
+                            />
+                        </div>
+                    )}
+                </div>
+
+                {/* Section: Segmentation */}
+                <div className="space-y-3">
+                    <div className="text-xs font-semibold text-gray-500 uppercase tracking-wider">Segmentation</div>
+
+                    <div className="space-y-2 text-xs text-gray-400">
+                        <div>Model</div>
+                        <select
+                            value={segmentationModel}
+                            onChange={(e) => handleSegmentationModelChange(e.target.value as SegmentationModel)}
+                            className="w-full rounded-lg border border-gray-700 bg-gray-900 px-2 py-2 text-xs text-gray-200"
+                        >
+                            <option value="selfie">Selfie (person / background)</option>
+                            <option value="multiclass">Multiclass (hair, skin, clothes)</option>
+                        </select>
+                    </div>
+
+                    {segmentationModel === 'multiclass' ? (
+                        <>
+                            <button
+                                onClick={() => setEnableHairColor(!enableHairColor)}
+                                className={`w-full flex items-center justify-between px-4 py-2 rounded-xl text-xs transition-all border ${enableHairColor
+                                    ? 'bg-pink-600/20 border-pink-500/50 text-pink-200'
+                                    : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
+                                    }`}
+                                title="Recolour hair while keeping its shading"
+                            >
+                                <span>Hair Colour</span>
+                                <div className={`w-2 h-2 rounded-full ${enableHairColor ? 'bg-pink-400' : 'bg-gray-600'}`} />
+                            </button>
+
+                            {enableHairColor && (
+                                <div className="space-y-2 text-xs text-gray-400">
+                                    <div className="flex items-center justify-between">
+                                        <span>Hair</span>
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-gray-500">{Math.round(hairColorStrength * 100)}%</span>
+                                            <input
+                                                type="color"
+                                                value={hairColor}
+                                                onChange={(e) => setHairColor(e.target.value)}
+                                                className="h-6 w-10 rounded border border-gray-700 bg-gray-900"
+                                            />
+                                        </div>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="1"
+                                        step="0.05"
+                                        value={hairColorStrength}
+                                        onChange={(e) => setHairColorStrength(Number(e.target.value))}
+                                        className="w-full accent-pink-400"
+                                    />
+                                </div>
+                            )}
+
+                            <button
+                                onClick={() => setEnableClothesTint(!enableClothesTint)}
+                                className={`w-full flex items-center justify-between px-4 py-2 rounded-xl text-xs transition-all border ${enableClothesTint
+                                    ? 'bg-pink-600/20 border-pink-500/50 text-pink-200'
+                                    : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
+                                    }`}
+                                title="Tint clothes while keeping folds and shading"
+                            >
+                                <span>Clothing Tint</span>
+                                <div className={`w-2 h-2 rounded-full ${enableClothesTint ? 'bg-pink-400' : 'bg-gray-600'}`} />
+                            </button>
+
+                            {enableClothesTint && (
+                                <div className="space-y-2 text-xs text-gray-400">
+                                    <div className="flex items-center justify-between">
+                                        <span>Clothes</span>
+                                        <div className="flex items-center gap-2">
+                                            <span className="text-gray-500">{Math.round(clothesTintStrength * 100)}%</span>
+                                            <input
+                                                type="color"
+                                                value={clothesColor}
+                                                onChange={(e) => setClothesColor(e.target.value)}
+                                                className="h-6 w-10 rounded border border-gray-700 bg-gray-900"
+                                            />
+                                        </div>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min="0"
+                                        max="1"
+                                        step="0.05"
+                                        value={clothesTintStrength}
+                                        onChange={(e) => setClothesTintStrength(Number(e.target.value))}
+                                        className="w-full accent-pink-400"
+                                    />
+                                </div>
+                            )}
+
+                            <button
+                                onClick={() => setKeepHair(!keepHair)}
+                                className={`w-full flex items-center justify-between px-4 py-2 rounded-xl text-xs transition-all border ${keepHair
+                                    ? 'bg-pink-600/20 border-pink-500/50 text-pink-200'
+                                    : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
+                                    }`}
+                                title="Draw hair that falls across the face on top of face masks"
+                            >
+                                <span>Keep Hair Over Masks</span>
+                                <div className={`w-2 h-2 rounded-full ${keepHair ? 'bg-pink-400' : 'bg-gray-600'}`} />
+                            </button>
+                        </>
+                    ) : (
+                        <div className="text-[11px] text-gray-500">Switch to the multiclass model for hair and clothing effects.</div>
+                    )}
                 </div>
 
                 {/* Section: Output */}
@@ -804,6 +2693,48 @@ export function CameraProcessor() {
                 </div>
                 </div>
             )}
+
+            {isRetargeting && (
+                <RetargetEditor
+                    key={activeAvatar.id}
+                    avatar={activeAvatar}
+                    profile={activeRetargetProfile}
+                    snapshotRef={faceSnapshotRef}
+                    snapshotsFiltered={landmarkFilter.type !== 'none'}
+                    onChange={setRetargetDraft}
+                    onSave={handleRetargetSave}
+                    onClose={closeRetargetEditor}
+                />
+            )}
+
+            {placementDraft && (
+                <AvatarPlacementPanel
+                    avatar={activeAvatar}
+                    placement={placementDraft}
+                    onChange={setPlacementDraft}
+                    onSave={handlePlacementSave}
+                    onClose={() => setPlacementDraft(null)}
+                />
+            )}
+
+            {isLightingPanelOpen && (
+                <SceneLightingPanel
+                    options={sceneLighting}
+                    lightRef={sceneLightRef}
+                    onChange={setSceneLighting}
+                    onReset={() => setSceneLighting(DEFAULT_SCENE_LIGHTING)}
+                    onClose={() => setIsLightingPanelOpen(false)}
+                />
+            )}
+
+            {calibratingMask && (
+                <MaskAnchorEditor
+                    key={calibratingMask.id}
+                    mask={calibratingMask}
+                    onSave={handleMaskCalibrationSave}
+                    onClose={() => setCalibratingMaskId(null)}
+                />
+            )}
         </div>
     );
 }
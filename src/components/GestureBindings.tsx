@@ -0,0 +1,29 @@
+import type { GestureAction, GestureBindings as Bindings } from '../types/gesture';
+import { GESTURE_ACTION_LABELS, GESTURE_ACTIONS, GESTURE_LABELS, GESTURE_NAMES } from '../utils/gestures';
+
+export function GestureBindings({
+    bindings,
+    onChange,
+}: {
+    bindings: Bindings;
+    onChange: (bindings: Bindings) => void;
+}) {
+    return (
+        <div className="space-y-2 text-xs text-gray-400">
+            {GESTURE_NAMES.map((gesture) => (
+                <label key={gesture} className="flex items-center justify-between gap-2">
+                    <span>{GESTURE_LABELS[gesture]}</span>
+                    <select
+                        value={bindings[gesture]}
+                        onChange={(e) => onChange({ ...bindings, [gesture]: e.target.value as GestureAction })}
+                        className="w-40 rounded-lg border border-gray-700 bg-gray-900 px-2 py-1 text-xs text-gray-200"
+                    >
+                        {GESTURE_ACTIONS.map((action) => (
+                            <option key={action} value={action}>{GESTURE_ACTION_LABELS[action]}</option>
+                        ))}
+                    </select>
+                </label>
+            ))}
+        </div>
+    );
+}
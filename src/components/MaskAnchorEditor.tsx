@@ -0,0 +1,186 @@
+import { useState } from 'react';
+import type { FaceMask, MaskAnchorName, MaskAnchors, MaskFitMode } from '../types/face';
+import { MASK_ANCHOR_LANDMARKS, MASK_ANCHOR_ORDER } from '../utils/face';
+
+const anchorLabels: Record<MaskAnchorName, string> = {
+    eyeLeft: 'Eye (image left)',
+    eyeRight: 'Eye (image right)',
+    nose: 'Nose tip',
+    mouth: 'Mouth centre',
+};
+
+const anchorColors: Record<MaskAnchorName, string> = {
+    eyeLeft: '#38bdf8',
+    eyeRight: '#a78bfa',
+    nose: '#facc15',
+    mouth: '#f87171',
+};
+
+const defaultAnchors: MaskAnchors = {
+    eyeLeft: { x: 0.35, y: 0.4 },
+    eyeRight: { x: 0.65, y: 0.4 },
+    nose: { x: 0.5, y: 0.55 },
+    mouth: { x: 0.5, y: 0.72 },
+};
+
+function initialAnchors(mask: FaceMask): MaskAnchors {
+    if (mask.anchors) {
+        return mask.anchors;
+    }
+    // Seed from the detected face when there is one, so only fine-tuning is needed.
+    const target = mask.target;
+    const width = mask.image.naturalWidth;
+    const height = mask.image.naturalHeight;
+    if (target && width > 0 && height > 0) {
+        const seeded = { ...defaultAnchors };
+        for (const name of MASK_ANCHOR_ORDER) {
+            const indices = MASK_ANCHOR_LANDMARKS[name];
+            const points = indices.map((index) => target.landmarks[index]).filter(Boolean);
+            if (points.length !== indices.length) return defaultAnchors;
+            seeded[name] = {
+                x: points.reduce((sum, pt) => sum + pt.x, 0) / points.length / width,
+                y: points.reduce((sum, pt) => sum + pt.y, 0) / points.length / height,
+            };
+        }
+        return seeded;
+    }
+    return defaultAnchors;
+}
+
+export function MaskAnchorEditor({
+    mask,
+    onSave,
+    onClose,
+}: {
+    mask: FaceMask;
+    onSave: (anchors: MaskAnchors | null, fitMode: MaskFitMode) => void;
+    onClose: () => void;
+}) {
+    const [anchors, setAnchors] = useState<MaskAnchors>(() => initialAnchors(mask));
+    const [fitMode, setFitMode] = useState<MaskFitMode>(mask.fitMode ?? 'similarity');
+    const [selected, setSelected] = useState<MaskAnchorName>('eyeLeft');
+    const [dragging, setDragging] = useState<MaskAnchorName | null>(null);
+
+    const toNormalized = (e: React.PointerEvent<HTMLDivElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        return {
+            x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+            y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+        };
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+        const point = toNormalized(e);
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setAnchors((current) => ({ ...current, [selected]: point }));
+        setDragging(selected);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+        if (!dragging) return;
+        const point = toNormalized(e);
+        setAnchors((current) => ({ ...current, [dragging]: point }));
+    };
+
+    const handlePointerUp = () => {
+        if (!dragging) return;
+        // Advance to the next anchor so a first-time setup is four clicks.
+        const nextIndex = (MASK_ANCHOR_ORDER.indexOf(dragging) + 1) % MASK_ANCHOR_ORDER.length;
+        setSelected(MASK_ANCHOR_ORDER[nextIndex]);
+        setDragging(null);
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 p-6">
+            <div className="flex max-h-full w-full max-w-3xl gap-6 rounded-xl border border-gray-700 bg-gray-900 p-6 text-gray-200">
+                <div className="flex flex-1 items-center justify-center">
+                    <div
+                        className="relative cursor-crosshair select-none"
+                        onPointerDown={handlePointerDown}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                    >
+                        <img
+                            src={mask.image.src}
+                            alt={mask.name}
+                            draggable={false}
+                            className="block max-h-[70vh] max-w-full bg-[repeating-conic-gradient(#374151_0_25%,#1f2937_0_50%)] bg-[length:16px_16px]"
+                        />
+                        {MASK_ANCHOR_ORDER.map((name) => (
+                            <div
+                                key={name}
+                                className="pointer-events-none absolute h-3 w-3 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white"
+                                style={{
+                                    left: `${anchors[name].x * 100}%`,
+                                    top: `${anchors[name].y * 100}%`,
+                                    backgroundColor: anchorColors[name],
+                                    boxShadow: name === selected ? '0 0 0 3px rgba(255,255,255,0.35)' : undefined,
+                                }}
+                            />
+                        ))}
+                    </div>
+                </div>
+
+                <div className="flex w-56 flex-shrink-0 flex-col gap-4">
+                    <div>
+                        <div className="text-sm font-semibold">Calibrate "{mask.name}"</div>
+                        <p className="mt-1 text-[11px] text-gray-400">
+                            Pick an anchor, then click or drag on the artwork to place it.
+                        </p>
+                    </div>
+
+                    <div className="space-y-2">
+                        {MASK_ANCHOR_ORDER.map((name) => (
+                            <button
+                                key={name}
+                                onClick={() => setSelected(name)}
+                                className={`flex w-full items-center gap-2 rounded-lg border px-3 py-2 text-xs ${selected === name
+                                    ? 'border-blue-500/50 bg-blue-600/20 text-blue-200'
+                                    : 'border-gray-700 bg-gray-800 text-gray-300 hover:bg-gray-750'
+                                    }`}
+                            >
+                                <span className="h-2 w-2 rounded-full" style={{ backgroundColor: anchorColors[name] }} />
+                                <span>{anchorLabels[name]}</span>
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="space-y-2 text-xs text-gray-400">
+                        <div>Fit</div>
+                        <select
+                            value={fitMode}
+                            onChange={(e) => setFitMode(e.target.value as MaskFitMode)}
+                            className="w-full rounded-lg border border-gray-700 bg-gray-900 px-2 py-2 text-xs text-gray-200"
+                        >
+                            <option value="similarity">Similarity (keep proportions)</option>
+                            <option value="affine">Affine (allow stretch)</option>
+                        </select>
+                    </div>
+
+                    <div className="mt-auto space-y-2">
+                        <button
+                            onClick={() => onSave(anchors, fitMode)}
+                            className="w-full rounded-lg border border-emerald-500/40 bg-emerald-600/20 px-3 py-2 text-xs text-emerald-200 hover:bg-emerald-600/30"
+                        >
+                            Save Anchors
+                        </button>
+                        {mask.anchors && (
+                            <button
+                                onClick={() => onSave(null, fitMode)}
+                                className="w-full rounded-lg border border-gray-700 bg-gray-800 px-3 py-2 text-xs text-gray-300 hover:bg-gray-750"
+                            >
+                                Remove Anchors
+                            </button>
+                        )}
+                        <button
+                            onClick={onClose}
+                            className="w-full rounded-lg border border-gray-700 bg-gray-900 px-3 py-2 text-xs text-gray-400 hover:text-gray-200"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Check, Crosshair, Pencil, Trash2, X } from 'lucide-react';
+import type { FaceMask } from '../types/face';
+
+export function MaskLibrary({
+    masks,
+    activeMaskId,
+    onSelect,
+    onRename,
+    onDelete,
+    onCalibrate,
+}: {
+    masks: FaceMask[];
+    activeMaskId: string | null;
+    onSelect: (id: string | null) => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+    onCalibrate: (id: string) => void;
+}) {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [draftName, setDraftName] = useState('');
+
+    if (masks.length === 0) {
+        return <div className="text-[11px] text-gray-500">No saved masks yet. Upload one to start your library.</div>;
+    }
+
+    const commitRename = () => {
+        if (editingId) {
+            onRename(editingId, draftName);
+        }
+        setEditingId(null);
+    };
+
+    return (
+        <div className="grid grid-cols-3 gap-2">
+            {masks.map((mask) => {
+                const isActive = mask.id === activeMaskId;
+                const isEditing = mask.id === editingId;
+                return (
+                    <div
+                        key={mask.id}
+                        className={`group relative rounded-lg border overflow-hidden bg-gray-900 ${isActive ? 'border-blue-400 ring-1 ring-blue-400/50' : 'border-gray-700 hover:border-gray-500'}`}
+                    >
+                        <button
+                            onClick={() => onSelect(isActive ? null : mask.id)}
+                            className="block w-full aspect-square"
+                            title={mask.name}
+                        >
+                            {mask.thumbnail ? (
+                                <img src={mask.thumbnail} alt={mask.name} className="w-full h-full object-contain" />
+                            ) : (
+                                <div className="w-full h-full bg-gray-800" />
+                            )}
+                        </button>
+                        {isEditing ? (
+                            <div className="flex items-center gap-1 px-1 py-1 bg-gray-900">
+                                <input
+                                    autoFocus
+                                    value={draftName}
+                                    onChange={(e) => setDraftName(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        if (e.key === 'Enter') commitRename();
+                                        if (e.key === 'Escape') setEditingId(null);
+                                    }}
+                                    className="min-w-0 flex-1 rounded bg-gray-800 px-1 text-[10px] text-gray-200"
+                                />
+                                <button onClick={commitRename} className="text-emerald-300" title="Save">
+                                    <Check size={12} />
+                                </button>
+                                <button onClick={() => setEditingId(null)} className="text-gray-400" title="Cancel">
+                                    <X size={12} />
+                                </button>
+                            </div>
+                        ) : (
+                            <div className="truncate px-1 py-1 text-[10px] text-gray-400">{mask.name}</div>
+                        )}
+                        {mask.anchors && (
+                            <div className="absolute left-1 top-1 rounded bg-black/70 p-0.5 text-emerald-300" title="Anchors calibrated">
+                                <Crosshair size={10} />
+                            </div>
+                        )}
+                        {!isEditing && (
+                            <div className="absolute right-1 top-1 hidden gap-1 group-hover:flex">
+                                <button
+                                    onClick={() => onCalibrate(mask.id)}
+                                    className="rounded bg-black/70 p-1 text-gray-200 hover:text-white"
+                                    title="Calibrate anchors"
+                                >
+                                    <Crosshair size={10} />
+                                </button>
+                                <button
+                                    onClick={() => {
+                                        setEditingId(mask.id);
+                                        setDraftName(mask.name);
+                                    }}
+                                    className="rounded bg-black/70 p-1 text-gray-200 hover:text-white"
+                                    title="Rename"
+                                >
+                                    <Pencil size={10} />
+                                </button>
+                                <button
+                                    onClick={() => onDelete(mask.id)}
+                                    className="rounded bg-black/70 p-1 text-red-300 hover:text-red-200"
+                                    title="Delete"
+                                >
+                                    <Trash2 size={10} />
+                                </button>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
@@ -0,0 +1,305 @@
+import { useEffect, useState } from 'react';
+import type { MutableRefObject } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import type { Avatar, RetargetCurve, RetargetProfile, RetargetTarget } from '../types/avatar';
+import type { FaceSnapshot } from '../types/face';
+import { ARKIT_BLENDSHAPES } from '../utils/avatar';
+import { createRetargetTarget, evaluateRetargetTarget, RETARGET_CURVES } from '../utils/retarget';
+import { VRM_EXPRESSION_SOURCES } from '../utils/vrm';
+
+const curveLabels: Record<RetargetCurve, string> = {
+    linear: 'Linear',
+    easeIn: 'Ease in',
+    easeOut: 'Ease out',
+    smoothstep: 'S-curve',
+};
+
+const meterIntervalMs = 100;
+
+function availableTargets(avatar: Avatar): string[] {
+    if (avatar.format === 'vrm') {
+        return avatar.report?.expressions ?? Object.keys(VRM_EXPRESSION_SOURCES);
+    }
+    const morphs = avatar.report?.morphTargetNames ?? [];
+    return morphs.length > 0 ? morphs : ARKIT_BLENDSHAPES;
+}
+
+function Meter({ value, className }: { value: number; className: string }) {
+    return (
+        <div className="h-1.5 w-16 flex-shrink-0 overflow-hidden rounded bg-gray-800">
+            <div className={`h-full ${className}`} style={{ width: `${Math.min(1, Math.max(0, value)) * 100}%` }} />
+        </div>
+    );
+}
+
+/**
+ * Side panel for editing how MediaPipe blendshapes drive an avatar's morph
+ * targets (or VRM expressions). Edits are reported through `onChange` so the
+ * avatar previews them live; nothing is stored until `onSave`.
+ */
+export function RetargetEditor({
+    avatar,
+    profile,
+    snapshotRef,
+    snapshotsFiltered,
+    onChange,
+    onSave,
+    onClose,
+}: {
+    avatar: Avatar;
+    profile: RetargetProfile;
+    snapshotRef: MutableRefObject<FaceSnapshot[]>;
+    // The landmark filter already smooths blendshapes, so the profile's smoothing is not applied.
+    snapshotsFiltered: boolean;
+    onChange: (profile: RetargetProfile) => void;
+    onSave: (profile: RetargetProfile | null) => void;
+    onClose: () => void;
+}) {
+    const [draft, setDraft] = useState<RetargetProfile>(profile);
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [filter, setFilter] = useState('');
+    const [scores, setScores] = useState<Record<string, number>>({});
+    const targets = availableTargets(avatar);
+
+    useEffect(() => {
+        const intervalId = window.setInterval(() => {
+            const shapes = snapshotRef.current[0]?.blendshapes ?? [];
+            setScores(Object.fromEntries(shapes.map((shape) => [shape.name, shape.score])));
+        }, meterIntervalMs);
+        return () => window.clearInterval(intervalId);
+    }, [snapshotRef]);
+
+    const update = (next: RetargetProfile) => {
+        setDraft(next);
+        onChange(next);
+    };
+
+    const updateMappings = (source: string, mappings: RetargetTarget[]) => {
+        const next = { ...draft.mappings };
+        if (mappings.length > 0) {
+            next[source] = mappings;
+        } else {
+            delete next[source];
+        }
+        update({ ...draft, mappings: next });
+    };
+
+    const updateTarget = (source: string, index: number, patch: Partial<RetargetTarget>) => {
+        updateMappings(source, (draft.mappings[source] ?? []).map((mapping, i) => (
+            i === index ? { ...mapping, ...patch } : mapping
+        )));
+    };
+
+    const addTarget = (source: string) => {
+        const existing = draft.mappings[source] ?? [];
+        const target = targets.includes(source) ? source : targets[0];
+        if (!target) return;
+        updateMappings(source, [...existing, createRetargetTarget(target)]);
+    };
+
+    const query = filter.trim().toLowerCase();
+    const sources = ARKIT_BLENDSHAPES.filter((name) => !query || name.toLowerCase().includes(query)
+        || draft.mappings[name]?.some((mapping) => mapping.target.toLowerCase().includes(query)));
+
+    return (
+        <div className="fixed inset-y-0 right-0 z-50 flex w-[26rem] max-w-full flex-col gap-3 border-l border-gray-700 bg-gray-900/95 p-4 text-gray-200 shadow-2xl">
+            <div>
+                <div className="text-sm font-semibold">Retarget "{avatar.name}"</div>
+                <p className="mt-1 text-[11px] text-gray-400">
+                    Map each tracked blendshape to one or more {avatar.format === 'vrm' ? 'VRM expressions' : 'morph targets'}.
+                    Changes preview live on the avatar.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3 text-xs text-gray-400">
+                <label className="space-y-1">
+                    <div className="flex items-center justify-between">
+                        <span>Smoothing</span>
+                        <span className="text-gray-500">{draft.smoothing.toFixed(2)}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="0.05"
+                        max="1"
+                        step="0.01"
+                        value={draft.smoothing}
+                        disabled={snapshotsFiltered}
+                        onChange={(e) => update({ ...draft, smoothing: Number(e.target.value) })}
+                        className="w-full accent-orange-400"
+                    />
+                </label>
+                <label className="space-y-1">
+                    <div className="flex items-center justify-between">
+                        <span>Eye Look Smoothing</span>
+                        <span className="text-gray-500">{draft.eyeLookSmoothing.toFixed(2)}</span>
+                    </div>
+                    <input
+                        type="range"
+                        min="0.05"
+                        max="1"
+                        step="0.01"
+                        value={draft.eyeLookSmoothing}
+                        disabled={snapshotsFiltered}
+                        onChange={(e) => update({ ...draft, eyeLookSmoothing: Number(e.target.value) })}
+                        className="w-full accent-orange-400"
+                    />
+                </label>
+                {snapshotsFiltered && (
+                    <p className="col-span-2 text-[11px] text-gray-500">
+                        Landmark filtering is on and already smooths blendshapes; turn it off to use these.
+                    </p>
+                )}
+            </div>
+
+            <input
+                value={filter}
+                onChange={(e) => setFilter(e.target.value)}
+                placeholder="Filter blendshapes or targets"
+                className="w-full rounded-lg border border-gray-700 bg-gray-900 px-2 py-1.5 text-xs text-gray-200"
+            />
+
+            <div className="min-h-0 flex-1 space-y-1 overflow-y-auto pr-1 text-xs">
+                {sources.map((source) => {
+                    const mappings = draft.mappings[source] ?? [];
+                    const score = scores[source] ?? 0;
+                    const isExpanded = expanded === source;
+                    return (
+                        <div key={source} className={`rounded-lg border ${isExpanded ? 'border-orange-500/50' : 'border-gray-800'} bg-gray-900`}>
+                            <button
+                                onClick={() => setExpanded(isExpanded ? null : source)}
+                                className="flex w-full items-center gap-2 px-2 py-1.5 text-left"
+                            >
+                                <span className="flex-1 truncate text-gray-300">{source}</span>
+                                <span className="text-[10px] text-gray-500">
+                                    {mappings.length === 0 ? 'unmapped' : mappings.map((mapping) => mapping.target).join(', ')}
+                                </span>
+                                <Meter value={score} className="bg-sky-400" />
+                            </button>
+                            {isExpanded && (
+                                <div className="space-y-2 border-t border-gray-800 px-2 py-2">
+                                    {mappings.map((mapping, index) => (
+                                        <div key={index} className="space-y-1 rounded border border-gray-800 p-2">
+                                            <div className="flex items-center gap-2">
+                                                <select
+                                                    value={mapping.target}
+                                                    onChange={(e) => updateTarget(source, index, { target: e.target.value })}
+                                                    className="min-w-0 flex-1 rounded border border-gray-700 bg-gray-900 px-1 py-1 text-[11px] text-gray-200"
+                                                >
+                                                    {!targets.includes(mapping.target) && (
+                                                        <option value={mapping.target}>{mapping.target} (missing)</option>
+                                                    )}
+                                                    {targets.map((target) => (
+                                                        <option key={target} value={target}>{target}</option>
+                                                    ))}
+                                                </select>
+                                                <select
+                                                    value={mapping.curve}
+                                                    onChange={(e) => updateTarget(source, index, { curve: e.target.value as RetargetCurve })}
+                                                    className="rounded border border-gray-700 bg-gray-900 px-1 py-1 text-[11px] text-gray-200"
+                                                >
+                                                    {RETARGET_CURVES.map((curve) => (
+                                                        <option key={curve} value={curve}>{curveLabels[curve]}</option>
+                                                    ))}
+                                                </select>
+                                                <Meter value={evaluateRetargetTarget(mapping, score)} className="bg-orange-400" />
+                                                <button
+                                                    onClick={() => updateMappings(source, mappings.filter((_, i) => i !== index))}
+                                                    className="text-red-300 hover:text-red-200"
+                                                    title="Remove"
+                                                >
+                                                    <Trash2 size={12} />
+                                                </button>
+                                            </div>
+                                            <div className="grid grid-cols-2 gap-x-3 gap-y-1 text-[10px] text-gray-400">
+                                                <label className="flex items-center gap-1">
+                                                    <span className="w-10">Gain</span>
+                                                    <input
+                                                        type="range"
+                                                        min="0"
+                                                        max="3"
+                                                        step="0.05"
+                                                        value={mapping.gain}
+                                                        onChange={(e) => updateTarget(source, index, { gain: Number(e.target.value) })}
+                                                        className="min-w-0 flex-1 accent-orange-400"
+                                                    />
+                                                    <span className="w-8 text-right text-gray-500">{mapping.gain.toFixed(2)}</span>
+                                                </label>
+                                                <label className="flex items-center gap-1">
+                                                    <span className="w-10">Offset</span>
+                                                    <input
+                                                        type="range"
+                                                        min="-1"
+                                                        max="1"
+                                                        step="0.05"
+                                                        value={mapping.offset}
+                                                        onChange={(e) => updateTarget(source, index, { offset: Number(e.target.value) })}
+                                                        className="min-w-0 flex-1 accent-orange-400"
+                                                    />
+                                                    <span className="w-8 text-right text-gray-500">{mapping.offset.toFixed(2)}</span>
+                                                </label>
+                                                <label className="flex items-center gap-1">
+                                                    <span className="w-10">Min</span>
+                                                    <input
+                                                        type="range"
+                                                        min="0"
+                                                        max="1"
+                                                        step="0.05"
+                                                        value={mapping.min}
+                                                        onChange={(e) => updateTarget(source, index, { min: Math.min(Number(e.target.value), mapping.max) })}
+                                                        className="min-w-0 flex-1 accent-orange-400"
+                                                    />
+                                                    <span className="w-8 text-right text-gray-500">{mapping.min.toFixed(2)}</span>
+                                                </label>
+                                                <label className="flex items-center gap-1">
+                                                    <span className="w-10">Max</span>
+                                                    <input
+                                                        type="range"
+                                                        min="0"
+                                                        max="1"
+                                                        step="0.05"
+                                                        value={mapping.max}
+                                                        onChange={(e) => updateTarget(source, index, { max: Math.max(Number(e.target.value), mapping.min) })}
+                                                        className="min-w-0 flex-1 accent-orange-400"
+                                                    />
+                                                    <span className="w-8 text-right text-gray-500">{mapping.max.toFixed(2)}</span>
+                                                </label>
+                                            </div>
+                                        </div>
+                                    ))}
+                                    <button
+                                        onClick={() => addTarget(source)}
+                                        className="flex items-center gap-1 text-[11px] text-orange-300 hover:text-orange-200"
+                                    >
+                                        <Plus size={12} />
+                                        <span>Add target</span>
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    );
+                })}
+            </div>
+
+            <div className="grid grid-cols-3 gap-2">
+                <button
+                    onClick={() => onSave(draft)}
+                    className="rounded-lg border border-emerald-500/40 bg-emerald-600/20 px-3 py-2 text-xs text-emerald-200 hover:bg-emerald-600/30"
+                >
+                    Save Mapping
+                </button>
+                <button
+                    onClick={() => onSave(null)}
+                    className="rounded-lg border border-gray-700 bg-gray-800 px-3 py-2 text-xs text-gray-300 hover:bg-gray-750"
+                >
+                    Reset to Default
+                </button>
+                <button
+                    onClick={onClose}
+                    className="rounded-lg border border-gray-700 bg-gray-900 px-3 py-2 text-xs text-gray-400 hover:text-gray-200"
+                >
+                    Cancel
+                </button>
+            </div>
+        </div>
+    );
+}
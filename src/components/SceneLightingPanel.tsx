@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import type { MutableRefObject } from 'react';
+import type { LightEstimate, SceneLightFrame, SceneLightingOptions } from '../utils/lighting';
+
+const estimateIntervalMs = 250;
+
+const toHex = (color: [number, number, number]) => `#${color
+    .map((channel) => Math.round(Math.min(1, Math.max(0, channel)) * 255).toString(16).padStart(2, '0'))
+    .join('')}`;
+
+/**
+ * Side panel for the avatar's lighting: shows what is being estimated from the
+ * camera and lets the user override it. Changes apply immediately.
+ */
+export function SceneLightingPanel({
+    options,
+    lightRef,
+    onChange,
+    onReset,
+    onClose,
+}: {
+    options: SceneLightingOptions;
+    lightRef: MutableRefObject<SceneLightFrame | null>;
+    onChange: (options: SceneLightingOptions) => void;
+    onReset: () => void;
+    onClose: () => void;
+}) {
+    const [estimate, setEstimate] = useState<LightEstimate | null>(null);
+
+    useEffect(() => {
+        const intervalId = window.setInterval(() => {
+            setEstimate(lightRef.current?.estimate ?? null);
+        }, estimateIntervalMs);
+        return () => window.clearInterval(intervalId);
+    }, [lightRef]);
+
+    const update = (patch: Partial<SceneLightingOptions>) => onChange({ ...options, ...patch });
+
+    const renderToggle = (label: string, active: boolean, onClick: () => void, title: string) => (
+        <button
+            onClick={onClick}
+            className={`w-full flex items-center justify-between px-4 py-2 rounded-xl text-xs transition-all border ${active
+                ? 'bg-orange-600/20 border-orange-500/50 text-orange-200'
+                : 'bg-gray-800 border-gray-700 text-gray-300 hover:bg-gray-750'
+                }`}
+            title={title}
+        >
+            <span>{label}</span>
+            <div className={`w-2 h-2 rounded-full ${active ? 'bg-orange-400' : 'bg-gray-600'}`} />
+        </button>
+    );
+
+    const renderSlider = (
+        label: string,
+        value: number,
+        min: number,
+        max: number,
+        step: number,
+        format: (value: number) => string,
+        onValue: (value: number) => void
+    ) => (
+        <label className="block space-y-1">
+            <div className="flex items-center justify-between">
+                <span>{label}</span>
+                <span className="text-gray-500">{format(value)}</span>
+            </div>
+            <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={value}
+                onChange={(e) => onValue(Number(e.target.value))}
+                className="w-full accent-orange-400"
+            />
+        </label>
+    );
+
+    return (
+        <div className="fixed inset-y-0 right-0 z-50 flex w-80 max-w-full flex-col gap-4 overflow-y-auto border-l border-gray-700 bg-gray-900/95 p-4 text-gray-200 shadow-2xl">
+            <div>
+                <div className="text-sm font-semibold">Scene Lighting</div>
+                <p className="mt-1 text-[11px] text-gray-400">
+                    The avatar's light colour, brightness and direction follow the camera frame. Switch off
+                    automatic lighting to set them by hand.
+                </p>
+            </div>
+
+            <div className="rounded-lg border border-gray-700 bg-gray-800/60 p-3 text-[11px] text-gray-400">
+                {estimate ? (
+                    <div className="space-y-1">
+                        <div className="flex items-center justify-between">
+                            <span>Colour</span>
+                            <span className="flex items-center gap-2">
+                                <span className="h-3 w-3 rounded-sm border border-gray-600" style={{ backgroundColor: toHex(estimate.color) }} />
+                                {Math.round(estimate.temperature / 100) * 100} K
+                            </span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span>Brightness</span>
+                            <span>{Math.round(estimate.brightness * 100)}%</span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span>Key light</span>
+                            <span>
+                                {estimate.direction[0] > 0.1 ? 'right' : estimate.direction[0] < -0.1 ? 'left' : 'front'}
+                                {estimate.direction[1] > 0.1 ? ', above' : estimate.direction[1] < -0.1 ? ', below' : ''}
+                            </span>
+                        </div>
+                    </div>
+                ) : (
+                    <span>No estimate yet; enable the 3D avatar with automatic lighting or the environment map.</span>
+                )}
+            </div>
+
+            <div className="space-y-2">
+                {renderToggle('Automatic Lighting', options.auto, () => update({ auto: !options.auto }), 'Estimate lighting from the camera frame')}
+                {renderToggle(
+                    'Camera Environment Map',
+                    options.environment,
+                    () => update({ environment: !options.environment }),
+                    'Reflect a blurred copy of the camera frame in glossy avatar materials'
+                )}
+            </div>
+
+            <div className="space-y-2 text-xs text-gray-400">
+                {renderSlider('Intensity', options.intensity, 0.2, 2.5, 0.05, (value) => `${value.toFixed(2)}x`, (intensity) => update({ intensity }))}
+            </div>
+
+            <div className={`space-y-2 text-xs text-gray-400 ${options.auto ? 'opacity-50 pointer-events-none' : ''}`}>
+                <label className="flex items-center justify-between">
+                    <span>Light Colour</span>
+                    <input
+                        type="color"
+                        value={options.color}
+                        onChange={(e) => update({ color: e.target.value })}
+                        className="h-6 w-10 rounded border border-gray-700 bg-gray-900"
+                    />
+                </label>
+                {renderSlider('Azimuth', options.azimuth, -90, 90, 1, (value) => `${Math.round(value)}°`, (azimuth) => update({ azimuth }))}
+                {renderSlider('Elevation', options.elevation, -90, 90, 1, (value) => `${Math.round(value)}°`, (elevation) => update({ elevation }))}
+            </div>
+
+            <div className="mt-auto space-y-2">
+                <button
+                    onClick={onReset}
+                    className="w-full rounded-lg border border-gray-700 bg-gray-800 px-3 py-2 text-xs text-gray-300 hover:bg-gray-750"
+                >
+                    Reset to Default
+                </button>
+                <button
+                    onClick={onClose}
+                    className="w-full rounded-lg border border-gray-700 bg-gray-900 px-3 py-2 text-xs text-gray-400 hover:text-gray-200"
+                >
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+}
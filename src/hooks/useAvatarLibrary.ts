@@ -0,0 +1,242 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useGLTF } from "@react-three/drei";
+import type { Avatar, AvatarPlacement, RetargetProfile } from "../types/avatar";
+import type { LibraryEntry } from "../types/library";
+import {
+    BUILT_IN_AVATAR_ID,
+    BUILT_IN_AVATAR_URL,
+    inspectAvatarUrl,
+    parseAvatarPlacement,
+    parseAvatarReport,
+    validateAvatarFile,
+} from "../utils/avatar";
+import { parseRetargetProfile } from "../utils/retarget";
+
+type AvatarSettings = {
+    profile: RetargetProfile;
+    placement: AvatarPlacement;
+};
+
+// The bundled avatar has no library entry, so its settings live in localStorage.
+const builtInStorageKeys: Record<keyof AvatarSettings, string> = {
+    profile: `avatarProfile:${BUILT_IN_AVATAR_ID}`,
+    placement: `avatarPlacement:${BUILT_IN_AVATAR_ID}`,
+};
+
+function readBuiltInSetting<T>(key: keyof AvatarSettings, parse: (value: unknown) => T | undefined): T | undefined {
+    try {
+        const stored = window.localStorage.getItem(builtInStorageKeys[key]);
+        return stored ? parse(JSON.parse(stored)) : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+const builtInAvatar: Avatar = {
+    id: BUILT_IN_AVATAR_ID,
+    name: "Raccoon",
+    url: BUILT_IN_AVATAR_URL,
+    format: "gltf",
+    profile: readBuiltInSetting("profile", parseRetargetProfile),
+    placement: readBuiltInSetting("placement", parseAvatarPlacement),
+    builtIn: true,
+};
+
+function avatarMimeType(file: File) {
+    if (file.type) return file.type;
+    return file.name.toLowerCase().endsWith(".gltf") ? "model/gltf+json" : "model/gltf-binary";
+}
+
+/**
+ * Avatar library persisted by the main process under `<userData>/avatars`.
+ * The bundled raccoon is always listed first and cannot be renamed or deleted.
+ * Without the Electron bridge (plain browser dev) imports only live in memory.
+ */
+export function useAvatarLibrary() {
+    const [avatars, setAvatars] = useState<Avatar[]>([builtInAvatar]);
+    const [isLoading, setIsLoading] = useState(true);
+    const objectUrlsRef = useRef(new Map<string, string>());
+
+    useEffect(() => {
+        let active = true;
+        const ipc = window.ipcRenderer;
+        if (!ipc?.invoke) {
+            setIsLoading(false);
+            return () => {
+                active = false;
+            };
+        }
+        (async () => {
+            const entries = (await ipc.invoke("avatars:list")) as LibraryEntry[] | null;
+            const loaded: Avatar[] = [];
+            for (const entry of entries ?? []) {
+                try {
+                    const data = (await ipc.invoke("avatars:read", entry.id)) as Uint8Array<ArrayBuffer> | null;
+                    if (!data) continue;
+                    const url = URL.createObjectURL(new Blob([data], { type: entry.mimeType }));
+                    objectUrlsRef.current.set(entry.id, url);
+                    const report = parseAvatarReport(entry.meta?.report);
+                    const format = report?.format ?? (entry.fileName.endsWith(".vrm") ? "vrm" : "gltf");
+                    loaded.push({
+                        id: entry.id,
+                        name: entry.name,
+                        url,
+                        format,
+                        report,
+                        profile: parseRetargetProfile(entry.meta?.profile),
+                        placement: parseAvatarPlacement(entry.meta?.placement),
+                    });
+                } catch (error) {
+                    console.warn(`Failed to load avatar ${entry.name}:`, error);
+                }
+            }
+            if (active) {
+                setAvatars((current) => [current.find((avatar) => avatar.builtIn) ?? builtInAvatar, ...loaded]);
+            }
+        })()
+            .catch((error) => {
+                console.warn("Failed to read avatar library:", error);
+            })
+            .finally(() => {
+                if (active) {
+                    setIsLoading(false);
+                }
+            });
+        return () => {
+            active = false;
+        };
+    }, []);
+
+    // The bundled model ships without a stored report; build one in the background.
+    useEffect(() => {
+        let active = true;
+        inspectAvatarUrl(BUILT_IN_AVATAR_URL)
+            .then((report) => {
+                if (!active) return;
+                setAvatars((current) => current.map((avatar) => (
+                    avatar.id === BUILT_IN_AVATAR_ID ? { ...avatar, report } : avatar
+                )));
+            })
+            .catch((error) => {
+                console.warn("Failed to inspect the built-in avatar:", error);
+            });
+        return () => {
+            active = false;
+        };
+    }, []);
+
+    useEffect(() => {
+        const urls = objectUrlsRef.current;
+        return () => {
+            urls.forEach((url) => URL.revokeObjectURL(url));
+            urls.clear();
+        };
+    }, []);
+
+    /** Validates and stores a `.glb` / `.gltf` / `.vrm` file. Throws when the file is not a usable avatar. */
+    const importAvatar = useCallback(async (file: File): Promise<Avatar> => {
+        const report = await validateAvatarFile(file);
+        const name = file.name.replace(/\.[^.]+$/, "");
+        const mimeType = avatarMimeType(file);
+        let id = `local-${Date.now()}`;
+        let storedName = name;
+        const ipc = window.ipcRenderer;
+        if (ipc?.invoke) {
+            const data = new Uint8Array(await file.arrayBuffer());
+            const extension = file.name.toLowerCase().split(".").pop() ?? "";
+            const stored = ["gltf", "vrm"].includes(extension) ? extension : "glb";
+            const entry = (await ipc.invoke("avatars:import", {
+                name,
+                mimeType,
+                extension: stored,
+                data,
+                meta: { report },
+            })) as LibraryEntry | null;
+            if (entry) {
+                id = entry.id;
+                storedName = entry.name;
+            } else {
+                console.warn("Avatar could not be saved to the library; keeping it for this session only.");
+            }
+        }
+        // Created only once the import went through, so a failed save leaves no URL behind.
+        const url = URL.createObjectURL(new Blob([file], { type: mimeType }));
+        const avatar: Avatar = { id, name: storedName, url, format: report.format, report };
+        objectUrlsRef.current.set(id, url);
+        setAvatars((current) => [...current, avatar]);
+        return avatar;
+    }, []);
+
+    const renameAvatar = useCallback(async (id: string, name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed || id === BUILT_IN_AVATAR_ID) return;
+        const ipc = window.ipcRenderer;
+        if (ipc?.invoke) {
+            const entry = await ipc.invoke("avatars:rename", id, trimmed);
+            if (!entry && !id.startsWith("local-")) return;
+        }
+        setAvatars((current) => current.map((avatar) => (avatar.id === id ? { ...avatar, name: trimmed } : avatar)));
+    }, []);
+
+    const deleteAvatar = useCallback(async (id: string) => {
+        if (id === BUILT_IN_AVATAR_ID) return;
+        const ipc = window.ipcRenderer;
+        if (ipc?.invoke && !id.startsWith("local-")) {
+            await ipc.invoke("avatars:delete", id);
+        }
+        const url = objectUrlsRef.current.get(id);
+        if (url) {
+            // Drop the parsed scene from drei's loader cache before the URL goes away.
+            useGLTF.clear(url);
+            URL.revokeObjectURL(url);
+            objectUrlsRef.current.delete(id);
+        }
+        setAvatars((current) => current.filter((avatar) => avatar.id !== id));
+    }, []);
+
+    /** Saves a per-avatar setting; `null` goes back to the default. */
+    const updateAvatarSetting = useCallback(async <K extends keyof AvatarSettings>(
+        id: string,
+        key: K,
+        value: AvatarSettings[K] | null
+    ) => {
+        const ipc = window.ipcRenderer;
+        if (id === BUILT_IN_AVATAR_ID) {
+            try {
+                if (value) {
+                    window.localStorage.setItem(builtInStorageKeys[key], JSON.stringify(value));
+                } else {
+                    window.localStorage.removeItem(builtInStorageKeys[key]);
+                }
+            } catch {
+                // Ignore storage access errors; the setting still applies for this session.
+            }
+        } else if (ipc?.invoke && !id.startsWith("local-")) {
+            const entry = await ipc.invoke("avatars:update-meta", id, { [key]: value });
+            if (!entry) return;
+        }
+        setAvatars((current) => current.map((avatar) => (
+            avatar.id === id ? { ...avatar, [key]: value ?? undefined } : avatar
+        )));
+    }, []);
+
+    const updateAvatarProfile = useCallback(
+        (id: string, profile: RetargetProfile | null) => updateAvatarSetting(id, "profile", profile),
+        [updateAvatarSetting]
+    );
+
+    const updateAvatarPlacement = useCallback(
+        (id: string, placement: AvatarPlacement | null) => updateAvatarSetting(id, "placement", placement),
+        [updateAvatarSetting]
+    );
+
+    return {
+        avatars,
+        isLoading,
+        importAvatar,
+        renameAvatar,
+        deleteAvatar,
+        updateAvatarProfile,
+        updateAvatarPlacement,
+    };
+}
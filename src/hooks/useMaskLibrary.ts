@@ -0,0 +1,232 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { AnimatedMaskSource, AnimationMode, FaceMask, FaceSwapTarget, MaskAnchors, MaskFitMode } from "../types/face";
+import { MASK_ANCHOR_ORDER } from "../utils/face";
+import { DecodedImageAnimation, VideoAnimation } from "../utils/animatedSource";
+import type { LibraryEntry } from "../types/library";
+
+const thumbnailSize = 96;
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image ${url}`));
+        img.src = url;
+    });
+}
+
+function createThumbnail(image: HTMLImageElement): string {
+    const canvas = document.createElement("canvas");
+    canvas.width = thumbnailSize;
+    canvas.height = thumbnailSize;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return "";
+    const scale = Math.min(thumbnailSize / image.naturalWidth, thumbnailSize / image.naturalHeight);
+    const width = image.naturalWidth * scale;
+    const height = image.naturalHeight * scale;
+    ctx.drawImage(image, (thumbnailSize - width) / 2, (thumbnailSize - height) / 2, width, height);
+    return canvas.toDataURL("image/png");
+}
+
+function parseAnchors(value: unknown): MaskAnchors | undefined {
+    if (!value || typeof value !== "object") return undefined;
+    const source = value as Record<string, { x?: unknown; y?: unknown } | undefined>;
+    const anchors: Partial<MaskAnchors> = {};
+    for (const name of MASK_ANCHOR_ORDER) {
+        const pt = source[name];
+        if (!pt || typeof pt.x !== "number" || typeof pt.y !== "number") return undefined;
+        anchors[name] = { x: pt.x, y: pt.y };
+    }
+    return anchors as MaskAnchors;
+}
+
+function parseFitMode(value: unknown): MaskFitMode | undefined {
+    return value === "similarity" || value === "affine" ? value : undefined;
+}
+
+function parseAnimationMode(value: unknown): AnimationMode {
+    return value === "pingpong" || value === "trigger" ? value : "loop";
+}
+
+/**
+ * Mask library persisted by the main process under `<userData>/masks`.
+ * Without the Electron bridge (plain browser dev) masks only live in memory.
+ */
+export function useMaskLibrary() {
+    const [masks, setMasks] = useState<FaceMask[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const objectUrlsRef = useRef(new Map<string, string>());
+
+    const createMask = useCallback(async (
+        id: string,
+        name: string,
+        blob: Blob,
+        thumbnail?: string,
+        animationMode: AnimationMode = "loop"
+    ): Promise<FaceMask> => {
+        const url = URL.createObjectURL(blob);
+        objectUrlsRef.current.set(id, url);
+        let image: HTMLImageElement;
+        let animation: AnimatedMaskSource | undefined;
+        if (blob.type.startsWith("video/")) {
+            const video = await VideoAnimation.load(url, animationMode);
+            animation = video;
+            image = await loadImage(video.capturePoster());
+        } else {
+            image = await loadImage(url);
+            try {
+                animation = (await DecodedImageAnimation.decode(blob, animationMode)) ?? undefined;
+            } catch (error) {
+                console.warn(`Failed to decode animation frames for ${name}, using a still image:`, error);
+            }
+        }
+        return { id, name, image, animation, thumbnail: thumbnail || createThumbnail(image), target: null };
+    }, []);
+
+    useEffect(() => {
+        let active = true;
+        const ipc = window.ipcRenderer;
+        if (!ipc?.invoke) {
+            setIsLoading(false);
+            return () => {
+                active = false;
+            };
+        }
+        (async () => {
+            const entries = (await ipc.invoke("masks:list")) as LibraryEntry[] | null;
+            const loaded: FaceMask[] = [];
+            for (const entry of entries ?? []) {
+                try {
+                    const data = (await ipc.invoke("masks:read", entry.id)) as Uint8Array<ArrayBuffer> | null;
+                    if (!data) continue;
+                    const mask = await createMask(
+                        entry.id,
+                        entry.name,
+                        new Blob([data], { type: entry.mimeType }),
+                        entry.thumbnail,
+                        parseAnimationMode(entry.meta?.animationMode)
+                    );
+                    loaded.push({
+                        ...mask,
+                        anchors: parseAnchors(entry.meta?.anchors),
+                        fitMode: parseFitMode(entry.meta?.fitMode),
+                    });
+                } catch (error) {
+                    console.warn(`Failed to load mask ${entry.name}:`, error);
+                }
+            }
+            if (active) {
+                setMasks(loaded);
+            }
+        })()
+            .catch((error) => {
+                console.warn("Failed to read mask library:", error);
+            })
+            .finally(() => {
+                if (active) {
+                    setIsLoading(false);
+                }
+            });
+        return () => {
+            active = false;
+        };
+    }, [createMask]);
+
+    useEffect(() => {
+        const urls = objectUrlsRef.current;
+        return () => {
+            urls.forEach((url) => URL.revokeObjectURL(url));
+            urls.clear();
+        };
+    }, []);
+
+    const importMask = useCallback(async (file: File): Promise<FaceMask | null> => {
+        const name = file.name.replace(/\.[^.]+$/, "");
+        const preview = await createMask(`local-${Date.now()}`, name, file);
+        const ipc = window.ipcRenderer;
+        let mask = preview;
+        if (ipc?.invoke) {
+            const data = new Uint8Array(await file.arrayBuffer());
+            const extension = file.name.includes(".") ? file.name.split(".").pop() ?? "" : "";
+            const entry = (await ipc.invoke("masks:import", {
+                name,
+                mimeType: file.type,
+                extension,
+                data,
+                thumbnail: preview.thumbnail,
+            })) as LibraryEntry | null;
+            if (entry) {
+                objectUrlsRef.current.set(entry.id, objectUrlsRef.current.get(preview.id) ?? "");
+                objectUrlsRef.current.delete(preview.id);
+                mask = { ...preview, id: entry.id, name: entry.name };
+            } else {
+                console.warn("Mask could not be saved to the library; keeping it for this session only.");
+            }
+        }
+        setMasks((current) => [...current, mask]);
+        return mask;
+    }, [createMask]);
+
+    const renameMask = useCallback(async (id: string, name: string) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+        const ipc = window.ipcRenderer;
+        if (ipc?.invoke) {
+            const entry = await ipc.invoke("masks:rename", id, trimmed);
+            if (!entry && !id.startsWith("local-")) return;
+        }
+        setMasks((current) => current.map((mask) => (mask.id === id ? { ...mask, name: trimmed } : mask)));
+    }, []);
+
+    const deleteMask = useCallback(async (id: string) => {
+        const ipc = window.ipcRenderer;
+        if (ipc?.invoke && !id.startsWith("local-")) {
+            await ipc.invoke("masks:delete", id);
+        }
+        masks.find((mask) => mask.id === id)?.animation?.dispose();
+        const url = objectUrlsRef.current.get(id);
+        if (url) {
+            URL.revokeObjectURL(url);
+            objectUrlsRef.current.delete(id);
+        }
+        setMasks((current) => current.filter((mask) => mask.id !== id));
+    }, [masks]);
+
+    const setMaskTarget = useCallback((id: string, target: FaceSwapTarget | null) => {
+        setMasks((current) => current.map((mask) => (mask.id === id ? { ...mask, target } : mask)));
+    }, []);
+
+    const updateMaskCalibration = useCallback(async (id: string, anchors: MaskAnchors | null, fitMode: MaskFitMode) => {
+        const ipc = window.ipcRenderer;
+        if (ipc?.invoke && !id.startsWith("local-")) {
+            const entry = await ipc.invoke("masks:update-meta", id, { anchors, fitMode });
+            if (!entry) return;
+        }
+        setMasks((current) => current.map((mask) => (
+            mask.id === id ? { ...mask, anchors: anchors ?? undefined, fitMode } : mask
+        )));
+    }, []);
+
+    const updateMaskAnimationMode = useCallback(async (id: string, animationMode: AnimationMode) => {
+        const ipc = window.ipcRenderer;
+        if (ipc?.invoke && !id.startsWith("local-")) {
+            await ipc.invoke("masks:update-meta", id, { animationMode });
+        }
+        setMasks((current) => current.map((mask) => {
+            if (mask.id !== id || !mask.animation) return mask;
+            mask.animation.setMode(animationMode);
+            return { ...mask };
+        }));
+    }, []);
+
+    return {
+        masks,
+        isLoading,
+        importMask,
+        renameMask,
+        deleteMask,
+        setMaskTarget,
+        updateMaskCalibration,
+        updateMaskAnimationMode,
+    };
+}
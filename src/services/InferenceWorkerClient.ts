@@ -0,0 +1,260 @@
+import type { FaceLandmarkerResult } from "@mediapipe/tasks-vision";
+import { MediaPipeService } from "./MediaPipeService";
+import type {
+    InferenceCallMap,
+    InferenceControls,
+    InferenceMethod,
+    InferenceMode,
+    InferenceRequest,
+    InferenceResponse,
+    InferenceResult,
+    InferenceTasks,
+    SerializedSegmentation
+} from "../types/inference";
+import type { SegmentationMasks, SegmentationModel } from "../types/segmentation";
+import { ArrayMask } from "../utils/segmentation";
+
+const deserializeMasks = (segmentation: SerializedSegmentation): SegmentationMasks => {
+    const classes: SegmentationMasks["classes"] = {};
+    (Object.keys(segmentation.classes) as Array<keyof SegmentationMasks["classes"]>).forEach((name) => {
+        const mask = segmentation.classes[name];
+        if (mask) {
+            classes[name] = new ArrayMask(mask.width, mask.height, mask.data);
+        }
+    });
+    const { person } = segmentation;
+    return { person: new ArrayMask(person.width, person.height, person.data), personKind: segmentation.personKind, classes };
+};
+
+// The worker is built as a classic script for MediaPipe's importScripts. The dev server
+// only serves workers as ES modules, so inference stays on the main thread there.
+export const inferenceWorkerSupported = typeof Worker !== "undefined" && !import.meta.env.DEV;
+
+// A frame with no reply after this long is given up on, so one lost message cannot stall tracking.
+const FRAME_TIMEOUT_MS = 2000;
+
+/** The inference mode chosen in settings; the worker unless turned off for debugging. */
+export function readInferenceMode(): InferenceMode {
+    if (!inferenceWorkerSupported) {
+        return "inline";
+    }
+    try {
+        const stored = window.localStorage.getItem("inferenceMode");
+        if (stored === "worker" || stored === "inline") {
+            return stored;
+        }
+    } catch {
+        // Ignore storage access errors.
+    }
+    return "worker";
+}
+
+/**
+ * Runs MediaPipeService in a dedicated worker so a slow model never stalls the
+ * render thread. Frames go over as transferable VideoFrames (ImageBitmaps where
+ * VideoFrame is missing); while one is being processed new frames are skipped,
+ * and the renderer keeps drawing with the most recent result. If the worker
+ * crashes, the client stops and MediaPipeService takes over on the main thread.
+ */
+export class InferenceWorkerClient implements InferenceControls {
+    private static instance: InferenceWorkerClient | null = null;
+    private worker: Worker;
+    private nextCallId = 1;
+    private pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+    private frameInFlight = false;
+    private frameTimeout: ReturnType<typeof setTimeout> | null = null;
+    private latest: InferenceResult | null = null;
+    // The settings forwarded so far, replayed on the main thread if the worker crashes.
+    private settings: {
+        maxFaces?: number;
+        segmentationModel?: SegmentationModel;
+        poseTracking?: boolean;
+        handTracking?: boolean;
+    } = {};
+
+    private constructor() {
+        this.worker = new Worker(new URL("../workers/inference.worker.ts", import.meta.url));
+        this.worker.onmessage = (event: MessageEvent<InferenceResponse>) => this.handleMessage(event.data);
+        this.worker.onerror = (event) => this.fallBack(event.message || "Inference worker crashed");
+    }
+
+    static start(): InferenceWorkerClient {
+        if (!InferenceWorkerClient.instance) {
+            InferenceWorkerClient.instance = new InferenceWorkerClient();
+        }
+        return InferenceWorkerClient.instance;
+    }
+
+    /** The running client, or null when inference runs on the main thread. */
+    static getActive(): InferenceWorkerClient | null {
+        return InferenceWorkerClient.instance;
+    }
+
+    stop() {
+        this.worker.terminate();
+        this.endFrame();
+        this.rejectPending(new Error("Inference worker stopped"));
+        if (InferenceWorkerClient.instance === this) {
+            InferenceWorkerClient.instance = null;
+        }
+    }
+
+    initialize() {
+        // The worker cannot read the renderer's GPU settings, so they are resolved here.
+        return this.call("initialize", [MediaPipeService.getInstance().getDelegateOrder()]);
+    }
+
+    setMaxFaces(count: number) {
+        this.settings.maxFaces = count;
+        return this.call("setMaxFaces", [count]);
+    }
+
+    setSegmentationModel(model: SegmentationModel) {
+        this.settings.segmentationModel = model;
+        return this.call("setSegmentationModel", [model]);
+    }
+
+    setPoseTrackingEnabled(enabled: boolean) {
+        this.settings.poseTracking = enabled;
+        return this.call("setPoseTrackingEnabled", [enabled]);
+    }
+
+    setHandTrackingEnabled(enabled: boolean) {
+        this.settings.handTracking = enabled;
+        return this.call("setHandTrackingEnabled", [enabled]);
+    }
+
+    async detectFaceInImage(image: HTMLImageElement | HTMLCanvasElement | ImageBitmap): Promise<FaceLandmarkerResult | null> {
+        // The caller keeps its own bitmap; the worker gets (and closes) a copy.
+        const bitmap = await createImageBitmap(image);
+        return this.call("detectFaceInImage", [bitmap], [bitmap]);
+    }
+
+    /**
+     * Sends the current video frame unless the previous one is still being
+     * processed; returns whether it was sent. Below a `scale` of 1 the frame is
+     * downscaled on the way over.
+     */
+    submit(video: HTMLVideoElement, timestamp: number, tasks: InferenceTasks, scale = 1) {
+        if (this.frameInFlight) return false;
+        this.frameInFlight = true;
+        this.frameTimeout = setTimeout(() => {
+            console.warn(`Inference worker did not answer a frame within ${FRAME_TIMEOUT_MS} ms; sending the next one.`);
+            this.endFrame();
+        }, FRAME_TIMEOUT_MS);
+        if (scale >= 1 && typeof VideoFrame !== "undefined") {
+            try {
+                this.postFrame(new VideoFrame(video, { timestamp: Math.round(timestamp * 1000) }), timestamp, tasks);
+            } catch (error) {
+                // No decodable frame yet (e.g. right after the stream changed).
+                this.endFrame();
+                console.warn("Failed to capture video frame:", error);
+                return false;
+            }
+            return true;
+        }
+        const resize: ImageBitmapOptions | undefined = scale < 1
+            ? {
+                resizeWidth: Math.max(1, Math.round(video.videoWidth * scale)),
+                resizeHeight: Math.max(1, Math.round(video.videoHeight * scale)),
+                resizeQuality: "low",
+            }
+            : undefined;
+        createImageBitmap(video, resize)
+            .then((bitmap) => this.postFrame(bitmap, timestamp, tasks))
+            .catch((error) => {
+                this.endFrame();
+                console.warn("Failed to capture video frame:", error);
+            });
+        return true;
+    }
+
+    /** The newest result not handed out yet, or null when nothing new arrived. */
+    takeResult(): InferenceResult | null {
+        const result = this.latest;
+        this.latest = null;
+        return result;
+    }
+
+    private postFrame(frame: VideoFrame | ImageBitmap, timestamp: number, tasks: InferenceTasks) {
+        const request: InferenceRequest = { type: "frame", frame, timestamp, tasks };
+        this.worker.postMessage(request, [frame]);
+    }
+
+    private call<M extends InferenceMethod>(
+        method: M,
+        args: InferenceCallMap[M]["args"],
+        transfer: Transferable[] = []
+    ): Promise<InferenceCallMap[M]["result"]> {
+        const id = this.nextCallId;
+        this.nextCallId += 1;
+        return new Promise((resolve, reject) => {
+            this.pending.set(id, { resolve: resolve as (value: unknown) => void, reject });
+            this.worker.postMessage({ type: "call", id, method, args } as InferenceRequest, transfer);
+        });
+    }
+
+    private handleMessage(message: InferenceResponse) {
+        if (message.type === "callResult") {
+            const pending = this.pending.get(message.id);
+            if (!pending) return;
+            this.pending.delete(message.id);
+            if (message.error !== undefined) {
+                pending.reject(new Error(message.error));
+            } else {
+                pending.resolve(message.result);
+            }
+            return;
+        }
+        this.endFrame();
+        if (message.type === "frameError") {
+            console.warn("Inference worker failed on a frame:", message.message);
+            return;
+        }
+        this.latest = {
+            timestamp: message.timestamp,
+            face: message.face,
+            pose: message.pose,
+            hands: message.hands,
+            segmentation: message.segmentation ? deserializeMasks(message.segmentation) : null,
+        };
+    }
+
+    private endFrame() {
+        if (this.frameTimeout !== null) {
+            clearTimeout(this.frameTimeout);
+            this.frameTimeout = null;
+        }
+        this.frameInFlight = false;
+    }
+
+    /** Stops the crashed worker and brings the models up on the main thread with the same settings. */
+    private fallBack(message: string) {
+        if (InferenceWorkerClient.instance !== this) return;
+        console.error("Inference worker crashed; running MediaPipe on the main thread:", message);
+        this.stop();
+        const service = MediaPipeService.getInstance();
+        const { maxFaces, segmentationModel, poseTracking, handTracking } = this.settings;
+        // Stored before initializing so the first models are created with them.
+        const restore = Promise.all([
+            maxFaces !== undefined ? service.setMaxFaces(maxFaces) : undefined,
+            segmentationModel !== undefined ? service.setSegmentationModel(segmentationModel) : undefined,
+        ])
+            .then(() => service.initialize())
+            .then(() => Promise.all([
+                poseTracking !== undefined ? service.setPoseTrackingEnabled(poseTracking) : undefined,
+                handTracking !== undefined ? service.setHandTrackingEnabled(handTracking) : undefined,
+            ]));
+        restore.catch((error) => console.error("Failed to initialize MediaPipe:", error));
+    }
+
+    private rejectPending(error: Error) {
+        this.pending.forEach(({ reject }) => reject(error));
+        this.pending.clear();
+    }
+}
+
+/** Whichever backend is running the models: the worker client, or MediaPipeService itself. */
+export function getInferenceControls(): InferenceControls {
+    return InferenceWorkerClient.getActive() ?? MediaPipeService.getInstance();
+}
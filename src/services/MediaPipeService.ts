@@ -1,19 +1,46 @@
 import {
     FaceLandmarker,
     FilesetResolver,
+    HandLandmarker,
     ImageSegmenter,
+    PoseLandmarker,
     FaceLandmarkerResult,
-    ImageSegmenterResult
+    HandLandmarkerResult,
+    ImageSegmenterResult,
+    PoseLandmarkerResult,
+    type ImageSource
 } from "@mediapipe/tasks-vision";
+import type { InferenceDelegate } from "../types/inference";
+import type { SegmentationClass, SegmentationMasks, SegmentationModel } from "../types/segmentation";
+
+const multiclassOrder: SegmentationClass[] = ["background", "hair", "bodySkin", "faceSkin", "clothes", "accessories"];
 
 export class MediaPipeService {
     private static instance: MediaPipeService;
     private faceLandmarker: FaceLandmarker | null = null;
+    private imageFaceLandmarker: FaceLandmarker | null = null;
+    private imageFaceLandmarkerPromise: Promise<FaceLandmarker> | null = null;
+    private vision: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>> | null = null;
     private imageSegmenter: ImageSegmenter | null = null;
+    private segmenterCanvas: HTMLCanvasElement | null = null;
+    private segmentationModel: SegmentationModel = "selfie";
+    private segmenterSwitch: Promise<void> | null = null;
+    private poseLandmarker: PoseLandmarker | null = null;
+    private poseLandmarkerPromise: Promise<PoseLandmarker> | null = null;
+    private poseTrackingEnabled = false;
+    private handLandmarker: HandLandmarker | null = null;
+    private handLandmarkerPromise: Promise<HandLandmarker> | null = null;
+    private handTrackingEnabled = false;
     private isInitializing = false;
+    // Set when running in the inference worker, which cannot read the renderer's settings itself.
+    private delegateOrder: InferenceDelegate[] | null = null;
+    private maxFaces = 1;
     private wasmBasePath = "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.8/wasm";
     private faceModelPath = "https://storage.googleapis.com/mediapipe-models/face_landmarker/face_landmarker/float16/1/face_landmarker.task";
     private segmenterModelPath = "https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_segmenter/float16/latest/selfie_segmenter.tflite";
+    private poseModelPath = "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/latest/pose_landmarker_lite.task";
+    private handModelPath = "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/latest/hand_landmarker.task";
+    private multiclassModelPath = "https://storage.googleapis.com/mediapipe-models/image_segmenter/selfie_multiclass_256x256/float32/latest/selfie_multiclass_256x256.tflite";
 
     private constructor() { }
 
@@ -31,11 +58,12 @@ export class MediaPipeService {
         this.isInitializing = true;
         try {
             const vision = await FilesetResolver.forVisionTasks(this.wasmBasePath);
+            this.vision = vision;
             const delegates = this.getDelegateOrder();
 
             // Initialize Face Landmarker with GPU fallback to CPU.
             this.faceLandmarker = await this.createWithDelegates(
-                (delegate) => this.createFaceLandmarker(vision, delegate),
+                (delegate) => this.createFaceLandmarker(vision, delegate, "VIDEO"),
                 delegates
             );
 
@@ -54,17 +82,187 @@ export class MediaPipeService {
         }
     }
 
-    detectFace(video: HTMLVideoElement, startTimeMs: number): FaceLandmarkerResult | null {
+    detectFace(video: ImageSource, startTimeMs: number): FaceLandmarkerResult | null {
         if (!this.faceLandmarker) return null;
         return this.faceLandmarker.detectForVideo(video, startTimeMs);
     }
 
-    segmentImage(video: HTMLVideoElement, startTimeMs: number, callback: (result: ImageSegmenterResult) => void) {
-        if (!this.imageSegmenter) return;
+    /**
+     * Runs landmark detection on a still image (e.g. an uploaded target face).
+     * Uses a separate IMAGE-mode landmarker so the VIDEO-mode timestamps stay intact.
+     */
+    async detectFaceInImage(image: HTMLImageElement | HTMLCanvasElement | ImageBitmap): Promise<FaceLandmarkerResult | null> {
+        const vision = this.vision;
+        if (!vision) return null;
+        if (!this.imageFaceLandmarkerPromise) {
+            this.imageFaceLandmarkerPromise = this.createWithDelegates(
+                (delegate) => this.createFaceLandmarker(vision, delegate, "IMAGE"),
+                this.getDelegateOrder()
+            );
+        }
+        try {
+            this.imageFaceLandmarker = await this.imageFaceLandmarkerPromise;
+        } catch (error) {
+            this.imageFaceLandmarkerPromise = null;
+            throw error;
+        }
+        return this.imageFaceLandmarker.detect(image);
+    }
+
+    getMaxFaces() {
+        return this.maxFaces;
+    }
+
+    async setMaxFaces(count: number) {
+        const next = Math.max(1, Math.min(4, Math.round(count)));
+        if (next === this.maxFaces) return;
+        this.maxFaces = next;
+        if (this.faceLandmarker) {
+            await this.faceLandmarker.setOptions({ numFaces: next });
+        }
+        if (this.poseLandmarker) {
+            await this.poseLandmarker.setOptions({ numPoses: next });
+        }
+    }
+
+    /**
+     * Upper-body tracking is off by default: the pose model is only downloaded
+     * and created when first enabled, and is closed again when disabled.
+     */
+    async setPoseTrackingEnabled(enabled: boolean) {
+        this.poseTrackingEnabled = enabled;
+        if (!enabled) {
+            this.poseLandmarker?.close();
+            this.poseLandmarker = null;
+            return;
+        }
+        const vision = this.vision;
+        if (!vision || this.poseLandmarker || this.poseLandmarkerPromise) return;
+        this.poseLandmarkerPromise = this.createWithDelegates(
+            (delegate) => this.createPoseLandmarker(vision, delegate),
+            this.getDelegateOrder()
+        );
+        try {
+            const landmarker = await this.poseLandmarkerPromise;
+            // Switched off again while the model was loading.
+            if (this.poseTrackingEnabled) {
+                this.poseLandmarker = landmarker;
+            } else {
+                landmarker.close();
+            }
+        } finally {
+            this.poseLandmarkerPromise = null;
+        }
+    }
+
+    detectPose(video: ImageSource, startTimeMs: number): PoseLandmarkerResult | null {
+        if (!this.poseLandmarker) return null;
+        return this.poseLandmarker.detectForVideo(video, startTimeMs);
+    }
+
+    /** Same lifecycle as pose tracking: created on first enable, closed when disabled. */
+    async setHandTrackingEnabled(enabled: boolean) {
+        this.handTrackingEnabled = enabled;
+        if (!enabled) {
+            this.handLandmarker?.close();
+            this.handLandmarker = null;
+            return;
+        }
+        const vision = this.vision;
+        if (!vision || this.handLandmarker || this.handLandmarkerPromise) return;
+        this.handLandmarkerPromise = this.createWithDelegates(
+            (delegate) => this.createHandLandmarker(vision, delegate),
+            this.getDelegateOrder()
+        );
+        try {
+            const landmarker = await this.handLandmarkerPromise;
+            if (this.handTrackingEnabled) {
+                this.handLandmarker = landmarker;
+            } else {
+                landmarker.close();
+            }
+        } finally {
+            this.handLandmarkerPromise = null;
+        }
+    }
+
+    detectHands(video: ImageSource, startTimeMs: number): HandLandmarkerResult | null {
+        if (!this.handLandmarker) return null;
+        return this.handLandmarker.detectForVideo(video, startTimeMs);
+    }
+
+    /** Returns false when no segmenter is ready (e.g. while switching models) and the callback will not run. */
+    segmentImage(video: ImageSource, startTimeMs: number, callback: (result: ImageSegmenterResult) => void) {
+        if (!this.imageSegmenter) return false;
         this.imageSegmenter.segmentForVideo(video, startTimeMs, callback);
+        return true;
     }
 
-    private createFaceLandmarker(vision: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>, delegate: "CPU" | "GPU") {
+    getSegmentationModel() {
+        return this.segmentationModel;
+    }
+
+    /**
+     * Swaps the segmentation model. The old segmenter is closed first because
+     * both would otherwise share the GPU canvas. Switches run one after another,
+     * and one that a later call has overtaken does nothing.
+     */
+    async setSegmentationModel(model: SegmentationModel) {
+        if (model === this.segmentationModel) return;
+        this.segmentationModel = model;
+        const vision = this.vision;
+        if (!vision) return;
+        const run = async () => {
+            if (model !== this.segmentationModel) return;
+            this.imageSegmenter?.close();
+            this.imageSegmenter = null;
+            const segmenter = await this.createWithDelegates(
+                (delegate) => this.createImageSegmenter(vision, delegate),
+                this.getDelegateOrder()
+            );
+            if (model !== this.segmentationModel) {
+                // Overtaken while loading; the queued switch creates the right one.
+                segmenter.close();
+                return;
+            }
+            this.imageSegmenter = segmenter;
+        };
+        // A failed switch must not block the ones queued behind it; its own caller sees the error.
+        const switched = (this.segmenterSwitch ?? Promise.resolve()).catch(() => undefined).then(run);
+        this.segmenterSwitch = switched;
+        try {
+            await switched;
+        } finally {
+            if (this.segmenterSwitch === switched) {
+                this.segmenterSwitch = null;
+            }
+        }
+    }
+
+    /** Maps a segmenter result to the person mask plus per-class masks for the current model. */
+    getSegmentationMasks(result: ImageSegmenterResult): SegmentationMasks | null {
+        const confidenceMasks = result.confidenceMasks ?? [];
+        if (this.segmentationModel === "multiclass" && confidenceMasks.length >= multiclassOrder.length) {
+            const classes: SegmentationMasks["classes"] = {};
+            multiclassOrder.forEach((name, index) => {
+                classes[name] = confidenceMasks[index];
+            });
+            return { person: confidenceMasks[0], personKind: "inverted-confidence", classes };
+        }
+        if (confidenceMasks.length > 0 && this.segmentationModel === "selfie") {
+            return { person: confidenceMasks[0], personKind: "confidence", classes: {} };
+        }
+        if (result.categoryMask) {
+            return { person: result.categoryMask, personKind: "category", classes: {} };
+        }
+        return null;
+    }
+
+    private createFaceLandmarker(
+        vision: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>,
+        delegate: "CPU" | "GPU",
+        runningMode: "IMAGE" | "VIDEO"
+    ) {
         return FaceLandmarker.createFromOptions(vision, {
             baseOptions: {
                 modelAssetPath: this.faceModelPath,
@@ -72,24 +270,64 @@ export class MediaPipeService {
             },
             outputFaceBlendshapes: true,
             outputFacialTransformationMatrixes: true,
+            runningMode,
+            numFaces: runningMode === "VIDEO" ? this.maxFaces : 1
+        });
+    }
+
+    private createPoseLandmarker(vision: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>, delegate: "CPU" | "GPU") {
+        return PoseLandmarker.createFromOptions(vision, {
+            baseOptions: {
+                modelAssetPath: this.poseModelPath,
+                delegate
+            },
+            runningMode: "VIDEO",
+            numPoses: this.maxFaces
+        });
+    }
+
+    private createHandLandmarker(vision: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>, delegate: "CPU" | "GPU") {
+        return HandLandmarker.createFromOptions(vision, {
+            baseOptions: {
+                modelAssetPath: this.handModelPath,
+                delegate
+            },
             runningMode: "VIDEO",
-            numFaces: 1
+            numHands: 2
         });
     }
 
+    /**
+     * Canvas whose WebGL2 context the GPU segmenter runs on. Rendering with the
+     * same context lets the compositor sample the mask texture without a readback.
+     */
+    getSegmenterCanvas(): HTMLCanvasElement {
+        if (!this.segmenterCanvas) {
+            this.segmenterCanvas = document.createElement("canvas");
+        }
+        return this.segmenterCanvas;
+    }
+
     private createImageSegmenter(vision: Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>, delegate: "CPU" | "GPU") {
         return ImageSegmenter.createFromOptions(vision, {
             baseOptions: {
-                modelAssetPath: this.segmenterModelPath,
+                modelAssetPath: this.segmentationModel === "multiclass" ? this.multiclassModelPath : this.segmenterModelPath,
                 delegate
             },
+            // In a worker MediaPipe creates its own OffscreenCanvas; there is no compositor to share with.
+            canvas: delegate === "GPU" && typeof document !== "undefined" ? this.getSegmenterCanvas() : undefined,
             runningMode: "VIDEO",
             outputCategoryMask: true,
             outputConfidenceMasks: true
         });
     }
 
-    private getDelegateOrder(): Array<"CPU" | "GPU"> {
+    setDelegateOrder(order: InferenceDelegate[]) {
+        this.delegateOrder = order;
+    }
+
+    getDelegateOrder(): InferenceDelegate[] {
+        if (this.delegateOrder) return this.delegateOrder;
         const isElectron = typeof window !== "undefined"
             && typeof (window as { process?: { versions?: { electron?: string } } }).process !== "undefined"
             && Boolean((window as { process?: { versions?: { electron?: string } } }).process?.versions?.electron);
@@ -111,8 +349,8 @@ export class MediaPipeService {
     }
 
     private async createWithDelegates<T>(
-        createFn: (delegate: "CPU" | "GPU") => Promise<T>,
-        delegates: Array<"CPU" | "GPU">
+        createFn: (delegate: InferenceDelegate) => Promise<T>,
+        delegates: InferenceDelegate[]
     ): Promise<T> {
         let lastError: unknown;
         for (const delegate of delegates) {
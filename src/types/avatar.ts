@@ -0,0 +1,64 @@
+export type AvatarFormat = 'gltf' | 'vrm';
+
+export type AvatarReport = {
+    format: AvatarFormat;
+    // VRM spec version ('0' or '1') and the expressions the model defines.
+    vrmVersion?: string;
+    expressions?: string[];
+    // Morph target names across all meshes (targets for retargeting on plain glTF avatars).
+    morphTargetNames: string[];
+    meshCount: number;
+    vertexCount: number;
+    morphTargetCount: number;
+    // ARKit blendshape names the avatar can show (morph targets or VRM expressions), and the ones it lacks.
+    supportedBlendshapes: string[];
+    missingBlendshapes: string[];
+    // Bounding box size in model units.
+    dimensions: [number, number, number];
+    warnings: string[];
+};
+
+export type RetargetCurve = 'linear' | 'easeIn' | 'easeOut' | 'smoothstep';
+
+// One output driven by a MediaPipe blendshape: a morph target, or a VRM expression on VRM avatars.
+export type RetargetTarget = {
+    target: string;
+    gain: number;
+    offset: number;
+    // Output range after gain / offset, before contributions are summed.
+    min: number;
+    max: number;
+    curve: RetargetCurve;
+};
+
+export type RetargetProfile = {
+    // MediaPipe blendshape name -> outputs it drives.
+    mappings: Record<string, RetargetTarget[]>;
+    // Per-frame lerp factor towards the incoming score; eyeLook* use their own.
+    smoothing: number;
+    eyeLookSmoothing: number;
+};
+
+// Where an avatar sits on the tracked head, on top of the automatic fit to the face box.
+export type AvatarPlacement = {
+    // Shift of the head centre in face-box units (x right, y up); does not turn with the head.
+    offset: [number, number];
+    scale: number;
+    // Point of the normalized model that sits on the face centre and that the head turns around.
+    pivot: [number, number, number];
+    // Rest-orientation correction in degrees (pitch, yaw, roll).
+    rotation: [number, number, number];
+};
+
+export type Avatar = {
+    id: string;
+    name: string;
+    // Object URL (library avatars) or public path (the bundled raccoon).
+    url: string;
+    format: AvatarFormat;
+    report?: AvatarReport;
+    // Saved retargeting; the default is derived from the report when unset.
+    profile?: RetargetProfile;
+    placement?: AvatarPlacement;
+    builtIn?: boolean;
+};
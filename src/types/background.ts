@@ -0,0 +1,8 @@
+export type BackgroundScaleMode = 'cover' | 'contain' | 'stretch';
+
+export type BackgroundSource =
+    | { kind: 'image'; element: HTMLImageElement; url: string }
+    | { kind: 'video'; element: HTMLVideoElement; url: string };
+
+// Where the person/background split comes from: the ML segmenter or a physical green screen.
+export type MatteSource = 'segmenter' | 'chromaKey';
@@ -1,3 +1,5 @@
+import type { PoseSnapshot } from './pose';
+
 export type FaceBox = {
     x: number;
     y: number;
@@ -11,8 +13,69 @@ export type FrameSize = {
 };
 
 export type FaceSnapshot = {
+    // Stable across frames while the same person stays in view.
+    id: number;
     landmarks: Array<{ x: number; y: number; z?: number }>;
     matrix?: number[];
     blendshapes?: Array<{ name: string; score: number }>;
+    // Only set while upper-body tracking is on and a body was matched to this face.
+    pose?: PoseSnapshot;
     timestamp: number;
 };
+
+export type Point2D = {
+    x: number;
+    y: number;
+};
+
+export type Triangle = [number, number, number];
+
+export type FaceSwapTarget = {
+    // Landmarks of the target face in source pixels, detected once in image mode.
+    landmarks: Point2D[];
+    triangles: Triangle[];
+};
+
+export type FaceDetection = Omit<FaceSnapshot, 'id'>;
+
+export type MaskAnchorName = 'eyeLeft' | 'eyeRight' | 'nose' | 'mouth';
+
+// Anchor points placed on mask artwork, normalized to the image size (0..1).
+export type MaskAnchors = Record<MaskAnchorName, Point2D>;
+
+export type MaskFitMode = 'similarity' | 'affine';
+
+export type AnimationMode = 'loop' | 'pingpong' | 'trigger';
+
+/** A mask whose pixels change over time; the face layer pulls the current frame every tick. */
+export interface AnimatedMaskSource {
+    readonly width: number;
+    readonly height: number;
+    readonly mode: AnimationMode;
+    setMode(mode: AnimationMode): void;
+    /** Starts a single playback in `trigger` mode; ignored while one is running. */
+    trigger(now: number): void;
+    isPlaying(now: number): boolean;
+    getFrame(now: number): ImageBitmap | HTMLVideoElement;
+    dispose(): void;
+}
+
+export type FaceMask = {
+    id: string;
+    name: string;
+    // Still image (the first frame for animated masks) used for detection, calibration and thumbnails.
+    image: HTMLImageElement;
+    animation?: AnimatedMaskSource;
+    thumbnail?: string;
+    anchors?: MaskAnchors;
+    fitMode?: MaskFitMode;
+    // Null until detection finished, or when no face was found in the image.
+    target: FaceSwapTarget | null;
+};
+
+export type FaceEffect = 'default' | 'none' | 'mask' | 'avatar';
+
+export type FaceAssignment = {
+    effect: FaceEffect;
+    maskId?: string;
+};
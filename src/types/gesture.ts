@@ -0,0 +1,8 @@
+export type GestureName = 'openPalm' | 'peace' | 'thumbsUp' | 'swipeLeft' | 'swipeRight';
+
+export type GestureAction = 'none' | 'nextMask' | 'toggleBackground' | 'toggleAvatar' | 'snapshot';
+
+export type GestureBindings = Record<GestureName, GestureAction>;
+
+// Landmarks of one hand, normalized to the frame (21 points, MediaPipe hand model order).
+export type HandLandmarks = Array<{ x: number; y: number; z?: number }>;
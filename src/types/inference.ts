@@ -0,0 +1,76 @@
+import type { FaceLandmarkerResult, HandLandmarkerResult, PoseLandmarkerResult } from '@mediapipe/tasks-vision';
+import type { PersonMaskKind, SegmentationClass, SegmentationMasks, SegmentationModel } from './segmentation';
+
+// 'worker' runs MediaPipe in a dedicated worker; 'inline' keeps it on the render thread, for debugging.
+export type InferenceMode = 'worker' | 'inline';
+
+export type InferenceDelegate = 'CPU' | 'GPU';
+
+/** The model controls shared by MediaPipeService and the worker client. */
+export interface InferenceControls {
+    initialize(): Promise<void>;
+    setMaxFaces(count: number): Promise<void>;
+    setSegmentationModel(model: SegmentationModel): Promise<void>;
+    setPoseTrackingEnabled(enabled: boolean): Promise<void>;
+    setHandTrackingEnabled(enabled: boolean): Promise<void>;
+    detectFaceInImage(image: HTMLImageElement | HTMLCanvasElement | ImageBitmap): Promise<FaceLandmarkerResult | null>;
+}
+
+/** Which models to run on a frame sent to the worker. */
+export type InferenceTasks = {
+    face: boolean;
+    // Only runs when a face was found, as on the main thread.
+    pose: boolean;
+    hands: boolean;
+    segment: boolean;
+};
+
+export type InferenceResult = {
+    // Capture time of the frame the results belong to (performance.now()).
+    timestamp: number;
+    face: FaceLandmarkerResult | null;
+    pose: PoseLandmarkerResult | null;
+    hands: HandLandmarkerResult | null;
+    segmentation: SegmentationMasks | null;
+};
+
+export type SerializedMask = {
+    width: number;
+    height: number;
+    // Uint8 category indices for 'category' person masks, float confidences otherwise.
+    data: Float32Array | Uint8Array;
+};
+
+export type SerializedSegmentation = {
+    person: SerializedMask;
+    personKind: PersonMaskKind;
+    classes: Partial<Record<SegmentationClass, SerializedMask>>;
+};
+
+// Argument and result types of the calls the worker answers.
+export type InferenceCallMap = {
+    initialize: { args: [delegates: InferenceDelegate[]]; result: void };
+    setMaxFaces: { args: [count: number]; result: void };
+    setSegmentationModel: { args: [model: SegmentationModel]; result: void };
+    setPoseTrackingEnabled: { args: [enabled: boolean]; result: void };
+    setHandTrackingEnabled: { args: [enabled: boolean]; result: void };
+    detectFaceInImage: { args: [image: ImageBitmap]; result: FaceLandmarkerResult | null };
+};
+
+export type InferenceMethod = keyof InferenceCallMap;
+
+export type InferenceRequest =
+    | { [M in InferenceMethod]: { type: 'call'; id: number; method: M; args: InferenceCallMap[M]['args'] } }[InferenceMethod]
+    | { type: 'frame'; frame: VideoFrame | ImageBitmap; timestamp: number; tasks: InferenceTasks };
+
+export type InferenceResponse =
+    | { type: 'callResult'; id: number; result?: unknown; error?: string }
+    | {
+        type: 'result';
+        timestamp: number;
+        face: FaceLandmarkerResult | null;
+        pose: PoseLandmarkerResult | null;
+        hands: HandLandmarkerResult | null;
+        segmentation: SerializedSegmentation | null;
+    }
+    | { type: 'frameError'; message: string };
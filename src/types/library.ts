@@ -0,0 +1,10 @@
+// Mirrors the index entries written by electron/assetLibrary.ts.
+export type LibraryEntry = {
+    id: string;
+    name: string;
+    fileName: string;
+    mimeType: string;
+    createdAt: number;
+    thumbnail?: string;
+    meta?: Record<string, unknown>;
+};
@@ -0,0 +1,26 @@
+export type PoseLandmark = {
+    x: number;
+    y: number;
+    z: number;
+    // Likelihood (0..1) that the point is in view and not occluded.
+    visibility?: number;
+};
+
+// Body pose matched to a tracked face.
+export type PoseSnapshot = {
+    // Normalized to the frame, like face landmarks.
+    landmarks: PoseLandmark[];
+    // Metres around the hip midpoint; x right and y down in the image, z away from the camera.
+    worldLandmarks: PoseLandmark[];
+};
+
+// Upper-body motion in the avatar's frame (already mirrored when the preview is).
+export type UpperBodyPose = {
+    // Torso rotation in radians: turn, lean towards the camera, sideways lean.
+    yaw: number;
+    pitch: number;
+    roll: number;
+    // 0..1 shrug of the avatar's own left / right shoulder.
+    shrugLeft: number;
+    shrugRight: number;
+};
@@ -0,0 +1,24 @@
+import type { MPMask } from '@mediapipe/tasks-vision';
+
+export type SegmentationModel = 'selfie' | 'multiclass';
+
+// Output order of the multiclass selfie model's confidence masks.
+export type SegmentationClass = 'background' | 'hair' | 'bodySkin' | 'faceSkin' | 'clothes' | 'accessories';
+
+// How the person mask's values map to coverage: the multiclass model only
+// reports background confidence, so its person coverage is read inverted.
+export type PersonMaskKind = 'confidence' | 'inverted-confidence' | 'category';
+
+// What the compositors read from a mask: MediaPipe's own masks, or the
+// CPU copies the inference worker posts back.
+export type SegmentationMask = Pick<
+    MPMask,
+    'width' | 'height' | 'canvas' | 'hasWebGLTexture' | 'getAsWebGLTexture' | 'getAsFloat32Array' | 'getAsUint8Array'
+>;
+
+export type SegmentationMasks = {
+    person: SegmentationMask;
+    personKind: PersonMaskKind;
+    // Only filled by the multiclass model.
+    classes: Partial<Record<SegmentationClass, SegmentationMask>>;
+};
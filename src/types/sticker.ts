@@ -0,0 +1,24 @@
+export type StickerRotationMode = 'none' | 'roll' | 'pose';
+
+/** One sticker as described in a sticker JSON file; see README "Sticker format". */
+export type StickerDefinition = {
+    name: string;
+    // File name next to the JSON, a path served from `public/`, or a data/http(s) URL.
+    image: string;
+    // Landmark indices averaged into the attachment point.
+    anchor: number[];
+    // Offset from the anchor in face widths, in the sticker's rotated frame (x right, y down).
+    offset: [number, number];
+    // Sticker width as a multiple of the face width.
+    scale: number;
+    rotation: StickerRotationMode;
+    // Negative values draw beneath the face mask, others above it; higher draws later.
+    zOrder: number;
+};
+
+export type Sticker = {
+    id: string;
+    definition: StickerDefinition;
+    image: HTMLImageElement;
+    visible: boolean;
+};
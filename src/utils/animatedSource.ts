@@ -0,0 +1,216 @@
+import type { AnimatedMaskSource, AnimationMode } from '../types/face';
+
+// Maps elapsed time to a position inside a clip of `duration` ms for looping modes.
+function loopTime(elapsed: number, duration: number, mode: AnimationMode) {
+    if (duration <= 0) return 0;
+    if (mode === 'pingpong') {
+        const cycle = elapsed % (duration * 2);
+        return cycle < duration ? cycle : duration * 2 - cycle;
+    }
+    return elapsed % duration;
+}
+
+/** GIF / APNG / animated WebP decoded up front with WebCodecs `ImageDecoder`. */
+export class DecodedImageAnimation implements AnimatedMaskSource {
+    mode: AnimationMode;
+    private startedAt = performance.now();
+    private triggeredAt: number | null = null;
+    private readonly frameEnds: number[];
+    private readonly duration: number;
+
+    private constructor(
+        private frames: ImageBitmap[],
+        durations: number[],
+        mode: AnimationMode
+    ) {
+        this.mode = mode;
+        let total = 0;
+        this.frameEnds = durations.map((duration) => {
+            total += duration;
+            return total;
+        });
+        this.duration = total;
+    }
+
+    /** Returns null for single-frame images or when `ImageDecoder` cannot handle the type. */
+    static async decode(blob: Blob, mode: AnimationMode = 'loop'): Promise<DecodedImageAnimation | null> {
+        if (typeof ImageDecoder === 'undefined' || !blob.type) return null;
+        if (!(await ImageDecoder.isTypeSupported(blob.type))) return null;
+        const decoder = new ImageDecoder({ data: await blob.arrayBuffer(), type: blob.type });
+        try {
+            await decoder.tracks.ready;
+            const track = decoder.tracks.selectedTrack;
+            if (!track || !track.animated || track.frameCount < 2) return null;
+            const frames: ImageBitmap[] = [];
+            const durations: number[] = [];
+            for (let frameIndex = 0; frameIndex < track.frameCount; frameIndex += 1) {
+                const { image } = await decoder.decode({ frameIndex });
+                // VideoFrame durations are in microseconds; browsers treat tiny GIF delays as 100 ms.
+                const durationMs = (image.duration ?? 0) / 1000;
+                durations.push(durationMs >= 20 ? durationMs : 100);
+                frames.push(await createImageBitmap(image));
+                image.close();
+            }
+            return new DecodedImageAnimation(frames, durations, mode);
+        } finally {
+            decoder.close();
+        }
+    }
+
+    get width() {
+        return this.frames[0]?.width ?? 0;
+    }
+
+    get height() {
+        return this.frames[0]?.height ?? 0;
+    }
+
+    setMode(mode: AnimationMode) {
+        this.mode = mode;
+        this.startedAt = performance.now();
+        this.triggeredAt = null;
+    }
+
+    trigger(now: number) {
+        if (this.mode !== 'trigger' || this.isPlaying(now)) return;
+        this.triggeredAt = now;
+    }
+
+    isPlaying(now: number) {
+        if (this.mode !== 'trigger') return true;
+        return this.triggeredAt !== null && now - this.triggeredAt < this.duration;
+    }
+
+    getFrame(now: number): ImageBitmap | HTMLVideoElement {
+        let time: number;
+        if (this.mode === 'trigger') {
+            // Rest on the first frame until triggered, play once, then return to rest.
+            time = this.isPlaying(now) && this.triggeredAt !== null ? now - this.triggeredAt : 0;
+        } else {
+            time = loopTime(now - this.startedAt, this.duration, this.mode);
+        }
+        let low = 0;
+        let high = this.frameEnds.length - 1;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (this.frameEnds[mid] <= time) {
+                low = mid + 1;
+            } else {
+                high = mid;
+            }
+        }
+        return this.frames[low];
+    }
+
+    dispose() {
+        this.frames.forEach((frame) => frame.close());
+        this.frames = [];
+    }
+}
+
+/** WebM / MP4 masks played through a detached, muted video element. */
+export class VideoAnimation implements AnimatedMaskSource {
+    mode: AnimationMode;
+    private startedAt = performance.now();
+    private playing = false;
+
+    private constructor(private video: HTMLVideoElement, mode: AnimationMode) {
+        this.mode = mode;
+        video.addEventListener('ended', () => {
+            if (this.mode === 'trigger') {
+                this.playing = false;
+                video.currentTime = 0;
+            }
+        });
+        this.applyMode();
+    }
+
+    static load(url: string, mode: AnimationMode = 'loop'): Promise<VideoAnimation> {
+        return new Promise((resolve, reject) => {
+            const video = document.createElement('video');
+            video.muted = true;
+            video.playsInline = true;
+            video.preload = 'auto';
+            video.crossOrigin = 'anonymous';
+            video.onloadeddata = () => resolve(new VideoAnimation(video, mode));
+            video.onerror = () => reject(new Error(`Failed to load video ${url}`));
+            video.src = url;
+        });
+    }
+
+    get width() {
+        return this.video.videoWidth;
+    }
+
+    get height() {
+        return this.video.videoHeight;
+    }
+
+    /** Grabs the first frame as a PNG data URL, used as the still poster for detection and thumbnails. */
+    capturePoster(): string {
+        const canvas = document.createElement('canvas');
+        canvas.width = this.width;
+        canvas.height = this.height;
+        canvas.getContext('2d')?.drawImage(this.video, 0, 0);
+        return canvas.toDataURL('image/png');
+    }
+
+    setMode(mode: AnimationMode) {
+        this.mode = mode;
+        this.startedAt = performance.now();
+        this.applyMode();
+    }
+
+    trigger() {
+        if (this.mode !== 'trigger' || this.isPlaying()) return;
+        this.playing = true;
+        this.video.currentTime = 0;
+        this.video.play().catch(() => {
+            this.playing = false;
+        });
+    }
+
+    isPlaying() {
+        return this.mode !== 'trigger' || this.playing;
+    }
+
+    getFrame(now: number): ImageBitmap | HTMLVideoElement {
+        const video = this.video;
+        if (this.mode === 'loop') {
+            // Media elements can be paused by visibility changes; keep the loop alive.
+            if (video.paused) {
+                video.play().catch(() => {
+                    // Retried on the next tick.
+                });
+            }
+        } else if (this.mode === 'pingpong') {
+            // Video cannot play backwards, so scrub it from the render clock instead.
+            const duration = Number.isFinite(video.duration) ? video.duration * 1000 : 0;
+            const target = loopTime(now - this.startedAt, duration, 'pingpong') / 1000;
+            if (!video.seeking && Math.abs(video.currentTime - target) > 1 / 60) {
+                video.currentTime = target;
+            }
+        }
+        return video;
+    }
+
+    dispose() {
+        this.video.pause();
+        this.video.removeAttribute('src');
+        this.video.load();
+    }
+
+    private applyMode() {
+        const video = this.video;
+        video.loop = this.mode === 'loop';
+        this.playing = false;
+        if (this.mode === 'loop') {
+            video.play().catch(() => {
+                // Retried from getFrame.
+            });
+        } else {
+            video.pause();
+            video.currentTime = 0;
+        }
+    }
+}
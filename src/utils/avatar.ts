@@ -0,0 +1,198 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import type { VRM } from '@pixiv/three-vrm';
+import type { AvatarFormat, AvatarPlacement, AvatarReport } from '../types/avatar';
+import { getVrmDrivenBlendshapes, registerVrmLoader } from './vrm';
+
+// The 52 ARKit face blendshapes; MediaPipe's face landmarker reports all of them except tongueOut.
+export const ARKIT_BLENDSHAPES = [
+    'browDownLeft', 'browDownRight', 'browInnerUp', 'browOuterUpLeft', 'browOuterUpRight',
+    'cheekPuff', 'cheekSquintLeft', 'cheekSquintRight',
+    'eyeBlinkLeft', 'eyeBlinkRight', 'eyeLookDownLeft', 'eyeLookDownRight', 'eyeLookInLeft', 'eyeLookInRight',
+    'eyeLookOutLeft', 'eyeLookOutRight', 'eyeLookUpLeft', 'eyeLookUpRight', 'eyeSquintLeft', 'eyeSquintRight',
+    'eyeWideLeft', 'eyeWideRight',
+    'jawForward', 'jawLeft', 'jawOpen', 'jawRight',
+    'mouthClose', 'mouthDimpleLeft', 'mouthDimpleRight', 'mouthFrownLeft', 'mouthFrownRight', 'mouthFunnel',
+    'mouthLeft', 'mouthLowerDownLeft', 'mouthLowerDownRight', 'mouthPressLeft', 'mouthPressRight', 'mouthPucker',
+    'mouthRight', 'mouthRollLower', 'mouthRollUpper', 'mouthShrugLower', 'mouthShrugUpper', 'mouthSmileLeft',
+    'mouthSmileRight', 'mouthStretchLeft', 'mouthStretchRight', 'mouthUpperUpLeft', 'mouthUpperUpRight',
+    'noseSneerLeft', 'noseSneerRight', 'tongueOut',
+];
+
+export const BUILT_IN_AVATAR_ID = 'builtin-raccoon';
+export const BUILT_IN_AVATAR_URL = '/raccoon_head.glb';
+
+const MAX_AVATAR_BYTES = 50 * 1024 * 1024;
+const MAX_AVATAR_VERTICES = 500_000;
+
+/**
+ * Collects mesh, morph target and size information from a loaded avatar scene.
+ * For VRMs, blendshape support is judged by the expressions the model defines.
+ */
+export function inspectAvatar(scene: THREE.Object3D, vrm?: VRM | null): AvatarReport {
+    let meshCount = 0;
+    let vertexCount = 0;
+    const morphNames = new Set<string>();
+    scene.traverse((child) => {
+        const mesh = child as THREE.Mesh;
+        if (!mesh.isMesh) return;
+        meshCount += 1;
+        vertexCount += mesh.geometry?.attributes.position?.count ?? 0;
+        Object.keys(mesh.morphTargetDictionary ?? {}).forEach((name) => morphNames.add(name));
+    });
+
+    const box = new THREE.Box3().setFromObject(scene);
+    const size = box.isEmpty() ? new THREE.Vector3() : box.getSize(new THREE.Vector3());
+    const driven = vrm ? new Set(getVrmDrivenBlendshapes(vrm)) : morphNames;
+    const supportedBlendshapes = ARKIT_BLENDSHAPES.filter((name) => driven.has(name));
+    const missingBlendshapes = ARKIT_BLENDSHAPES.filter((name) => !driven.has(name));
+    const expressions = vrm?.expressionManager?.expressions.map((expression) => expression.expressionName);
+
+    const warnings: string[] = [];
+    if (vrm) {
+        if (!expressions || expressions.length === 0) {
+            warnings.push('VRM defines no expressions: the head will follow pose but show no expressions.');
+        }
+    } else if (morphNames.size === 0) {
+        warnings.push('No morph targets: the head will follow pose but show no expressions.');
+    } else if (supportedBlendshapes.length === 0) {
+        warnings.push('Morph targets found, but none use ARKit blendshape names.');
+    }
+    const maxDim = Math.max(size.x, size.y, size.z);
+    const minDim = Math.min(size.x, size.y, size.z);
+    if (maxDim > 0 && minDim / maxDim < 0.05) {
+        warnings.push('Model is very flat; check that it is a full head.');
+    }
+
+    return {
+        format: vrm ? 'vrm' : 'gltf',
+        vrmVersion: vrm?.meta.metaVersion,
+        expressions,
+        morphTargetNames: [...morphNames],
+        meshCount,
+        vertexCount,
+        morphTargetCount: morphNames.size,
+        supportedBlendshapes,
+        missingBlendshapes,
+        dimensions: [size.x, size.y, size.z],
+        warnings,
+    };
+}
+
+/**
+ * Parses a `.glb` / `.gltf` / `.vrm` file and checks that it can be used as an avatar.
+ * Throws with a user-facing message when it cannot.
+ */
+export async function validateAvatarFile(file: File): Promise<AvatarReport> {
+    if (file.size > MAX_AVATAR_BYTES) {
+        throw new Error(`${file.name} is larger than ${MAX_AVATAR_BYTES / 1024 / 1024} MB.`);
+    }
+    const loader = new GLTFLoader();
+    registerVrmLoader(loader);
+    let gltf;
+    try {
+        gltf = await loader.parseAsync(await file.arrayBuffer(), '');
+    } catch (error) {
+        const detail = error instanceof Error ? error.message : String(error);
+        // A .gltf that references separate .bin / texture files cannot be resolved from a single file.
+        throw new Error(`Could not read ${file.name} (${detail}). Use a .glb or a .gltf with embedded resources.`);
+    }
+    const vrm = gltf.userData.vrm as VRM | undefined;
+    const report = inspectAvatar(gltf.scene, vrm);
+    if (report.meshCount === 0) {
+        throw new Error(`${file.name} contains no meshes.`);
+    }
+    if (report.vertexCount > MAX_AVATAR_VERTICES) {
+        throw new Error(`${file.name} has ${report.vertexCount.toLocaleString()} vertices; the limit is ${MAX_AVATAR_VERTICES.toLocaleString()}.`);
+    }
+    if (vrm && !vrm.humanoid.getRawBoneNode('head')) {
+        throw new Error(`${file.name} is a VRM without a head bone.`);
+    }
+    if (!report.dimensions.every(Number.isFinite) || Math.max(...report.dimensions) <= 0) {
+        throw new Error(`${file.name} has an empty or invalid bounding box.`);
+    }
+    return report;
+}
+
+/** Loads an avatar by URL just to report on it, e.g. for the bundled model. */
+export async function inspectAvatarUrl(url: string): Promise<AvatarReport> {
+    const gltf = await new GLTFLoader().loadAsync(url);
+    return inspectAvatar(gltf.scene);
+}
+
+export function parseAvatarReport(value: unknown): AvatarReport | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    const source = value as Partial<AvatarReport>;
+    if (!Array.isArray(source.supportedBlendshapes) || !Array.isArray(source.missingBlendshapes)) return undefined;
+    const format: AvatarFormat = source.format === 'vrm' ? 'vrm' : 'gltf';
+    return {
+        format,
+        vrmVersion: typeof source.vrmVersion === 'string' ? source.vrmVersion : undefined,
+        expressions: Array.isArray(source.expressions)
+            ? source.expressions.filter((name): name is string => typeof name === 'string')
+            : undefined,
+        morphTargetNames: Array.isArray(source.morphTargetNames)
+            ? source.morphTargetNames.filter((name): name is string => typeof name === 'string')
+            : [],
+        meshCount: Number(source.meshCount) || 0,
+        vertexCount: Number(source.vertexCount) || 0,
+        morphTargetCount: Number(source.morphTargetCount) || 0,
+        supportedBlendshapes: source.supportedBlendshapes.filter((name): name is string => typeof name === 'string'),
+        missingBlendshapes: source.missingBlendshapes.filter((name): name is string => typeof name === 'string'),
+        dimensions: Array.isArray(source.dimensions) && source.dimensions.length === 3
+            ? source.dimensions.map(Number) as [number, number, number]
+            : [0, 0, 0],
+        warnings: Array.isArray(source.warnings) ? source.warnings.filter((item): item is string => typeof item === 'string') : [],
+    };
+}
+
+export const DEFAULT_AVATAR_PLACEMENT: AvatarPlacement = {
+    offset: [0, 0],
+    scale: 1.15,
+    pivot: [0, 0, 0],
+    rotation: [0, 0, 0],
+};
+
+export function parseAvatarPlacement(value: unknown): AvatarPlacement | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    const source = value as Partial<AvatarPlacement>;
+    const tuple = <T extends number[]>(input: unknown, fallback: T): T => (
+        Array.isArray(input) && input.length === fallback.length && input.every(Number.isFinite)
+            ? [...input] as T
+            : fallback
+    );
+    return {
+        offset: tuple(source.offset, DEFAULT_AVATAR_PLACEMENT.offset),
+        scale: typeof source.scale === 'number' && source.scale > 0 ? source.scale : DEFAULT_AVATAR_PLACEMENT.scale,
+        pivot: tuple(source.pivot, DEFAULT_AVATAR_PLACEMENT.pivot),
+        rotation: tuple(source.rotation, DEFAULT_AVATAR_PLACEMENT.rotation),
+    };
+}
+
+export function getPlacementQuaternion(placement: AvatarPlacement, target = new THREE.Quaternion()) {
+    const [pitch, yaw, roll] = placement.rotation.map(THREE.MathUtils.degToRad);
+    return target.setFromEuler(new THREE.Euler(pitch, yaw, roll));
+}
+
+/** Model-space transform of a placement: rotate and scale about the pivot. */
+export function getPlacementMatrix(placement: AvatarPlacement, target = new THREE.Matrix4()) {
+    const rotation = getPlacementQuaternion(placement);
+    const position = new THREE.Vector3(...placement.pivot)
+        .applyQuaternion(rotation)
+        .multiplyScalar(-placement.scale);
+    return target.compose(position, rotation, new THREE.Vector3().setScalar(placement.scale));
+}
+
+/** Inverse of `getPlacementMatrix` for a transform edited with a gizmo; scale comes from `base`. */
+export function placementFromMatrix(matrix: THREE.Matrix4, base: AvatarPlacement): AvatarPlacement {
+    const position = new THREE.Vector3();
+    const rotation = new THREE.Quaternion();
+    matrix.decompose(position, rotation, new THREE.Vector3());
+    const euler = new THREE.Euler().setFromQuaternion(rotation);
+    const pivot = position.applyQuaternion(rotation.clone().invert()).multiplyScalar(-1 / base.scale);
+    return {
+        ...base,
+        pivot: [pivot.x, pivot.y, pivot.z],
+        rotation: [euler.x, euler.y, euler.z].map(THREE.MathUtils.radToDeg) as [number, number, number],
+    };
+}
@@ -0,0 +1,133 @@
+import * as THREE from 'three';
+
+export type AvatarPresenceState = 'tracking' | 'holding' | 'idle' | 'fadingOut' | 'hidden';
+
+/**
+ * Face-loss state machine for one avatar. A short dropout just holds the last
+ * pose; a longer one eases into the idle pose (`idleWeight`), and after
+ * `idleTimeoutMs` the avatar fades out. Coming back fades in and blends from
+ * the idle pose to the tracked one.
+ */
+export class AvatarPresence {
+    state: AvatarPresenceState = 'hidden';
+    opacity = 0;
+    idleWeight = 0;
+    private lostAt = 0;
+
+    constructor(
+        private holdMs = 400,
+        private idleTimeoutMs = 10000,
+        private fadeMs = 450,
+        private idleBlendMs = 900
+    ) { }
+
+    update(tracking: boolean, now: number, delta: number) {
+        if (tracking) {
+            this.state = 'tracking';
+        } else if (this.state === 'tracking') {
+            this.state = 'holding';
+            this.lostAt = now;
+        }
+        if (this.state === 'holding' && now - this.lostAt >= this.holdMs) {
+            this.state = 'idle';
+        }
+        if (this.state === 'idle' && now - this.lostAt >= this.idleTimeoutMs) {
+            this.state = 'fadingOut';
+        }
+
+        const visible = this.state !== 'fadingOut' && this.state !== 'hidden';
+        this.opacity = step(this.opacity, visible ? 1 : 0, (delta * 1000) / this.fadeMs);
+        if (this.state === 'fadingOut' && this.opacity === 0) {
+            this.state = 'hidden';
+        }
+        const idle = this.state === 'idle' || this.state === 'fadingOut';
+        this.idleWeight = step(this.idleWeight, idle ? 1 : 0, (delta * 1000) / this.idleBlendMs);
+        return this;
+    }
+}
+
+function step(value: number, target: number, amount: number) {
+    return value < target ? Math.min(target, value + amount) : Math.max(target, value - amount);
+}
+
+/** Blinks every few seconds at a slightly random interval; `value` is 0..1 eye closure. */
+export class ProceduralBlink {
+    private nextBlinkAt = 0;
+
+    constructor(private durationMs = 160, private minIntervalMs = 2500, private maxIntervalMs = 5500) { }
+
+    value(now: number) {
+        if (this.nextBlinkAt === 0) this.schedule(now);
+        const t = (now - this.nextBlinkAt) / this.durationMs;
+        if (t < 0) return 0;
+        if (t >= 1) {
+            this.schedule(now);
+            return 0;
+        }
+        return Math.sin(t * Math.PI);
+    }
+
+    private schedule(now: number) {
+        this.nextBlinkAt = now + this.minIntervalMs + Math.random() * (this.maxIntervalMs - this.minIntervalMs);
+    }
+}
+
+const swayEuler = new THREE.Euler();
+
+/** Slow, small head sway for the idle pose, written into `target`. */
+export function idleSway(seconds: number, target: THREE.Quaternion) {
+    return target.setFromEuler(swayEuler.set(
+        0.03 * Math.sin(seconds * 0.7 + 1),
+        0.06 * Math.sin(seconds * 0.45),
+        0.025 * Math.sin(seconds * 0.33 + 2)
+    ));
+}
+
+/** Breathing phase, -1..1, about one breath every four seconds. */
+export function idleBreath(seconds: number) {
+    return Math.sin((seconds * Math.PI * 2) / 4.2);
+}
+
+export type MaterialOpacity = {
+    material: THREE.Material;
+    opacity: number;
+    transparent: boolean;
+};
+
+/** Fades materials to `opacity` of their own; at 1 the original blending is restored. */
+export function setMaterialsOpacity(entries: MaterialOpacity[], opacity: number) {
+    const fading = opacity < 1;
+    entries.forEach(({ material, opacity: base, transparent }) => {
+        const nextTransparent = fading || transparent;
+        if (material.transparent !== nextTransparent) {
+            material.transparent = nextTransparent;
+            material.needsUpdate = true;
+        }
+        material.opacity = base * opacity;
+    });
+}
+
+export type AvatarSlot = {
+    // Stable React key, so a slot keeps its loaded model when a new face takes it over.
+    key: number;
+    faceId: number;
+};
+
+/**
+ * Avatars stay mounted after their face is lost so they can idle and fade
+ * out. A newly tracked face takes over a lost slot before a new one is added.
+ */
+export function assignAvatarSlots(slots: AvatarSlot[], faceIds: number[], createKey: () => number): AvatarSlot[] {
+    const unassigned = faceIds.filter((faceId) => !slots.some((slot) => slot.faceId === faceId));
+    if (unassigned.length === 0) return slots;
+    const next = slots.map((slot) => ({ ...slot }));
+    unassigned.forEach((faceId) => {
+        const lost = next.find((slot) => !faceIds.includes(slot.faceId));
+        if (lost) {
+            lost.faceId = faceId;
+        } else {
+            next.push({ key: createKey(), faceId });
+        }
+    });
+    return next;
+}
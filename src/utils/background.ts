@@ -0,0 +1,118 @@
+import type { BackgroundScaleMode, BackgroundSource } from '../types/background';
+
+export type FitRect = {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+};
+
+export function computeFitRect(
+    sourceWidth: number,
+    sourceHeight: number,
+    targetWidth: number,
+    targetHeight: number,
+    mode: BackgroundScaleMode
+): FitRect {
+    if (mode === 'stretch' || sourceWidth <= 0 || sourceHeight <= 0) {
+        return { x: 0, y: 0, width: targetWidth, height: targetHeight };
+    }
+    const scaleX = targetWidth / sourceWidth;
+    const scaleY = targetHeight / sourceHeight;
+    const scale = mode === 'cover' ? Math.max(scaleX, scaleY) : Math.min(scaleX, scaleY);
+    const width = sourceWidth * scale;
+    const height = sourceHeight * scale;
+    return { x: (targetWidth - width) / 2, y: (targetHeight - height) / 2, width, height };
+}
+
+export function getBackgroundSize(source: BackgroundSource) {
+    return source.kind === 'video'
+        ? { width: source.element.videoWidth, height: source.element.videoHeight }
+        : { width: source.element.naturalWidth, height: source.element.naturalHeight };
+}
+
+/** Whether the source has a frame to draw. Also restarts a video that got paused. */
+export function isBackgroundReady(source: BackgroundSource) {
+    if (source.kind === 'video') {
+        const video = source.element;
+        // Media elements get paused by visibility changes and device sleep; keep looping.
+        if (video.paused && !video.ended) {
+            video.play().catch(() => {
+                // Retried on the next frame.
+            });
+        }
+        return video.readyState >= 2;
+    }
+    return source.element.complete && source.element.naturalWidth > 0;
+}
+
+/** Draws the current background frame into the full canvas area using `mode`. */
+export function drawBackground(
+    ctx: CanvasRenderingContext2D,
+    source: BackgroundSource,
+    width: number,
+    height: number,
+    mode: BackgroundScaleMode
+) {
+    if (!isBackgroundReady(source)) {
+        return;
+    }
+    const size = getBackgroundSize(source);
+    const rect = computeFitRect(size.width, size.height, width, height, mode);
+    if (mode === 'contain') {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, width, height);
+    }
+    ctx.drawImage(source.element, rect.x, rect.y, rect.width, rect.height);
+}
+
+export function loadBackgroundSource(file: File): Promise<BackgroundSource> {
+    const url = URL.createObjectURL(file);
+    if (file.type.startsWith('video/')) {
+        return new Promise((resolve, reject) => {
+            const video = document.createElement('video');
+            video.muted = true;
+            video.loop = true;
+            video.playsInline = true;
+            video.preload = 'auto';
+            video.onloadeddata = () => {
+                video.play().catch(() => {
+                    // drawBackground keeps retrying.
+                });
+                resolve({ kind: 'video', element: video, url });
+            };
+            video.onerror = () => {
+                URL.revokeObjectURL(url);
+                reject(new Error(`Failed to load background video ${file.name}`));
+            };
+            video.src = url;
+        });
+    }
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve({ kind: 'image', element: img, url });
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error(`Failed to load background image ${file.name}`));
+        };
+        img.src = url;
+    });
+}
+
+export function disposeBackgroundSource(source: BackgroundSource) {
+    if (source.kind === 'video') {
+        source.element.pause();
+        source.element.removeAttribute('src');
+        source.element.load();
+    }
+    URL.revokeObjectURL(source.url);
+}
+
+/** Resumes a paused background video after the window becomes visible again. */
+export function resumeBackgroundSource(source: BackgroundSource | null) {
+    if (source?.kind === 'video' && source.element.paused) {
+        source.element.play().catch(() => {
+            // Ignore play errors when resuming.
+        });
+    }
+}
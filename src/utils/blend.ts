@@ -0,0 +1,128 @@
+import type { FaceBox, Point2D } from '../types/face';
+
+// Ordered face-oval contour of the MediaPipe 478 point mesh.
+export const FACE_OVAL_INDICES = [
+    10, 338, 297, 332, 284, 251, 389, 356, 454, 323, 361, 288, 397, 365, 379, 378, 400, 377,
+    152, 148, 176, 149, 150, 136, 172, 58, 132, 93, 234, 127, 162, 21, 54, 103, 67, 109,
+];
+
+export type ColorStats = {
+    mean: [number, number, number];
+    std: [number, number, number];
+    weight: number;
+};
+
+/** Parses "#rrggbb" into 0..1 channels, or returns `fallback`. */
+export function parseHexColor(color: string, fallback: [number, number, number] = [1, 1, 1]): [number, number, number] {
+    const match = /^#?([0-9a-f]{6})$/i.exec(color.trim());
+    if (!match) return fallback;
+    const value = parseInt(match[1], 16);
+    return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+}
+
+export function traceFaceOval(ctx: CanvasRenderingContext2D, points: Point2D[], offsetX = 0, offsetY = 0, scale = 1) {
+    ctx.beginPath();
+    FACE_OVAL_INDICES.forEach((index, i) => {
+        const pt = points[index];
+        if (!pt) return;
+        const x = (pt.x - offsetX) * scale;
+        const y = (pt.y - offsetY) * scale;
+        if (i === 0) {
+            ctx.moveTo(x, y);
+        } else {
+            ctx.lineTo(x, y);
+        }
+    });
+    ctx.closePath();
+}
+
+export function computeFaceOvalBounds(points: Point2D[], pad: number, frameWidth: number, frameHeight: number): FaceBox | null {
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const index of FACE_OVAL_INDICES) {
+        const pt = points[index];
+        if (!pt) continue;
+        if (pt.x < minX) minX = pt.x;
+        if (pt.y < minY) minY = pt.y;
+        if (pt.x > maxX) maxX = pt.x;
+        if (pt.y > maxY) maxY = pt.y;
+    }
+    if (!Number.isFinite(minX)) {
+        return null;
+    }
+    const x = Math.max(0, Math.floor(minX - pad));
+    const y = Math.max(0, Math.floor(minY - pad));
+    const right = Math.min(frameWidth, Math.ceil(maxX + pad));
+    const bottom = Math.min(frameHeight, Math.ceil(maxY + pad));
+    if (right <= x || bottom <= y) {
+        return null;
+    }
+    return { x, y, width: right - x, height: bottom - y };
+}
+
+/**
+ * Per-channel mean and standard deviation of `pixels`, weighted by the alpha
+ * channel of `mask` (same dimensions). Pixels outside the mask are ignored.
+ */
+export function computeColorStats(pixels: Uint8ClampedArray, mask: Uint8ClampedArray): ColorStats {
+    let weight = 0;
+    let sumR = 0;
+    let sumG = 0;
+    let sumB = 0;
+    let sqR = 0;
+    let sqG = 0;
+    let sqB = 0;
+    for (let i = 0; i < pixels.length; i += 4) {
+        // Both the mask and the sampled pixels must be covered.
+        const w = (mask[i + 3] / 255) * (pixels[i + 3] / 255);
+        if (w <= 0) continue;
+        const r = pixels[i];
+        const g = pixels[i + 1];
+        const b = pixels[i + 2];
+        weight += w;
+        sumR += r * w;
+        sumG += g * w;
+        sumB += b * w;
+        sqR += r * r * w;
+        sqG += g * g * w;
+        sqB += b * b * w;
+    }
+    if (weight <= 0) {
+        return { mean: [0, 0, 0], std: [0, 0, 0], weight: 0 };
+    }
+    const mean: [number, number, number] = [sumR / weight, sumG / weight, sumB / weight];
+    const std: [number, number, number] = [
+        Math.sqrt(Math.max(0, sqR / weight - mean[0] * mean[0])),
+        Math.sqrt(Math.max(0, sqG / weight - mean[1] * mean[1])),
+        Math.sqrt(Math.max(0, sqB / weight - mean[2] * mean[2])),
+    ];
+    return { mean, std, weight };
+}
+
+/**
+ * Mean/variance colour transfer (Reinhard-style, in RGB). Shifts `pixels` so their
+ * statistics move from `source` towards `target`, blended by `strength` (0..1).
+ */
+export function applyColorTransfer(pixels: Uint8ClampedArray, source: ColorStats, target: ColorStats, strength: number) {
+    if (strength <= 0 || source.weight <= 0 || target.weight <= 0) {
+        return;
+    }
+    const gain = [0, 1, 2].map((c) => {
+        const ratio = source.std[c] > 1 ? target.std[c] / source.std[c] : 1;
+        // Clamp so noisy or flat regions do not blow out contrast.
+        return 1 + (Math.min(3, Math.max(0.33, ratio)) - 1) * strength;
+    });
+    const offset = [0, 1, 2].map((c) => {
+        const mappedMean = target.mean[c];
+        const blendedMean = source.mean[c] + (mappedMean - source.mean[c]) * strength;
+        return blendedMean - source.mean[c] * gain[c];
+    });
+    for (let i = 0; i < pixels.length; i += 4) {
+        if (pixels[i + 3] === 0) continue;
+        pixels[i] = pixels[i] * gain[0] + offset[0];
+        pixels[i + 1] = pixels[i + 1] * gain[1] + offset[1];
+        pixels[i + 2] = pixels[i + 2] * gain[2] + offset[2];
+    }
+}
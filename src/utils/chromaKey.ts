@@ -0,0 +1,54 @@
+import { parseHexColor } from './blend';
+
+export type ChromaKeyOptions = {
+    // Colour of the physical screen, as a CSS hex colour.
+    keyColor: string;
+    // Chroma distance from the key that is still fully removed.
+    similarity: number;
+    // Width of the ramp from removed to opaque beyond `similarity`.
+    smoothness: number;
+    // How far past `similarity` the key colour is desaturated out of edges and reflections.
+    spill: number;
+};
+
+export const DEFAULT_CHROMA_KEY: ChromaKeyOptions = {
+    keyColor: '#00ff00',
+    similarity: 0.4,
+    smoothness: 0.08,
+    spill: 0.1,
+};
+
+/** BT.601 Cb / Cr of an RGB colour with channels in 0..1. */
+export function toChroma(r: number, g: number, b: number): [number, number] {
+    return [
+        -0.168736 * r - 0.331264 * g + 0.5 * b,
+        0.5 * r - 0.418688 * g - 0.081312 * b,
+    ];
+}
+
+/**
+ * Keys `pixels` (RGBA, in place): alpha falls off with chroma distance to the
+ * key colour and the remaining key tint is desaturated (spill suppression).
+ * The WebGL compositor runs the same maths in its composite shader.
+ */
+export function applyChromaKey(pixels: Uint8ClampedArray, options: ChromaKeyOptions) {
+    const [keyCb, keyCr] = toChroma(...parseHexColor(options.keyColor, [0, 1, 0]));
+    const smoothness = Math.max(1e-4, options.smoothness);
+    const spill = Math.max(1e-4, options.spill);
+    for (let i = 0; i < pixels.length; i += 4) {
+        const r = pixels[i] / 255;
+        const g = pixels[i + 1] / 255;
+        const b = pixels[i + 2] / 255;
+        // Inlined toChroma; this loop runs for every pixel of the frame.
+        const cb = -0.168736 * r - 0.331264 * g + 0.5 * b;
+        const cr = 0.5 * r - 0.418688 * g - 0.081312 * b;
+        const baseMask = Math.hypot(cb - keyCb, cr - keyCr) - options.similarity;
+        const alpha = Math.pow(Math.min(1, Math.max(0, baseMask / smoothness)), 1.5);
+        const keep = Math.pow(Math.min(1, Math.max(0, baseMask / spill)), 1.5);
+        const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+        pixels[i] = (luma + (r - luma) * keep) * 255;
+        pixels[i + 1] = (luma + (g - luma) * keep) * 255;
+        pixels[i + 2] = (luma + (b - luma) * keep) * 255;
+        pixels[i + 3] = alpha * 255;
+    }
+}
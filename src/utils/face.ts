@@ -1,4 +1,4 @@
-import type { FaceBox } from '../types/face';
+import type { FaceBox, MaskAnchorName, MaskAnchors, Point2D } from '../types/face';
 
 export function computeFaceBox(
     landmarks: Array<{ x: number; y: number }>,
@@ -37,3 +37,41 @@ export function computeFaceBox(
         height: height + padYSize,
     };
 }
+
+// Landmarks averaged for each mask anchor. "Left"/"right" are image sides, not the person's.
+export const MASK_ANCHOR_LANDMARKS: Record<MaskAnchorName, number[]> = {
+    eyeLeft: [33, 133],
+    eyeRight: [362, 263],
+    nose: [1],
+    mouth: [13, 14],
+};
+
+export const MASK_ANCHOR_ORDER: MaskAnchorName[] = ['eyeLeft', 'eyeRight', 'nose', 'mouth'];
+
+export function getAnchorLandmarkPoints(
+    landmarks: Array<{ x: number; y: number }>,
+    frameWidth: number,
+    frameHeight: number
+): Point2D[] | null {
+    const points: Point2D[] = [];
+    for (const name of MASK_ANCHOR_ORDER) {
+        const indices = MASK_ANCHOR_LANDMARKS[name];
+        let x = 0;
+        let y = 0;
+        for (const index of indices) {
+            const pt = landmarks[index];
+            if (!pt) return null;
+            x += pt.x;
+            y += pt.y;
+        }
+        points.push({ x: (x / indices.length) * frameWidth, y: (y / indices.length) * frameHeight });
+    }
+    return points;
+}
+
+export function getMaskAnchorPoints(anchors: MaskAnchors, imageWidth: number, imageHeight: number): Point2D[] {
+    return MASK_ANCHOR_ORDER.map((name) => ({
+        x: anchors[name].x * imageWidth,
+        y: anchors[name].y * imageHeight,
+    }));
+}
@@ -0,0 +1,159 @@
+import type { Point2D, Triangle } from '../types/face';
+
+type Circumcircle = { x: number; y: number; r2: number };
+
+function circumcircle(a: Point2D, b: Point2D, c: Point2D): Circumcircle | null {
+    const d = 2 * (a.x * (b.y - c.y) + b.x * (c.y - a.y) + c.x * (a.y - b.y));
+    if (Math.abs(d) < 1e-12) {
+        return null;
+    }
+    const a2 = a.x * a.x + a.y * a.y;
+    const b2 = b.x * b.x + b.y * b.y;
+    const c2 = c.x * c.x + c.y * c.y;
+    const x = (a2 * (b.y - c.y) + b2 * (c.y - a.y) + c2 * (a.y - b.y)) / d;
+    const y = (a2 * (c.x - b.x) + b2 * (a.x - c.x) + c2 * (b.x - a.x)) / d;
+    const dx = a.x - x;
+    const dy = a.y - y;
+    return { x, y, r2: dx * dx + dy * dy };
+}
+
+/**
+ * Delaunay triangulation (Bowyer-Watson). Runs once per target face, so the
+ * quadratic cost is fine for the 478 landmark mesh.
+ */
+export function triangulate(points: Point2D[]): Triangle[] {
+    if (points.length < 3) {
+        return [];
+    }
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    for (const pt of points) {
+        if (pt.x < minX) minX = pt.x;
+        if (pt.y < minY) minY = pt.y;
+        if (pt.x > maxX) maxX = pt.x;
+        if (pt.y > maxY) maxY = pt.y;
+    }
+    const span = Math.max(maxX - minX, maxY - minY, 1) * 20;
+    const midX = (minX + maxX) * 0.5;
+    const midY = (minY + maxY) * 0.5;
+
+    // Super triangle vertices are appended after the real points.
+    const verts: Point2D[] = [
+        ...points,
+        { x: midX - span, y: midY - span },
+        { x: midX, y: midY + span },
+        { x: midX + span, y: midY - span },
+    ];
+    const superStart = points.length;
+
+    type Tri = { v: Triangle; circle: Circumcircle | null };
+    const makeTri = (a: number, b: number, c: number): Tri => ({
+        v: [a, b, c],
+        circle: circumcircle(verts[a], verts[b], verts[c]),
+    });
+    let triangles: Tri[] = [makeTri(superStart, superStart + 1, superStart + 2)];
+
+    for (let i = 0; i < points.length; i += 1) {
+        const pt = verts[i];
+        const bad: Tri[] = [];
+        const keep: Tri[] = [];
+        for (const tri of triangles) {
+            const circle = tri.circle;
+            if (circle) {
+                const dx = pt.x - circle.x;
+                const dy = pt.y - circle.y;
+                if (dx * dx + dy * dy <= circle.r2) {
+                    bad.push(tri);
+                    continue;
+                }
+            }
+            keep.push(tri);
+        }
+
+        // The polygonal hole is bounded by edges that belong to exactly one bad triangle.
+        const edgeCount = new Map<string, [number, number, number]>();
+        for (const tri of bad) {
+            const [a, b, c] = tri.v;
+            for (const [p, q] of [[a, b], [b, c], [c, a]]) {
+                const key = p < q ? `${p}:${q}` : `${q}:${p}`;
+                const entry = edgeCount.get(key);
+                if (entry) {
+                    entry[2] += 1;
+                } else {
+                    edgeCount.set(key, [p, q, 1]);
+                }
+            }
+        }
+        for (const [p, q, count] of edgeCount.values()) {
+            if (count === 1) {
+                keep.push(makeTri(p, q, i));
+            }
+        }
+        triangles = keep;
+    }
+
+    return triangles
+        .map((tri) => tri.v)
+        .filter(([a, b, c]) => a < superStart && b < superStart && c < superStart);
+}
+
+/**
+ * Draws `source` onto `ctx` piecewise: every triangle of `srcPoints` (source pixels)
+ * is mapped with its own affine transform onto the same triangle of `dstPoints`
+ * (canvas pixels). Respects whatever transform is already set on the context.
+ */
+export function drawWarpedTriangles(
+    ctx: CanvasRenderingContext2D,
+    source: CanvasImageSource,
+    srcPoints: Point2D[],
+    dstPoints: Point2D[],
+    triangles: Triangle[]
+) {
+    // Grow each clip triangle slightly so neighbouring triangles overlap and no seams show.
+    const bleed = 0.6;
+    for (const [i0, i1, i2] of triangles) {
+        const s0 = srcPoints[i0];
+        const s1 = srcPoints[i1];
+        const s2 = srcPoints[i2];
+        const d0 = dstPoints[i0];
+        const d1 = dstPoints[i1];
+        const d2 = dstPoints[i2];
+        if (!s0 || !s1 || !s2 || !d0 || !d1 || !d2) continue;
+
+        const denom = (s1.x - s0.x) * (s2.y - s0.y) - (s2.x - s0.x) * (s1.y - s0.y);
+        if (Math.abs(denom) < 1e-6) continue;
+
+        const a = ((d1.x - d0.x) * (s2.y - s0.y) - (d2.x - d0.x) * (s1.y - s0.y)) / denom;
+        const b = ((d1.y - d0.y) * (s2.y - s0.y) - (d2.y - d0.y) * (s1.y - s0.y)) / denom;
+        const c = ((d2.x - d0.x) * (s1.x - s0.x) - (d1.x - d0.x) * (s2.x - s0.x)) / denom;
+        const d = ((d2.y - d0.y) * (s1.x - s0.x) - (d1.y - d0.y) * (s2.x - s0.x)) / denom;
+        const e = d0.x - a * s0.x - c * s0.y;
+        const f = d0.y - b * s0.x - d * s0.y;
+
+        const cx = (d0.x + d1.x + d2.x) / 3;
+        const cy = (d0.y + d1.y + d2.y) / 3;
+        const grow = (pt: Point2D) => {
+            const dx = pt.x - cx;
+            const dy = pt.y - cy;
+            const len = Math.hypot(dx, dy) || 1;
+            return { x: pt.x + (dx / len) * bleed, y: pt.y + (dy / len) * bleed };
+        };
+        const g0 = grow(d0);
+        const g1 = grow(d1);
+        const g2 = grow(d2);
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.moveTo(g0.x, g0.y);
+        ctx.lineTo(g1.x, g1.y);
+        ctx.lineTo(g2.x, g2.y);
+        ctx.closePath();
+        ctx.clip();
+        ctx.transform(a, b, c, d, e, f);
+        ctx.drawImage(source, 0, 0);
+        ctx.restore();
+    }
+}
@@ -0,0 +1,88 @@
+import type { FaceDetection, FaceSnapshot } from '../types/face';
+
+type Track = {
+    id: number;
+    centerX: number;
+    centerY: number;
+    size: number;
+    lastSeen: number;
+};
+
+function measure(landmarks: FaceDetection['landmarks']) {
+    let minX = 1;
+    let minY = 1;
+    let maxX = 0;
+    let maxY = 0;
+    for (const pt of landmarks) {
+        if (pt.x < minX) minX = pt.x;
+        if (pt.y < minY) minY = pt.y;
+        if (pt.x > maxX) maxX = pt.x;
+        if (pt.y > maxY) maxY = pt.y;
+    }
+    return {
+        centerX: (minX + maxX) * 0.5,
+        centerY: (minY + maxY) * 0.5,
+        size: Math.max(1e-3, Math.hypot(maxX - minX, maxY - minY)),
+    };
+}
+
+/**
+ * Assigns stable IDs to detected faces across frames by greedily matching each
+ * detection to the nearest known track. Tracks survive `holdMs` without a match
+ * so a face that drops out briefly keeps its ID (and its effect assignment).
+ */
+export class FaceTracker {
+    private tracks: Track[] = [];
+    private nextId = 1;
+
+    constructor(
+        private holdMs = 1500,
+        // Max centre distance, relative to the track's face size, still treated as the same face.
+        private maxDistance = 0.75
+    ) { }
+
+    update(detections: FaceDetection[], timestamp: number): FaceSnapshot[] {
+        this.tracks = this.tracks.filter((track) => timestamp - track.lastSeen <= this.holdMs);
+
+        const measured = detections.map((detection) => measure(detection.landmarks));
+        const pairs: Array<{ face: number; track: number; distance: number }> = [];
+        measured.forEach((face, faceIndex) => {
+            this.tracks.forEach((track, trackIndex) => {
+                const distance = Math.hypot(face.centerX - track.centerX, face.centerY - track.centerY) / track.size;
+                if (distance <= this.maxDistance) {
+                    pairs.push({ face: faceIndex, track: trackIndex, distance });
+                }
+            });
+        });
+        pairs.sort((a, b) => a.distance - b.distance);
+
+        const faceIds = new Array<number | null>(detections.length).fill(null);
+        const usedTracks = new Set<number>();
+        for (const pair of pairs) {
+            if (faceIds[pair.face] !== null || usedTracks.has(pair.track)) continue;
+            faceIds[pair.face] = this.tracks[pair.track].id;
+            usedTracks.add(pair.track);
+            Object.assign(this.tracks[pair.track], measured[pair.face], { lastSeen: timestamp });
+        }
+
+        const snapshots = detections.map((detection, index) => {
+            let id = faceIds[index];
+            if (id === null) {
+                id = this.nextId;
+                this.nextId += 1;
+                this.tracks.push({ id, ...measured[index], lastSeen: timestamp });
+            }
+            return { ...detection, id };
+        });
+        return snapshots.sort((a, b) => a.id - b.id);
+    }
+
+    /** IDs of faces currently tracked, including ones inside their hold window. */
+    getTrackIds(): number[] {
+        return this.tracks.map((track) => track.id).sort((a, b) => a - b);
+    }
+
+    reset() {
+        this.tracks = [];
+    }
+}
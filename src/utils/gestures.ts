@@ -0,0 +1,157 @@
+import type { GestureAction, GestureBindings, GestureName, HandLandmarks } from '../types/gesture';
+
+export const GESTURE_NAMES: GestureName[] = ['openPalm', 'peace', 'thumbsUp', 'swipeLeft', 'swipeRight'];
+
+export const GESTURE_LABELS: Record<GestureName, string> = {
+    openPalm: 'Open Palm',
+    peace: 'Peace Sign',
+    thumbsUp: 'Thumbs Up',
+    swipeLeft: 'Swipe Left',
+    swipeRight: 'Swipe Right',
+};
+
+export const GESTURE_ACTIONS: GestureAction[] = ['none', 'nextMask', 'toggleBackground', 'toggleAvatar', 'snapshot'];
+
+export const GESTURE_ACTION_LABELS: Record<GestureAction, string> = {
+    none: 'Nothing',
+    nextMask: 'Next Mask',
+    toggleBackground: 'Toggle Background',
+    toggleAvatar: 'Toggle Avatar',
+    snapshot: 'Take Snapshot',
+};
+
+export const DEFAULT_GESTURE_BINDINGS: GestureBindings = {
+    openPalm: 'none',
+    peace: 'toggleAvatar',
+    thumbsUp: 'snapshot',
+    swipeLeft: 'toggleBackground',
+    swipeRight: 'nextMask',
+};
+
+/** Fills unknown or missing gestures with the defaults, so stored bindings survive new gestures and actions. */
+export function parseGestureBindings(value: unknown): GestureBindings {
+    const source = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+    const bindings = { ...DEFAULT_GESTURE_BINDINGS };
+    GESTURE_NAMES.forEach((name) => {
+        const action = source[name];
+        if (GESTURE_ACTIONS.includes(action as GestureAction)) {
+            bindings[name] = action as GestureAction;
+        }
+    });
+    return bindings;
+}
+
+// Hand landmark indices: wrist, then base / middle joint / tip of each finger.
+const WRIST = 0;
+const THUMB_MCP = 2;
+const THUMB_IP = 3;
+const THUMB_TIP = 4;
+const INDEX_MCP = 5;
+const PINKY_MCP = 17;
+const FINGERS = [
+    { pip: 6, tip: 8 },
+    { pip: 10, tip: 12 },
+    { pip: 14, tip: 16 },
+    { pip: 18, tip: 20 },
+];
+
+type Point = HandLandmarks[number];
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Static hand shape from finger extension. Distances are measured from the
+ * wrist, so the test works with the hand tilted; null for anything else.
+ */
+export function classifyHandShape(hand: HandLandmarks): Extract<GestureName, 'openPalm' | 'peace' | 'thumbsUp'> | null {
+    if (hand.length < 21) return null;
+    const wrist = hand[WRIST];
+    const extended = FINGERS.map(({ pip, tip }) => distance(wrist, hand[tip]) > distance(wrist, hand[pip]) * 1.15);
+    const palmWidth = Math.max(1e-4, distance(hand[INDEX_MCP], hand[PINKY_MCP]));
+    const thumbExtended = distance(hand[THUMB_TIP], hand[INDEX_MCP]) > palmWidth * 0.9
+        && distance(hand[THUMB_TIP], hand[INDEX_MCP]) > distance(hand[THUMB_IP], hand[INDEX_MCP]);
+    const [index, middle, ring, pinky] = extended;
+
+    if (index && middle && ring && pinky && thumbExtended) return 'openPalm';
+    if (index && middle && !ring && !pinky) return 'peace';
+    // Image y grows downwards: the thumb tip must sit clearly above its base.
+    const thumbUp = hand[THUMB_MCP].y - hand[THUMB_TIP].y > palmWidth * 0.8;
+    if (thumbExtended && thumbUp && !index && !middle && !ring && !pinky) return 'thumbsUp';
+    return null;
+}
+
+/**
+ * Turns per-frame hand landmarks into discrete gesture events. A hand shape
+ * must be held for `holdMs` to fire, a swipe is an open hand crossing
+ * `swipeDistance` of the frame within `swipeMs`, and nothing fires again until
+ * `cooldownMs` has passed so one gesture triggers one action.
+ */
+export class HandGestureDetector {
+    private heldShape: GestureName | null = null;
+    private heldSince = 0;
+    private shapeFired = false;
+    private lastFiredAt = -Infinity;
+    private palmTrail: Array<{ x: number; time: number }> = [];
+
+    constructor(
+        private holdMs = 400,
+        private swipeMs = 350,
+        private swipeDistance = 0.25,
+        private cooldownMs = 1200
+    ) { }
+
+    /** `mirror` makes swipe directions follow the preview rather than the raw camera frame. */
+    update(hands: HandLandmarks[], timestamp: number, mirror: boolean): GestureName | null {
+        // Only the most prominent hand counts; two hands rarely mean two gestures.
+        const hand = hands
+            .filter((candidate) => candidate.length >= 21)
+            .sort((a, b) => distance(b[WRIST], b[INDEX_MCP]) - distance(a[WRIST], a[INDEX_MCP]))[0];
+        if (!hand) {
+            this.heldShape = null;
+            this.palmTrail = [];
+            return null;
+        }
+        const shape = classifyHandShape(hand);
+        const coolingDown = timestamp - this.lastFiredAt < this.cooldownMs;
+
+        const palmX = (hand[WRIST].x + hand[INDEX_MCP].x + hand[PINKY_MCP].x) / 3;
+        this.palmTrail.push({ x: mirror ? 1 - palmX : palmX, time: timestamp });
+        this.palmTrail = this.palmTrail.filter((point) => timestamp - point.time <= this.swipeMs);
+        if (shape === 'openPalm' && !coolingDown && this.palmTrail.length > 1) {
+            const travel = this.palmTrail[this.palmTrail.length - 1].x - this.palmTrail[0].x;
+            if (Math.abs(travel) >= this.swipeDistance) {
+                // The palm that swiped must not also fire as a held open palm.
+                this.heldShape = shape;
+                this.shapeFired = true;
+                return this.fire(travel > 0 ? 'swipeRight' : 'swipeLeft', timestamp);
+            }
+        }
+
+        if (shape !== this.heldShape) {
+            this.heldShape = shape;
+            this.heldSince = timestamp;
+            this.shapeFired = false;
+            return null;
+        }
+        // A moving open hand is probably the start of a swipe, not a held palm.
+        const steady = this.palmTrail.length < 2
+            || Math.abs(this.palmTrail[this.palmTrail.length - 1].x - this.palmTrail[0].x) < this.swipeDistance * 0.3;
+        if (shape && !this.shapeFired && !coolingDown && steady && timestamp - this.heldSince >= this.holdMs) {
+            this.shapeFired = true;
+            return this.fire(shape, timestamp);
+        }
+        return null;
+    }
+
+    reset() {
+        this.heldShape = null;
+        this.shapeFired = false;
+        this.palmTrail = [];
+    }
+
+    private fire(gesture: GestureName, timestamp: number) {
+        this.lastFiredAt = timestamp;
+        this.palmTrail = [];
+        return gesture;
+    }
+}
@@ -0,0 +1,269 @@
+import type { FaceSnapshot } from '../types/face';
+
+export type LandmarkFilterType = 'none' | 'oneEuro' | 'kalman';
+
+// Trades jitter against latency: 'responsive' follows fast motion, 'stable' holds still faces steadiest.
+export type LandmarkFilterPreset = 'responsive' | 'balanced' | 'stable';
+
+export type LandmarkFilterOptions = {
+    type: LandmarkFilterType;
+    preset: LandmarkFilterPreset;
+};
+
+export const DEFAULT_LANDMARK_FILTER: LandmarkFilterOptions = {
+    type: 'oneEuro',
+    preset: 'balanced',
+};
+
+export const LANDMARK_FILTER_LABELS: Record<LandmarkFilterType, string> = {
+    none: 'Off',
+    oneEuro: 'One Euro',
+    kalman: 'Kalman',
+};
+
+export const LANDMARK_FILTER_PRESET_LABELS: Record<LandmarkFilterPreset, string> = {
+    responsive: 'Responsive',
+    balanced: 'Balanced',
+    stable: 'Stable',
+};
+
+type FilterParams = {
+    // One Euro: cutoff (Hz) for a still signal, and how quickly it opens up with speed.
+    minCutoff: number;
+    beta: number;
+    // Kalman: how much the velocity may change per second, against the detector's own noise.
+    processNoise: number;
+    measurementNoise: number;
+};
+
+// Tuned for normalized landmark coordinates; blendshape scores and the rotation
+// entries of the face matrix stay within about one unit too, so the same numbers
+// serve all channels. The matrix translation is in centimetres and is not filtered.
+const PRESETS: Record<LandmarkFilterPreset, FilterParams> = {
+    responsive: { minCutoff: 2.5, beta: 40, processNoise: 1e-2, measurementNoise: 1e-5 },
+    balanced: { minCutoff: 1.2, beta: 20, processNoise: 1e-3, measurementNoise: 1e-5 },
+    stable: { minCutoff: 0.5, beta: 8, processNoise: 1e-4, measurementNoise: 1e-5 },
+};
+
+const DERIVATIVE_CUTOFF = 1;
+
+// Column-major indices of the upper-left 3x3 (rotation) block of the face matrix.
+const ROTATION_INDICES = [0, 1, 2, 4, 5, 6, 8, 9, 10];
+
+const smoothingFactor = (dt: number, cutoff: number) => {
+    const r = 2 * Math.PI * cutoff * dt;
+    return r / (r + 1);
+};
+
+/** Filters a fixed number of scalar channels in place; one bank per signal of one face. */
+interface FilterBank {
+    apply(values: Float64Array, dt: number): void;
+}
+
+/** One Euro filter (Casiez et al.): an adaptive low-pass that opens up as the signal moves faster. */
+class OneEuroBank implements FilterBank {
+    private value: Float64Array;
+    private derivative: Float64Array;
+    private primed = false;
+
+    constructor(size: number, private params: FilterParams) {
+        this.value = new Float64Array(size);
+        this.derivative = new Float64Array(size);
+    }
+
+    apply(values: Float64Array, dt: number) {
+        if (!this.primed || dt <= 0) {
+            this.value.set(values);
+            this.derivative.fill(0);
+            this.primed = true;
+            return;
+        }
+        const derivativeAlpha = smoothingFactor(dt, DERIVATIVE_CUTOFF);
+        for (let i = 0; i < values.length; i++) {
+            const speed = (values[i] - this.value[i]) / dt;
+            const derivative = this.derivative[i] + derivativeAlpha * (speed - this.derivative[i]);
+            this.derivative[i] = derivative;
+            const alpha = smoothingFactor(dt, this.params.minCutoff + this.params.beta * Math.abs(derivative));
+            this.value[i] += alpha * (values[i] - this.value[i]);
+            values[i] = this.value[i];
+        }
+    }
+}
+
+/** Constant-velocity Kalman filter per channel; predicts through motion so it lags less when moving steadily. */
+class KalmanBank implements FilterBank {
+    private position: Float64Array;
+    private velocity: Float64Array;
+    // Covariance [[pp, pv], [pv, vv]] per channel.
+    private pp: Float64Array;
+    private pv: Float64Array;
+    private vv: Float64Array;
+    private primed = false;
+
+    constructor(size: number, private params: FilterParams) {
+        this.position = new Float64Array(size);
+        this.velocity = new Float64Array(size);
+        this.pp = new Float64Array(size);
+        this.pv = new Float64Array(size);
+        this.vv = new Float64Array(size);
+    }
+
+    apply(values: Float64Array, dt: number) {
+        const { processNoise, measurementNoise } = this.params;
+        if (!this.primed || dt <= 0) {
+            this.position.set(values);
+            this.velocity.fill(0);
+            this.pp.fill(measurementNoise);
+            this.pv.fill(0);
+            this.vv.fill(processNoise);
+            this.primed = true;
+            return;
+        }
+        // White-noise acceleration model.
+        const q = processNoise * dt;
+        const qpp = q * dt * dt / 3;
+        const qpv = q * dt / 2;
+        for (let i = 0; i < values.length; i++) {
+            // Predict.
+            const position = this.position[i] + this.velocity[i] * dt;
+            const pp = this.pp[i] + 2 * dt * this.pv[i] + dt * dt * this.vv[i] + qpp;
+            const pv = this.pv[i] + dt * this.vv[i] + qpv;
+            const vv = this.vv[i] + q;
+            // Update with the measured position.
+            const innovation = values[i] - position;
+            const s = pp + measurementNoise;
+            const kp = pp / s;
+            const kv = pv / s;
+            this.position[i] = position + kp * innovation;
+            this.velocity[i] += kv * innovation;
+            this.pp[i] = (1 - kp) * pp;
+            this.pv[i] = (1 - kp) * pv;
+            this.vv[i] = vv - kv * pv;
+            values[i] = this.position[i];
+        }
+    }
+}
+
+type FaceFilterState = {
+    landmarks: FilterBank;
+    landmarkCount: number;
+    matrix: FilterBank | null;
+    blendshapes: FilterBank | null;
+    blendshapeCount: number;
+    timestamp: number;
+};
+
+/**
+ * Smooths tracked face snapshots once, before any layer reads them, so the 2D
+ * effects and the 3D avatar see the same steady face. State is kept per face
+ * ID; a face that changes shape (landmark or blendshape count) or drops out
+ * for longer than `resetAfterMs` starts fresh instead of sliding in.
+ */
+export class SnapshotFilter {
+    private faces = new Map<number, FaceFilterState>();
+    private options: LandmarkFilterOptions | null = null;
+    private scratch = new Float64Array(0);
+
+    constructor(private resetAfterMs = 500) { }
+
+    apply(snapshots: FaceSnapshot[], options: LandmarkFilterOptions): FaceSnapshot[] {
+        if (options.type === 'none') {
+            this.faces.clear();
+            return snapshots;
+        }
+        if (!this.options || this.options.type !== options.type || this.options.preset !== options.preset) {
+            this.faces.clear();
+            this.options = options;
+        }
+        const seen = new Set<number>();
+        const filtered = snapshots.map((snapshot) => {
+            seen.add(snapshot.id);
+            return this.filterFace(snapshot, options);
+        });
+        this.faces.forEach((state, id) => {
+            if (!seen.has(id) && snapshots.length > 0 && snapshots[0].timestamp - state.timestamp > this.resetAfterMs) {
+                this.faces.delete(id);
+            }
+        });
+        return filtered;
+    }
+
+    reset() {
+        this.faces.clear();
+    }
+
+    private filterFace(snapshot: FaceSnapshot, options: LandmarkFilterOptions): FaceSnapshot {
+        const params = PRESETS[options.preset];
+        const createBank = (size: number): FilterBank => (
+            options.type === 'kalman' ? new KalmanBank(size, params) : new OneEuroBank(size, params)
+        );
+        const landmarkCount = snapshot.landmarks.length;
+        const blendshapeCount = snapshot.blendshapes?.length ?? 0;
+        let state = this.faces.get(snapshot.id);
+        if (
+            !state
+            || state.landmarkCount !== landmarkCount
+            || state.blendshapeCount !== blendshapeCount
+            || snapshot.timestamp - state.timestamp > this.resetAfterMs
+        ) {
+            state = {
+                landmarks: createBank(landmarkCount * 3),
+                landmarkCount,
+                matrix: null,
+                blendshapes: blendshapeCount > 0 ? createBank(blendshapeCount) : null,
+                blendshapeCount,
+                timestamp: snapshot.timestamp,
+            };
+            this.faces.set(snapshot.id, state);
+        }
+        const dt = (snapshot.timestamp - state.timestamp) / 1000;
+        state.timestamp = snapshot.timestamp;
+
+        const landmarkValues = this.values(landmarkCount * 3);
+        snapshot.landmarks.forEach((pt, index) => {
+            landmarkValues[index * 3] = pt.x;
+            landmarkValues[index * 3 + 1] = pt.y;
+            landmarkValues[index * 3 + 2] = pt.z ?? 0;
+        });
+        state.landmarks.apply(landmarkValues, dt);
+        const landmarks = snapshot.landmarks.map((pt, index) => ({
+            x: landmarkValues[index * 3],
+            y: landmarkValues[index * 3 + 1],
+            ...(pt.z === undefined ? {} : { z: landmarkValues[index * 3 + 2] }),
+        }));
+
+        // Entry-wise filtering keeps the rotation block close to a rotation; consumers
+        // extract the rotation, which normalizes the small residual scale.
+        let matrix = snapshot.matrix;
+        if (matrix && matrix.length >= 16 && matrix.every(Number.isFinite)) {
+            state.matrix ??= createBank(ROTATION_INDICES.length);
+            const rotationValues = this.values(ROTATION_INDICES.length);
+            matrix = Array.from(matrix);
+            for (let i = 0; i < ROTATION_INDICES.length; i++) rotationValues[i] = matrix[ROTATION_INDICES[i]];
+            state.matrix.apply(rotationValues, dt);
+            for (let i = 0; i < ROTATION_INDICES.length; i++) matrix[ROTATION_INDICES[i]] = rotationValues[i];
+        }
+
+        let blendshapes = snapshot.blendshapes;
+        if (blendshapes && state.blendshapes) {
+            const scoreValues = this.values(blendshapeCount);
+            blendshapes.forEach((shape, index) => {
+                scoreValues[index] = shape.score;
+            });
+            state.blendshapes.apply(scoreValues, dt);
+            blendshapes = blendshapes.map((shape, index) => ({
+                name: shape.name,
+                score: Math.min(1, Math.max(0, scoreValues[index])),
+            }));
+        }
+
+        return { ...snapshot, landmarks, matrix, blendshapes };
+    }
+
+    private values(size: number) {
+        if (this.scratch.length < size) {
+            this.scratch = new Float64Array(size);
+        }
+        return this.scratch.subarray(0, size);
+    }
+}
@@ -0,0 +1,213 @@
+import type { FaceSnapshot } from '../types/face';
+import { parseHexColor } from './blend';
+import { computeFaceBox } from './face';
+
+export type SceneLightingOptions = {
+    // Follow the camera frame; when off the manual colour and direction below are used.
+    auto: boolean;
+    // Reflect a blurred copy of the camera frame in the avatar's PBR materials.
+    environment: boolean;
+    // Exposure multiplier applied in both modes.
+    intensity: number;
+    color: string;
+    // Degrees; positive azimuth lights from the viewer's right, positive elevation from above.
+    azimuth: number;
+    elevation: number;
+};
+
+export const DEFAULT_SCENE_LIGHTING: SceneLightingOptions = {
+    auto: true,
+    environment: false,
+    intensity: 1,
+    color: '#ffffff',
+    azimuth: 0,
+    elevation: 20,
+};
+
+export type LightEstimate = {
+    // Light colour with its brightest channel at 1.
+    color: [number, number, number];
+    // Correlated colour temperature in kelvin, for display.
+    temperature: number;
+    // Mean luma of the frame, 0..1.
+    brightness: number;
+    // Unit vector towards the light in overlay space (x right, y up, z towards the viewer).
+    direction: [number, number, number];
+};
+
+export const NEUTRAL_LIGHT_ESTIMATE: LightEstimate = {
+    color: [1, 1, 1],
+    temperature: 6500,
+    brightness: 0.45,
+    direction: [0, 0, 1],
+};
+
+/** What the overlay reads each frame; `environment` is the downscaled frame in output (mirrored) orientation. */
+export type SceneLightFrame = {
+    estimate: LightEstimate;
+    environment: HTMLCanvasElement | null;
+    updatedAt: number;
+};
+
+const FRAME_SAMPLE_WIDTH = 64;
+const FRAME_SAMPLE_HEIGHT = 32;
+const FACE_SAMPLE_SIZE = 24;
+// How far a room colour cast may tint the avatar; walls are rarely white.
+const COLOR_STRENGTH = 0.6;
+// Maps the shading imbalance across the face to a light angle.
+const DIRECTION_GAIN = 3;
+
+/** McCamy's approximation from linear-ish sRGB. */
+function colorTemperature(r: number, g: number, b: number) {
+    const X = 0.4124 * r + 0.3576 * g + 0.1805 * b;
+    const Y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    const Z = 0.0193 * r + 0.1192 * g + 0.9505 * b;
+    const sum = X + Y + Z;
+    if (sum <= 0) return NEUTRAL_LIGHT_ESTIMATE.temperature;
+    const n = (X / sum - 0.332) / (0.1858 - Y / sum);
+    const kelvin = 449 * n ** 3 + 3525 * n ** 2 + 6823.3 * n + 5520.33;
+    return Math.min(12000, Math.max(1500, kelvin));
+}
+
+/** Grey-world colour cast and mean brightness of an RGBA frame. */
+export function estimateFrameLight(pixels: Uint8ClampedArray): Pick<LightEstimate, 'color' | 'temperature' | 'brightness'> {
+    let r = 0;
+    let g = 0;
+    let b = 0;
+    const count = pixels.length / 4;
+    for (let i = 0; i < pixels.length; i += 4) {
+        r += pixels[i];
+        g += pixels[i + 1];
+        b += pixels[i + 2];
+    }
+    if (count === 0) return NEUTRAL_LIGHT_ESTIMATE;
+    r /= count * 255;
+    g /= count * 255;
+    b /= count * 255;
+    const peak = Math.max(r, g, b, 1e-4);
+    const tint = (value: number) => 1 - COLOR_STRENGTH + COLOR_STRENGTH * (value / peak);
+    return {
+        color: [tint(r), tint(g), tint(b)],
+        temperature: colorTemperature(r, g, b),
+        brightness: 0.2126 * r + 0.7152 * g + 0.0722 * b,
+    };
+}
+
+/**
+ * Rough key-light direction from the shading of a square face crop (RGBA,
+ * unmirrored): the luma centroid inside the face ellipse leans towards the lit
+ * side. Returns a unit vector in image orientation (x right, y up).
+ */
+export function estimateFaceLightDirection(pixels: Uint8ClampedArray, size: number): [number, number, number] {
+    let sum = 0;
+    let sumX = 0;
+    let sumY = 0;
+    for (let y = 0; y < size; y++) {
+        for (let x = 0; x < size; x++) {
+            const nx = (x + 0.5) / size * 2 - 1;
+            const ny = (y + 0.5) / size * 2 - 1;
+            // Stay inside the face so hair and background do not count.
+            if (nx * nx + ny * ny > 0.8) continue;
+            const idx = (y * size + x) * 4;
+            const luma = 0.2126 * pixels[idx] + 0.7152 * pixels[idx + 1] + 0.0722 * pixels[idx + 2];
+            sum += luma;
+            sumX += luma * nx;
+            sumY += luma * ny;
+        }
+    }
+    if (sum <= 0) return NEUTRAL_LIGHT_ESTIMATE.direction;
+    const x = (sumX / sum) * DIRECTION_GAIN;
+    const y = -(sumY / sum) * DIRECTION_GAIN;
+    const length = Math.hypot(x, y, 1);
+    return [x / length, y / length, 1 / length];
+}
+
+/** Light estimate from the manual override settings. */
+export function manualLightEstimate(options: SceneLightingOptions): LightEstimate {
+    const [r, g, b] = parseHexColor(options.color, [1, 1, 1]);
+    const azimuth = options.azimuth * Math.PI / 180;
+    const elevation = options.elevation * Math.PI / 180;
+    return {
+        color: [r, g, b],
+        temperature: colorTemperature(r, g, b),
+        brightness: NEUTRAL_LIGHT_ESTIMATE.brightness,
+        direction: [
+            Math.sin(azimuth) * Math.cos(elevation),
+            Math.sin(elevation),
+            Math.cos(azimuth) * Math.cos(elevation),
+        ],
+    };
+}
+
+/**
+ * Samples the camera frame a few times per second into small canvases and
+ * keeps an exponentially smoothed estimate, so flicker and a passing hand do
+ * not make the avatar's lighting jump. Use one instance per video stream.
+ */
+export class LightEstimator {
+    private frameCanvas: HTMLCanvasElement | null = null;
+    private faceCanvas: HTMLCanvasElement | null = null;
+    private estimate: LightEstimate | null = null;
+
+    sample(
+        video: HTMLVideoElement,
+        landmarks: FaceSnapshot['landmarks'] | null,
+        mirror: boolean,
+        smoothing = 0.7
+    ): SceneLightFrame | null {
+        if (!this.frameCanvas) {
+            this.frameCanvas = document.createElement('canvas');
+            this.frameCanvas.width = FRAME_SAMPLE_WIDTH;
+            this.frameCanvas.height = FRAME_SAMPLE_HEIGHT;
+            this.faceCanvas = document.createElement('canvas');
+            this.faceCanvas.width = FACE_SAMPLE_SIZE;
+            this.faceCanvas.height = FACE_SAMPLE_SIZE;
+        }
+        const frameCtx = this.frameCanvas.getContext('2d', { willReadFrequently: true });
+        const faceCtx = this.faceCanvas!.getContext('2d', { willReadFrequently: true });
+        if (!frameCtx || !faceCtx || !video.videoWidth || !video.videoHeight) return null;
+
+        frameCtx.save();
+        if (mirror) {
+            frameCtx.scale(-1, 1);
+            frameCtx.translate(-FRAME_SAMPLE_WIDTH, 0);
+        }
+        frameCtx.drawImage(video, 0, 0, FRAME_SAMPLE_WIDTH, FRAME_SAMPLE_HEIGHT);
+        frameCtx.restore();
+        const frameLight = estimateFrameLight(frameCtx.getImageData(0, 0, FRAME_SAMPLE_WIDTH, FRAME_SAMPLE_HEIGHT).data);
+
+        let direction = this.estimate?.direction ?? NEUTRAL_LIGHT_ESTIMATE.direction;
+        if (landmarks && landmarks.length > 0) {
+            const box = computeFaceBox(landmarks, video.videoWidth, video.videoHeight, 0, 0, 0, false);
+            if (box.width > 1 && box.height > 1) {
+                faceCtx.drawImage(video, box.x, box.y, box.width, box.height, 0, 0, FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE);
+                const [x, y, z] = estimateFaceLightDirection(
+                    faceCtx.getImageData(0, 0, FACE_SAMPLE_SIZE, FACE_SAMPLE_SIZE).data,
+                    FACE_SAMPLE_SIZE
+                );
+                direction = [mirror ? -x : x, y, z];
+            }
+        }
+
+        const previous = this.estimate;
+        const keep = previous ? Math.min(0.95, Math.max(0, smoothing)) : 0;
+        const mix = (from: number, to: number) => from * keep + to * (1 - keep);
+        const mixed = previous
+            ? direction.map((value, i) => mix(previous.direction[i], value))
+            : direction;
+        const length = Math.hypot(mixed[0], mixed[1], mixed[2]) || 1;
+        this.estimate = {
+            color: previous
+                ? [0, 1, 2].map((i) => mix(previous.color[i], frameLight.color[i])) as [number, number, number]
+                : frameLight.color,
+            temperature: previous ? mix(previous.temperature, frameLight.temperature) : frameLight.temperature,
+            brightness: previous ? mix(previous.brightness, frameLight.brightness) : frameLight.brightness,
+            direction: [mixed[0] / length, mixed[1] / length, mixed[2] / length],
+        };
+        return { estimate: this.estimate, environment: this.frameCanvas, updatedAt: performance.now() };
+    }
+
+    reset() {
+        this.estimate = null;
+    }
+}
@@ -0,0 +1,63 @@
+import type { FaceSnapshot, FrameSize } from '../types/face';
+import { triangulate } from './faceMesh';
+
+export type AvatarOcclusionOptions = {
+    // Live face mesh that hides avatar parts behind the user's face.
+    head: boolean;
+    // Person segmentation mask as a flat occluder at head-centre depth (hair, neck, shoulders).
+    body: boolean;
+    // Moves the face occluder towards the camera (+) or away (-), in face widths.
+    depthOffset: number;
+};
+
+export const DEFAULT_AVATAR_OCCLUSION: AvatarOcclusionOptions = {
+    head: false,
+    body: false,
+    depthOffset: 0,
+};
+
+/** Person coverage drawn with `drawMaskAlpha`, handed from the compositor to the avatar overlay. */
+export type PersonMaskFrame = {
+    canvas: HTMLCanvasElement;
+    updatedAt: number;
+};
+
+/**
+ * Triangle indices for the landmark mesh, from a Delaunay triangulation of one
+ * frame. The topology stays valid while the head moves, so it is built once.
+ */
+export function triangulateLandmarks(landmarks: FaceSnapshot['landmarks']): Uint16Array {
+    const triangles = triangulate(landmarks.map((pt) => ({ x: pt.x, y: pt.y })));
+    const indices = new Uint16Array(triangles.length * 3);
+    triangles.forEach((triangle, i) => indices.set(triangle, i * 3));
+    return indices;
+}
+
+/**
+ * Writes the landmarks as overlay-space vertices (origin at the centre, y up,
+ * z towards the camera) into `positions`. MediaPipe depth is relative to the
+ * head centre and scaled like x, which is where the avatar's origin sits too.
+ */
+export function writeOccluderPositions(
+    positions: Float32Array,
+    landmarks: FaceSnapshot['landmarks'],
+    frame: FrameSize,
+    viewport: { width: number; height: number },
+    mirror: boolean,
+    depthOffset: number
+) {
+    const scaleX = viewport.width / frame.width;
+    const scaleY = viewport.height / frame.height;
+    const cheekLeft = landmarks[234];
+    const cheekRight = landmarks[454];
+    const faceWidth = cheekLeft && cheekRight
+        ? Math.hypot(cheekRight.x - cheekLeft.x, cheekRight.y - cheekLeft.y) * frame.width * scaleX
+        : 0;
+    const offsetZ = depthOffset * faceWidth;
+    landmarks.forEach((pt, i) => {
+        const x = mirror ? 1 - pt.x : pt.x;
+        positions[i * 3] = x * frame.width * scaleX - viewport.width * 0.5;
+        positions[i * 3 + 1] = viewport.height * 0.5 - pt.y * frame.height * scaleY;
+        positions[i * 3 + 2] = -(pt.z ?? 0) * frame.width * scaleX + offsetZ;
+    });
+}
@@ -0,0 +1,130 @@
+export type QualityLevel = {
+    label: string;
+    // Fraction of the camera resolution fed to the models.
+    inferenceScale: number;
+    // Segment every Nth frame and reuse the last mask in between.
+    segmentationInterval: number;
+    // Upper bound on the avatar canvas device pixel ratio.
+    avatarDpr: number;
+    // Gaussian blur for the background and mask feathering; off falls back to cheap scaling.
+    blur: boolean;
+};
+
+// Ordered from best to cheapest; the governor steps one level at a time.
+export const QUALITY_LEVELS: QualityLevel[] = [
+    { label: 'Full', inferenceScale: 1, segmentationInterval: 1, avatarDpr: 1.5, blur: true },
+    { label: 'High', inferenceScale: 0.75, segmentationInterval: 1, avatarDpr: 1.25, blur: true },
+    { label: 'Medium', inferenceScale: 0.6, segmentationInterval: 2, avatarDpr: 1, blur: true },
+    { label: 'Low', inferenceScale: 0.5, segmentationInterval: 3, avatarDpr: 0.9, blur: false },
+    { label: 'Minimum', inferenceScale: 0.4, segmentationInterval: 4, avatarDpr: 0.75, blur: false },
+];
+
+// 'auto' lets the governor choose; a number pins that index of QUALITY_LEVELS.
+export type QualityPin = 'auto' | number;
+
+export const readQualityPin = (): QualityPin => {
+    try {
+        const stored = window.localStorage.getItem('qualityPin');
+        const level = stored === null ? NaN : Number(stored);
+        if (Number.isInteger(level) && level >= 0 && level < QUALITY_LEVELS.length) {
+            return level;
+        }
+    } catch {
+        // Ignore storage access errors.
+    }
+    return 'auto';
+};
+
+export type PerformanceStats = {
+    frameMs: number;
+    inferenceMs: number;
+};
+
+/**
+ * Watches render-loop work time and inference latency and steps through
+ * QUALITY_LEVELS: down once the budget has been blown for `slowMs`, back up
+ * after `headroomMs` comfortably under it. Every change waits `settleMs` so
+ * the averages reflect the new level before the next decision.
+ */
+export class PerformanceGovernor {
+    level = 0;
+    private frameMs = 0;
+    private inferenceMs = 0;
+    private slowSince = 0;
+    private fastSince = 0;
+    private changedAt = 0;
+
+    constructor(
+        private budgetMs = 33,
+        private slowMs = 1500,
+        private headroomMs = 5000,
+        private settleMs = 2000,
+        private smoothing = 0.1
+    ) { }
+
+    recordFrame(workMs: number) {
+        this.frameMs = this.frameMs === 0 ? workMs : this.frameMs + this.smoothing * (workMs - this.frameMs);
+    }
+
+    recordInference(latencyMs: number) {
+        this.inferenceMs = this.inferenceMs === 0
+            ? latencyMs
+            : this.inferenceMs + this.smoothing * (latencyMs - this.inferenceMs);
+    }
+
+    /** Returns the level to render at. A pinned level wins; unpinning resumes from it. */
+    update(now: number, pin: QualityPin) {
+        if (pin !== 'auto') {
+            this.level = pin;
+            this.changedAt = now;
+            this.slowSince = 0;
+            this.fastSince = 0;
+            return this.level;
+        }
+        if (now - this.changedAt < this.settleMs) {
+            return this.level;
+        }
+        // Worker inference runs alongside rendering, so its latency gets two frames of budget.
+        const load = Math.max(this.frameMs, this.inferenceMs / 2);
+        if (load > this.budgetMs) {
+            this.fastSince = 0;
+            this.slowSince ||= now;
+            if (now - this.slowSince >= this.slowMs && this.level < QUALITY_LEVELS.length - 1) {
+                this.setLevel(this.level + 1, now);
+            }
+        } else if (load < this.budgetMs * 0.6) {
+            this.slowSince = 0;
+            this.fastSince ||= now;
+            if (now - this.fastSince >= this.headroomMs && this.level > 0) {
+                this.setLevel(this.level - 1, now);
+            }
+        } else {
+            this.slowSince = 0;
+            this.fastSince = 0;
+        }
+        return this.level;
+    }
+
+    getStats(): PerformanceStats {
+        return { frameMs: this.frameMs, inferenceMs: this.inferenceMs };
+    }
+
+    reset() {
+        this.level = 0;
+        this.frameMs = 0;
+        this.inferenceMs = 0;
+        this.slowSince = 0;
+        this.fastSince = 0;
+        this.changedAt = 0;
+    }
+
+    private setLevel(level: number, now: number) {
+        this.level = level;
+        this.changedAt = now;
+        this.slowSince = 0;
+        this.fastSince = 0;
+        // Start the new level from a clean average rather than the one that caused the change.
+        this.frameMs = 0;
+        this.inferenceMs = 0;
+    }
+}
@@ -0,0 +1,129 @@
+import type { PoseLandmarkerResult } from '@mediapipe/tasks-vision';
+import type { FaceDetection } from '../types/face';
+import type { PoseLandmark, PoseSnapshot, UpperBodyPose } from '../types/pose';
+
+// BlazePose landmark indices used for the upper body.
+const NOSE = 0;
+const EAR_LEFT = 7;
+const EAR_RIGHT = 8;
+const SHOULDER_LEFT = 11;
+const SHOULDER_RIGHT = 12;
+const HIP_LEFT = 23;
+const HIP_RIGHT = 24;
+// Face mesh nose tip, matched against the pose nose.
+const FACE_NOSE = 1;
+
+const MIN_VISIBILITY = 0.5;
+const MAX_YAW = Math.PI / 4;
+const MAX_PITCH = Math.PI / 6;
+const MAX_ROLL = Math.PI / 6;
+// Ear-to-shoulder drop, in shoulder widths, that counts as a full shrug.
+const SHRUG_RANGE = 0.12;
+// How fast the relaxed-shoulder baseline creeps back down, per solve.
+const SHRUG_BASELINE_DECAY = 0.002;
+
+export const REST_UPPER_BODY: UpperBodyPose = { yaw: 0, pitch: 0, roll: 0, shrugLeft: 0, shrugRight: 0 };
+
+const visible = (pt: PoseLandmark | undefined): pt is PoseLandmark => Boolean(pt) && (pt!.visibility ?? 1) >= MIN_VISIBILITY;
+
+/**
+ * Gives each face detection the pose whose nose is closest to its own, within
+ * one face width. Mutates `detections` so the tracker carries the pose along.
+ */
+export function attachPoses(detections: FaceDetection[], result: PoseLandmarkerResult) {
+    const poses = result.landmarks.map((landmarks, index) => ({
+        landmarks,
+        worldLandmarks: result.worldLandmarks[index] ?? [],
+    }));
+    const pairs: Array<{ face: number; pose: number; distance: number }> = [];
+    detections.forEach((detection, faceIndex) => {
+        const nose = detection.landmarks[FACE_NOSE];
+        const cheekLeft = detection.landmarks[234];
+        const cheekRight = detection.landmarks[454];
+        if (!nose || !cheekLeft || !cheekRight) return;
+        const faceWidth = Math.max(1e-3, Math.hypot(cheekRight.x - cheekLeft.x, cheekRight.y - cheekLeft.y));
+        poses.forEach((pose, poseIndex) => {
+            const poseNose = pose.landmarks[NOSE];
+            if (!poseNose) return;
+            const distance = Math.hypot(poseNose.x - nose.x, poseNose.y - nose.y) / faceWidth;
+            if (distance <= 1) {
+                pairs.push({ face: faceIndex, pose: poseIndex, distance });
+            }
+        });
+    });
+    pairs.sort((a, b) => a.distance - b.distance);
+    const usedPoses = new Set<number>();
+    for (const pair of pairs) {
+        if (detections[pair.face].pose || usedPoses.has(pair.pose)) continue;
+        detections[pair.face].pose = poses[pair.pose];
+        usedPoses.add(pair.pose);
+    }
+}
+
+/**
+ * Turns world landmarks into torso rotation and shoulder shrug. Shrug is
+ * measured against the most relaxed shoulder height seen recently, so keep one
+ * instance per tracked face.
+ */
+export class UpperBodySolver {
+    private shrugBaseline: [number, number] | null = null;
+
+    solve(pose: PoseSnapshot, mirror: boolean): UpperBodyPose | null {
+        const world = pose.worldLandmarks;
+        const shoulderLeft = world[SHOULDER_LEFT];
+        const shoulderRight = world[SHOULDER_RIGHT];
+        if (!visible(shoulderLeft) || !visible(shoulderRight)) return null;
+
+        // Image axes (y down, z away) to the overlay's (y up, z towards the viewer).
+        const across = {
+            x: shoulderLeft.x - shoulderRight.x,
+            y: -(shoulderLeft.y - shoulderRight.y),
+            z: -(shoulderLeft.z - shoulderRight.z),
+        };
+        const shoulderWidth = Math.max(1e-3, Math.hypot(across.x, across.y, across.z));
+        let yaw = Math.atan2(-across.z, across.x);
+        let roll = Math.atan2(across.y, Math.hypot(across.x, across.z));
+
+        let pitch = 0;
+        const hipLeft = world[HIP_LEFT];
+        const hipRight = world[HIP_RIGHT];
+        if (visible(hipLeft) && visible(hipRight)) {
+            const spineY = -((shoulderLeft.y + shoulderRight.y) - (hipLeft.y + hipRight.y)) * 0.5;
+            const spineZ = -((shoulderLeft.z + shoulderRight.z) - (hipLeft.z + hipRight.z)) * 0.5;
+            pitch = Math.atan2(spineZ, spineY);
+        }
+
+        // Shoulder drop below the ear, in shoulder widths; a shrug makes it smaller.
+        const drop = (shoulder: PoseLandmark, ear: PoseLandmark | undefined) => (
+            visible(ear) ? (shoulder.y - ear.y) / shoulderWidth : null
+        );
+        const drops: [number | null, number | null] = [
+            drop(shoulderLeft, world[EAR_LEFT]),
+            drop(shoulderRight, world[EAR_RIGHT]),
+        ];
+        const baseline = this.shrugBaseline ?? [drops[0] ?? 0, drops[1] ?? 0];
+        const shrug = drops.map((value, side) => {
+            if (value === null) return 0;
+            baseline[side] = Math.max(value, baseline[side] - SHRUG_BASELINE_DECAY);
+            return Math.min(1, Math.max(0, (baseline[side] - value) / SHRUG_RANGE));
+        });
+        this.shrugBaseline = baseline;
+
+        if (mirror) {
+            yaw = -yaw;
+            roll = -roll;
+        }
+        return {
+            yaw: Math.min(MAX_YAW, Math.max(-MAX_YAW, yaw)),
+            pitch: Math.min(MAX_PITCH, Math.max(-MAX_PITCH, pitch)),
+            roll: Math.min(MAX_ROLL, Math.max(-MAX_ROLL, roll)),
+            // A mirrored avatar moves the shoulder on the same side of the screen as the user's.
+            shrugLeft: mirror ? shrug[1] : shrug[0],
+            shrugRight: mirror ? shrug[0] : shrug[1],
+        };
+    }
+
+    reset() {
+        this.shrugBaseline = null;
+    }
+}
@@ -0,0 +1,100 @@
+import type { Point2D } from '../types/face';
+import { FACE_OVAL_INDICES } from './blend';
+
+export type PrivacyMode = 'off' | 'blur' | 'pixelate' | 'solid';
+
+export type PrivacyOptions = {
+    mode: Exclude<PrivacyMode, 'off'>;
+    color: string;
+    // Scratch canvas reused across frames for the blurred / pixelated copy.
+    scratch: HTMLCanvasElement;
+};
+
+/**
+ * Face-oval polygon in frame pixels, grown around its centre so hairline, ears
+ * and jaw edges are covered too.
+ */
+export function computePrivacyRegion(
+    landmarks: Array<{ x: number; y: number }>,
+    frameWidth: number,
+    frameHeight: number,
+    mirrorX: boolean,
+    grow = 1.25
+): Point2D[] | null {
+    const points: Point2D[] = [];
+    for (const index of FACE_OVAL_INDICES) {
+        const pt = landmarks[index];
+        if (!pt) return null;
+        points.push({ x: (mirrorX ? 1 - pt.x : pt.x) * frameWidth, y: pt.y * frameHeight });
+    }
+    const cx = points.reduce((sum, pt) => sum + pt.x, 0) / points.length;
+    const cy = points.reduce((sum, pt) => sum + pt.y, 0) / points.length;
+    return points.map((pt) => ({ x: cx + (pt.x - cx) * grow, y: cy + (pt.y - cy) * grow }));
+}
+
+/**
+ * Obscures `regions` of what is already drawn on `canvas`. Pass `null` to cover
+ * the whole frame, which is always a heavy blur so nothing leaks through.
+ * Expects an identity transform on `ctx`.
+ */
+export function applyPrivacy(
+    ctx: CanvasRenderingContext2D,
+    canvas: HTMLCanvasElement,
+    regions: Point2D[][] | null,
+    options: PrivacyOptions
+) {
+    const { width, height } = canvas;
+    const scratch = options.scratch;
+    const scratchCtx = scratch.getContext('2d');
+    if (!scratchCtx) return;
+    const mode = regions ? options.mode : 'blur';
+    const blurRadius = Math.max(8, Math.round(width / (regions ? 40 : 25)));
+
+    if (mode === 'blur') {
+        if (scratch.width !== width || scratch.height !== height) {
+            scratch.width = width;
+            scratch.height = height;
+        }
+        scratchCtx.save();
+        scratchCtx.filter = `blur(${blurRadius}px)`;
+        scratchCtx.drawImage(canvas, 0, 0);
+        scratchCtx.restore();
+    } else if (mode === 'pixelate') {
+        const block = Math.max(6, Math.round(width / 64));
+        const smallWidth = Math.max(1, Math.round(width / block));
+        const smallHeight = Math.max(1, Math.round(height / block));
+        if (scratch.width !== smallWidth || scratch.height !== smallHeight) {
+            scratch.width = smallWidth;
+            scratch.height = smallHeight;
+        }
+        scratchCtx.drawImage(canvas, 0, 0, smallWidth, smallHeight);
+    }
+
+    ctx.save();
+    if (regions) {
+        ctx.beginPath();
+        for (const region of regions) {
+            region.forEach((pt, i) => {
+                if (i === 0) {
+                    ctx.moveTo(pt.x, pt.y);
+                } else {
+                    ctx.lineTo(pt.x, pt.y);
+                }
+            });
+            ctx.closePath();
+        }
+        ctx.clip();
+    } else {
+        // Blurred edges turn translucent; start from black so no original pixels show through.
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, width, height);
+    }
+    if (mode === 'solid') {
+        ctx.fillStyle = options.color;
+        ctx.fillRect(0, 0, width, height);
+    } else {
+        ctx.imageSmoothingEnabled = mode !== 'pixelate';
+        ctx.drawImage(scratch, 0, 0, width, height);
+    }
+    ctx.restore();
+}
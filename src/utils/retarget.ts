@@ -0,0 +1,114 @@
+import type { Avatar, RetargetCurve, RetargetProfile, RetargetTarget } from '../types/avatar';
+import { ARKIT_BLENDSHAPES } from './avatar';
+import { VRM_EXPRESSION_SOURCES } from './vrm';
+
+export const RETARGET_CURVES: RetargetCurve[] = ['linear', 'easeIn', 'easeOut', 'smoothstep'];
+
+const DEFAULT_SMOOTHING = 0.25;
+const DEFAULT_EYE_LOOK_SMOOTHING = 0.15;
+// Eye-look morphs on most models overshoot at full strength.
+const DEFAULT_EYE_LOOK_GAIN = 0.4;
+
+export function createRetargetTarget(target: string, gain = 1): RetargetTarget {
+    return { target, gain, offset: 0, min: 0, max: 1, curve: 'linear' };
+}
+
+/**
+ * Mapping used until the user edits one: ARKit names onto same-named morph
+ * targets, or onto VRM expression presets (averaging their sources).
+ */
+export function createDefaultRetargetProfile(avatar: Pick<Avatar, 'format' | 'report'>): RetargetProfile {
+    const mappings: Record<string, RetargetTarget[]> = {};
+    if (avatar.format === 'vrm') {
+        const available = avatar.report?.expressions;
+        Object.entries(VRM_EXPRESSION_SOURCES).forEach(([expression, sources]) => {
+            if (available && !available.includes(expression)) return;
+            sources.forEach((source) => {
+                mappings[source] = [...(mappings[source] ?? []), createRetargetTarget(expression, 1 / sources.length)];
+            });
+        });
+    } else {
+        // Before the model has been inspected, map every name; missing morphs are skipped when applied.
+        const morphs = avatar.report?.morphTargetNames;
+        const names = morphs && morphs.length > 0
+            ? ARKIT_BLENDSHAPES.filter((name) => morphs.includes(name))
+            : ARKIT_BLENDSHAPES;
+        names.forEach((name) => {
+            mappings[name] = [createRetargetTarget(name, name.startsWith('eyeLook') ? DEFAULT_EYE_LOOK_GAIN : 1)];
+        });
+    }
+    return { mappings, smoothing: DEFAULT_SMOOTHING, eyeLookSmoothing: DEFAULT_EYE_LOOK_SMOOTHING };
+}
+
+function applyCurve(curve: RetargetCurve, value: number) {
+    switch (curve) {
+        case 'easeIn':
+            return value * value;
+        case 'easeOut':
+            return 1 - (1 - value) * (1 - value);
+        case 'smoothstep':
+            return value * value * (3 - 2 * value);
+        default:
+            return value;
+    }
+}
+
+export function evaluateRetargetTarget(mapping: RetargetTarget, score: number) {
+    const shaped = applyCurve(mapping.curve, Math.min(1, Math.max(0, score)));
+    return Math.min(mapping.max, Math.max(mapping.min, shaped * mapping.gain + mapping.offset));
+}
+
+/**
+ * Maps (smoothed) blendshape scores to output weights. Contributions to the
+ * same output are summed and the total is clamped to 0..1.
+ */
+export function evaluateRetarget(profile: RetargetProfile, scores: Record<string, number>): Map<string, number> {
+    const outputs = new Map<string, number>();
+    Object.entries(profile.mappings).forEach(([source, targets]) => {
+        const score = scores[source] ?? 0;
+        targets.forEach((mapping) => {
+            outputs.set(mapping.target, (outputs.get(mapping.target) ?? 0) + evaluateRetargetTarget(mapping, score));
+        });
+    });
+    outputs.forEach((value, target) => outputs.set(target, Math.min(1, Math.max(0, value))));
+    return outputs;
+}
+
+function parseTarget(value: unknown): RetargetTarget | null {
+    if (!value || typeof value !== 'object') return null;
+    const source = value as Partial<RetargetTarget>;
+    if (typeof source.target !== 'string' || !source.target) return null;
+    const number = (input: unknown, fallback: number) => (
+        typeof input === 'number' && Number.isFinite(input) ? input : fallback
+    );
+    return {
+        target: source.target,
+        gain: number(source.gain, 1),
+        offset: number(source.offset, 0),
+        min: number(source.min, 0),
+        max: number(source.max, 1),
+        curve: RETARGET_CURVES.includes(source.curve as RetargetCurve) ? source.curve as RetargetCurve : 'linear',
+    };
+}
+
+export function parseRetargetProfile(value: unknown): RetargetProfile | undefined {
+    if (!value || typeof value !== 'object') return undefined;
+    const source = value as Partial<RetargetProfile>;
+    if (!source.mappings || typeof source.mappings !== 'object') return undefined;
+    const mappings: Record<string, RetargetTarget[]> = {};
+    Object.entries(source.mappings).forEach(([name, targets]) => {
+        if (!Array.isArray(targets)) return;
+        const parsed = targets.map(parseTarget).filter((target): target is RetargetTarget => Boolean(target));
+        if (parsed.length > 0) {
+            mappings[name] = parsed;
+        }
+    });
+    const smoothing = (input: unknown, fallback: number) => (
+        typeof input === 'number' && input > 0 && input <= 1 ? input : fallback
+    );
+    return {
+        mappings,
+        smoothing: smoothing(source.smoothing, DEFAULT_SMOOTHING),
+        eyeLookSmoothing: smoothing(source.eyeLookSmoothing, DEFAULT_EYE_LOOK_SMOOTHING),
+    };
+}
@@ -0,0 +1,254 @@
+import type { PersonMaskKind, SegmentationMask, SegmentationMasks } from '../types/segmentation';
+
+export type MaskRefinementOptions = {
+    // 0 = use each frame as-is, closer to 1 = heavier averaging across frames.
+    temporalSmoothing: number;
+    // Confidence at which a pixel counts as half person, half background.
+    threshold: number;
+    // Width of the ramp around `threshold`; 0 gives a hard cut.
+    softness: number;
+    // Blur radius in output pixels applied to the mask edge when compositing.
+    feather: number;
+    // Snap the mask to edges in the video frame (joint bilateral filter).
+    edgeAware: boolean;
+};
+
+export const DEFAULT_MASK_REFINEMENT: MaskRefinementOptions = {
+    temporalSmoothing: 0.6,
+    threshold: 0.5,
+    softness: 0.25,
+    feather: 2,
+    edgeAware: false,
+};
+
+const BILATERAL_RADIUS = 2;
+const BILATERAL_SPATIAL_SIGMA = 1.5;
+const BILATERAL_RANGE_SIGMA = 24;
+
+// Range weights indexed by absolute luma difference (0-255).
+const rangeWeights = new Float32Array(256).map((_, diff) =>
+    Math.exp(-(diff * diff) / (2 * BILATERAL_RANGE_SIGMA * BILATERAL_RANGE_SIGMA))
+);
+
+const spatialWeights = (() => {
+    const size = BILATERAL_RADIUS * 2 + 1;
+    const weights = new Float32Array(size * size);
+    for (let dy = -BILATERAL_RADIUS; dy <= BILATERAL_RADIUS; dy++) {
+        for (let dx = -BILATERAL_RADIUS; dx <= BILATERAL_RADIUS; dx++) {
+            weights[(dy + BILATERAL_RADIUS) * size + dx + BILATERAL_RADIUS] = Math.exp(
+                -(dx * dx + dy * dy) / (2 * BILATERAL_SPATIAL_SIGMA * BILATERAL_SPATIAL_SIGMA)
+            );
+        }
+    }
+    return weights;
+})();
+
+function smoothstep(edge0: number, edge1: number, value: number) {
+    if (edge1 <= edge0) return value >= edge0 ? 1 : 0;
+    const t = Math.min(1, Math.max(0, (value - edge0) / (edge1 - edge0)));
+    return t * t * (3 - 2 * t);
+}
+
+/**
+ * Turns per-frame segmentation output into a stable alpha matte: an exponential
+ * moving average across frames, an optional joint bilateral filter guided by the
+ * video frame, then a threshold / softness ramp. Keeps the previous frame's mask,
+ * so use one instance per video stream.
+ */
+export class MaskRefiner {
+    private history: Float32Array | null = null;
+    private scratch: Float32Array | null = null;
+    private luma: Uint8Array | null = null;
+
+    /**
+     * `guide` is the video frame as RGBA at the mask resolution; it is only read
+     * when `options.edgeAware` is set. Returns alpha values in 0..1.
+     */
+    refine(
+        mask: Float32Array | Uint8Array,
+        kind: PersonMaskKind,
+        width: number,
+        height: number,
+        options: MaskRefinementOptions,
+        guide?: Uint8ClampedArray | null
+    ): Float32Array {
+        const count = width * height;
+        if (!this.history || this.history.length !== count) {
+            this.history = null;
+            this.scratch = new Float32Array(count);
+            this.luma = new Uint8Array(count);
+        }
+        const history = this.history;
+        const current = this.scratch!;
+        const keep = history ? Math.min(0.95, Math.max(0, options.temporalSmoothing)) : 0;
+
+        for (let i = 0; i < count; i++) {
+            let value: number;
+            if (kind === 'category') {
+                value = mask[i] > 0 ? 1 : 0;
+            } else {
+                value = Math.min(1, Math.max(0, mask[i]));
+                if (kind === 'inverted-confidence') value = 1 - value;
+            }
+            current[i] = history ? history[i] * keep + value * (1 - keep) : value;
+        }
+        // The smoothed (pre-threshold) confidence is what carries over to the next frame.
+        const smoothed = history ?? new Float32Array(count);
+        smoothed.set(current);
+        this.history = smoothed;
+
+        if (options.edgeAware && guide && guide.length >= count * 4) {
+            this.bilateral(smoothed, current, guide, width, height);
+        }
+
+        const low = options.threshold - options.softness * 0.5;
+        const high = options.threshold + options.softness * 0.5;
+        for (let i = 0; i < count; i++) {
+            current[i] = smoothstep(low, high, current[i]);
+        }
+        return current;
+    }
+
+    reset() {
+        this.history = null;
+    }
+
+    private bilateral(
+        source: Float32Array,
+        target: Float32Array,
+        guide: Uint8ClampedArray,
+        width: number,
+        height: number
+    ) {
+        const luma = this.luma!;
+        for (let i = 0, p = 0; i < luma.length; i++, p += 4) {
+            luma[i] = (guide[p] * 77 + guide[p + 1] * 150 + guide[p + 2] * 29) >> 8;
+        }
+        const size = BILATERAL_RADIUS * 2 + 1;
+        for (let y = 0; y < height; y++) {
+            for (let x = 0; x < width; x++) {
+                const center = y * width + x;
+                const centerLuma = luma[center];
+                let sum = 0;
+                let weightSum = 0;
+                for (let dy = -BILATERAL_RADIUS; dy <= BILATERAL_RADIUS; dy++) {
+                    const sy = y + dy;
+                    if (sy < 0 || sy >= height) continue;
+                    for (let dx = -BILATERAL_RADIUS; dx <= BILATERAL_RADIUS; dx++) {
+                        const sx = x + dx;
+                        if (sx < 0 || sx >= width) continue;
+                        const index = sy * width + sx;
+                        const weight = spatialWeights[(dy + BILATERAL_RADIUS) * size + dx + BILATERAL_RADIUS]
+                            * rangeWeights[Math.abs(luma[index] - centerLuma)];
+                        sum += source[index] * weight;
+                        weightSum += weight;
+                    }
+                }
+                target[center] = weightSum > 0 ? sum / weightSum : source[center];
+            }
+        }
+    }
+}
+
+/** Writes 0..1 coverage values into the alpha channel of a white, mask-sized canvas. */
+export function drawMaskAlpha(ctx: CanvasRenderingContext2D, values: Float32Array, width: number, height: number) {
+    const imageData = ctx.createImageData(width, height);
+    const data = imageData.data;
+    for (let i = 0; i < values.length; i++) {
+        const idx = i * 4;
+        data[idx] = 255;
+        data[idx + 1] = 255;
+        data[idx + 2] = 255;
+        data[idx + 3] = Math.round(Math.min(1, Math.max(0, values[i])) * 255);
+    }
+    ctx.putImageData(imageData, 0, 0);
+}
+
+/**
+ * Recolours the area covered by `maskCanvas` (as drawn by `drawMaskAlpha`) with
+ * the "color" blend mode, which keeps the shading of hair or fabric.
+ */
+export function applyClassTint(
+    ctx: CanvasRenderingContext2D,
+    maskCanvas: HTMLCanvasElement,
+    scratch: HTMLCanvasElement,
+    color: string,
+    strength: number,
+    width: number,
+    height: number
+) {
+    if (strength <= 0) return;
+    if (scratch.width !== width || scratch.height !== height) {
+        scratch.width = width;
+        scratch.height = height;
+    }
+    const scratchCtx = scratch.getContext('2d');
+    if (!scratchCtx) return;
+    scratchCtx.globalCompositeOperation = 'source-over';
+    scratchCtx.clearRect(0, 0, width, height);
+    scratchCtx.fillStyle = color;
+    scratchCtx.fillRect(0, 0, width, height);
+    scratchCtx.globalCompositeOperation = 'destination-in';
+    scratchCtx.drawImage(maskCanvas, 0, 0, width, height);
+    scratchCtx.globalCompositeOperation = 'source-over';
+
+    ctx.save();
+    ctx.globalAlpha = Math.min(1, strength);
+    ctx.globalCompositeOperation = 'color';
+    ctx.drawImage(scratch, 0, 0, width, height);
+    ctx.restore();
+}
+
+/**
+ * A mask held in a plain typed array: what the inference worker posts back,
+ * and what masks are copied to when they must outlive the segmenter callback.
+ * Compositors upload it themselves since it has no WebGL texture.
+ */
+export class ArrayMask implements SegmentationMask {
+    readonly canvas = undefined;
+    private floats: Float32Array | null = null;
+    private bytes: Uint8Array | null = null;
+
+    constructor(readonly width: number, readonly height: number, data: Float32Array | Uint8Array) {
+        if (data instanceof Float32Array) {
+            this.floats = data;
+        } else {
+            this.bytes = data;
+        }
+    }
+
+    hasWebGLTexture() {
+        return false;
+    }
+
+    getAsWebGLTexture(): WebGLTexture {
+        throw new Error('Array masks have no WebGL texture');
+    }
+
+    getAsFloat32Array() {
+        this.floats ??= Float32Array.from(this.bytes ?? []);
+        return this.floats;
+    }
+
+    getAsUint8Array() {
+        this.bytes ??= Uint8Array.from(this.floats ?? [], (value) => Math.round(value * 255));
+        return this.bytes;
+    }
+}
+
+/** CPU copies of segmenter masks, which MediaPipe frees once its callback returns. */
+export function copySegmentationMasks(masks: SegmentationMasks): SegmentationMasks {
+    const copy = (mask: SegmentationMask, category: boolean) => new ArrayMask(
+        mask.width,
+        mask.height,
+        category ? mask.getAsUint8Array().slice() : mask.getAsFloat32Array().slice()
+    );
+    const classes: SegmentationMasks['classes'] = {};
+    (Object.keys(masks.classes) as Array<keyof SegmentationMasks['classes']>).forEach((name) => {
+        const mask = masks.classes[name];
+        if (mask) {
+            classes[name] = copy(mask, false);
+        }
+    });
+    return { person: copy(masks.person, masks.personKind === 'category'), personKind: masks.personKind, classes };
+}
@@ -0,0 +1,32 @@
+export type OverlayCapture = (ctx: CanvasRenderingContext2D, width: number, height: number) => void;
+
+/**
+ * Saves the output canvas as a PNG download, with `drawOverlay` (the 3D
+ * avatar layer) composited on top when given.
+ */
+export function saveSnapshot(source: HTMLCanvasElement, drawOverlay?: OverlayCapture | null): Promise<void> {
+    const canvas = document.createElement('canvas');
+    canvas.width = source.width;
+    canvas.height = source.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return Promise.reject(new Error('Canvas 2D is not available.'));
+    ctx.drawImage(source, 0, 0);
+    drawOverlay?.(ctx, canvas.width, canvas.height);
+
+    return new Promise((resolve, reject) => {
+        canvas.toBlob((blob) => {
+            if (!blob) {
+                reject(new Error('Failed to encode the snapshot.'));
+                return;
+            }
+            const url = URL.createObjectURL(blob);
+            const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `snapshot-${stamp}.png`;
+            link.click();
+            window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+            resolve();
+        }, 'image/png');
+    });
+}
@@ -0,0 +1,208 @@
+import type { Point2D } from '../types/face';
+import type { Sticker, StickerDefinition, StickerRotationMode } from '../types/sticker';
+
+// Named anchors accepted in sticker files instead of raw landmark indices.
+export const STICKER_ANCHORS: Record<string, number[]> = {
+    noseBridge: [168, 6],
+    noseTip: [1],
+    forehead: [10, 151],
+    upperLip: [0, 164],
+    chin: [152],
+    eyeLeft: [33, 133],
+    eyeRight: [362, 263],
+    cheekLeft: [234],
+    cheekRight: [454],
+};
+
+const rotationModes: StickerRotationMode[] = ['none', 'roll', 'pose'];
+
+function parseAnchor(value: unknown, name: string): number[] {
+    if (typeof value === 'string') {
+        const preset = STICKER_ANCHORS[value];
+        if (!preset) {
+            throw new Error(`Sticker "${name}": unknown anchor "${value}".`);
+        }
+        return preset;
+    }
+    if (typeof value === 'number') {
+        value = [value];
+    }
+    if (
+        Array.isArray(value)
+        && value.length > 0
+        && value.every((index) => Number.isInteger(index) && index >= 0 && index < 478)
+    ) {
+        return value as number[];
+    }
+    throw new Error(`Sticker "${name}": anchor must be a preset name or landmark indices (0-477).`);
+}
+
+function parseDefinition(raw: unknown, index: number): StickerDefinition {
+    if (!raw || typeof raw !== 'object') {
+        throw new Error(`Sticker #${index + 1} is not an object.`);
+    }
+    const source = raw as Record<string, unknown>;
+    const name = typeof source.name === 'string' && source.name.trim() ? source.name.trim() : `Sticker ${index + 1}`;
+    if (typeof source.image !== 'string' || !source.image) {
+        throw new Error(`Sticker "${name}": "image" is required.`);
+    }
+    const offset = Array.isArray(source.offset) && source.offset.length === 2 && source.offset.every(Number.isFinite)
+        ? [source.offset[0], source.offset[1]] as [number, number]
+        : [0, 0] as [number, number];
+    const scale = typeof source.scale === 'number' && source.scale > 0 ? source.scale : 1;
+    const rotation = rotationModes.includes(source.rotation as StickerRotationMode)
+        ? source.rotation as StickerRotationMode
+        : 'pose';
+    const zOrder = typeof source.zOrder === 'number' && Number.isFinite(source.zOrder) ? source.zOrder : 0;
+    return {
+        name,
+        image: source.image,
+        anchor: parseAnchor(source.anchor ?? 'noseBridge', name),
+        offset,
+        scale,
+        rotation,
+        zOrder,
+    };
+}
+
+/** Accepts a single definition, an array of them, or `{ "stickers": [...] }`. Throws on invalid input. */
+export function parseStickerDefinitions(json: unknown): StickerDefinition[] {
+    const list = Array.isArray(json)
+        ? json
+        : json && typeof json === 'object' && Array.isArray((json as { stickers?: unknown }).stickers)
+            ? (json as { stickers: unknown[] }).stickers
+            : [json];
+    return list.map(parseDefinition);
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load sticker image ${url}`));
+        img.src = url;
+    });
+}
+
+// Sticker IDs only need to be unique for the session.
+let nextStickerId = 0;
+
+/**
+ * Loads stickers from a file selection: every `.json` file is parsed and its
+ * image references are resolved against the other selected files by name.
+ */
+export async function loadStickers(files: File[]): Promise<Sticker[]> {
+    const assets = new Map(files.map((file) => [file.name, file]));
+    const stickers: Sticker[] = [];
+    const objectUrls: string[] = [];
+    try {
+        for (const file of files) {
+            if (!file.name.toLowerCase().endsWith('.json')) continue;
+            const definitions = parseStickerDefinitions(JSON.parse(await file.text()));
+            for (const definition of definitions) {
+                const fileName = definition.image.split('/').pop() ?? definition.image;
+                const asset = assets.get(definition.image) ?? assets.get(fileName);
+                let url = definition.image;
+                if (asset) {
+                    url = URL.createObjectURL(asset);
+                    objectUrls.push(url);
+                } else if (!/^(data:|https?:|\/)/.test(url)) {
+                    throw new Error(`Sticker "${definition.name}": select "${definition.image}" together with the JSON file.`);
+                }
+                nextStickerId += 1;
+                stickers.push({
+                    id: `sticker-${nextStickerId}`,
+                    definition,
+                    image: await loadImage(url),
+                    visible: true,
+                });
+            }
+        }
+    } catch (err) {
+        // Nothing from a failed selection is kept, so release every image URL it created.
+        objectUrls.forEach((url) => URL.revokeObjectURL(url));
+        throw err;
+    }
+    return stickers;
+}
+
+// Rotation of the MediaPipe facial transformation matrix (column-major), as screen roll/yaw/pitch.
+function poseAngles(matrix: number[]) {
+    const yaw = Math.asin(Math.max(-1, Math.min(1, -matrix[2])));
+    const pitch = Math.atan2(matrix[6], matrix[10]);
+    // Matrix space is y-up while the canvas is y-down, so the roll flips.
+    const roll = -Math.atan2(matrix[1], matrix[0]);
+    return { yaw, pitch, roll };
+}
+
+export type StickerPlacement = {
+    // Canvas transform from the sticker rectangle (origin at its top-left) to frame pixels.
+    transform: [number, number, number, number, number, number];
+    width: number;
+    height: number;
+};
+
+/**
+ * Where a sticker attached to its anchor landmarks lands this frame. `landmarks`
+ * are normalized (as in FaceSnapshot) and are mapped to frame pixels here.
+ */
+export function computeStickerPlacement(
+    sticker: Sticker,
+    landmarks: Array<{ x: number; y: number; z?: number }>,
+    matrix: number[] | undefined,
+    frameWidth: number,
+    frameHeight: number
+): StickerPlacement | null {
+    const { definition, image } = sticker;
+    const toPixels = (index: number): Point2D & { z: number } => {
+        const pt = landmarks[index];
+        return { x: pt.x * frameWidth, y: pt.y * frameHeight, z: (pt.z ?? 0) * frameWidth };
+    };
+    if (definition.anchor.some((index) => !landmarks[index]) || !landmarks[234] || !landmarks[454]) {
+        return null;
+    }
+
+    const anchor = definition.anchor.map(toPixels).reduce(
+        (sum, pt) => ({ x: sum.x + pt.x / definition.anchor.length, y: sum.y + pt.y / definition.anchor.length }),
+        { x: 0, y: 0 }
+    );
+    // Cheek-to-cheek distance including depth, so turning the head does not shrink the sticker.
+    const cheekLeft = toPixels(234);
+    const cheekRight = toPixels(454);
+    const faceWidth = Math.hypot(cheekRight.x - cheekLeft.x, cheekRight.y - cheekLeft.y, cheekRight.z - cheekLeft.z);
+
+    let angle = 0;
+    let squashX = 1;
+    let squashY = 1;
+    if (definition.rotation === 'roll' || (definition.rotation === 'pose' && (!matrix || matrix.length < 16))) {
+        const eyeLeft = toPixels(33);
+        const eyeRight = toPixels(263);
+        angle = Math.atan2(eyeRight.y - eyeLeft.y, eyeRight.x - eyeLeft.x);
+    } else if (definition.rotation === 'pose' && matrix) {
+        const pose = poseAngles(matrix);
+        angle = pose.roll;
+        // Foreshorten flat artwork as the head turns or nods.
+        squashX = Math.max(0.2, Math.cos(pose.yaw));
+        squashY = Math.max(0.2, Math.cos(pose.pitch));
+    }
+
+    const width = faceWidth * definition.scale;
+    const height = image.naturalWidth > 0 ? width * (image.naturalHeight / image.naturalWidth) : width;
+    // translate(anchor) . rotate(angle) . translate(offset * squash) . scale(squash), centred on the sticker.
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    const localX = (definition.offset[0] * faceWidth - width / 2) * squashX;
+    const localY = (definition.offset[1] * faceWidth - height / 2) * squashY;
+    return {
+        transform: [
+            cos * squashX,
+            sin * squashX,
+            -sin * squashY,
+            cos * squashY,
+            anchor.x + cos * localX - sin * localY,
+            anchor.y + sin * localX + cos * localY,
+        ],
+        width,
+        height,
+    };
+}
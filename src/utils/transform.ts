@@ -0,0 +1,93 @@
+import type { Point2D } from '../types/face';
+
+// Canvas `transform(a, b, c, d, e, f)` order: x' = a*x + c*y + e, y' = b*x + d*y + f.
+export type AffineMatrix = [number, number, number, number, number, number];
+
+function centroid(points: Point2D[]): Point2D {
+    let x = 0;
+    let y = 0;
+    for (const pt of points) {
+        x += pt.x;
+        y += pt.y;
+    }
+    return { x: x / points.length, y: y / points.length };
+}
+
+/**
+ * Least-squares rotation + uniform scale + translation mapping `src` onto `dst`.
+ * Keeps artwork proportions, which suits most mask images.
+ */
+export function fitSimilarity(src: Point2D[], dst: Point2D[]): AffineMatrix | null {
+    const count = Math.min(src.length, dst.length);
+    if (count < 2) return null;
+    const ms = centroid(src.slice(0, count));
+    const md = centroid(dst.slice(0, count));
+    let dot = 0;
+    let cross = 0;
+    let norm = 0;
+    for (let i = 0; i < count; i += 1) {
+        const sx = src[i].x - ms.x;
+        const sy = src[i].y - ms.y;
+        const dx = dst[i].x - md.x;
+        const dy = dst[i].y - md.y;
+        dot += sx * dx + sy * dy;
+        cross += sx * dy - sy * dx;
+        norm += sx * sx + sy * sy;
+    }
+    if (norm < 1e-9) return null;
+    const a = dot / norm;
+    const b = cross / norm;
+    return [a, b, -b, a, md.x - (a * ms.x - b * ms.y), md.y - (b * ms.x + a * ms.y)];
+}
+
+function solve3(m: number[], v: [number, number, number]): [number, number, number] | null {
+    const det = m[0] * (m[4] * m[8] - m[5] * m[7])
+        - m[1] * (m[3] * m[8] - m[5] * m[6])
+        + m[2] * (m[3] * m[7] - m[4] * m[6]);
+    if (Math.abs(det) < 1e-9) return null;
+    const replace = (col: number) => {
+        const c = m.slice();
+        c[col] = v[0];
+        c[col + 3] = v[1];
+        c[col + 6] = v[2];
+        return c[0] * (c[4] * c[8] - c[5] * c[7])
+            - c[1] * (c[3] * c[8] - c[5] * c[6])
+            + c[2] * (c[3] * c[7] - c[4] * c[6]);
+    };
+    return [replace(0) / det, replace(1) / det, replace(2) / det];
+}
+
+/**
+ * Least-squares full affine fit (allows shear and non-uniform scale). Needs at
+ * least three non-collinear points; falls back to a similarity fit otherwise.
+ */
+export function fitAffine(src: Point2D[], dst: Point2D[]): AffineMatrix | null {
+    const count = Math.min(src.length, dst.length);
+    if (count < 3) return fitSimilarity(src, dst);
+    let sxx = 0;
+    let sxy = 0;
+    let syy = 0;
+    let sx = 0;
+    let sy = 0;
+    const bx: [number, number, number] = [0, 0, 0];
+    const by: [number, number, number] = [0, 0, 0];
+    for (let i = 0; i < count; i += 1) {
+        const { x, y } = src[i];
+        sxx += x * x;
+        sxy += x * y;
+        syy += y * y;
+        sx += x;
+        sy += y;
+        bx[0] += x * dst[i].x;
+        bx[1] += y * dst[i].x;
+        bx[2] += dst[i].x;
+        by[0] += x * dst[i].y;
+        by[1] += y * dst[i].y;
+        by[2] += dst[i].y;
+    }
+    const normal = [sxx, sxy, sx, sxy, syy, sy, sx, sy, count];
+    const px = solve3(normal, bx);
+    const py = solve3(normal, by);
+    if (!px || !py) return fitSimilarity(src, dst);
+    return [px[0], py[0], px[1], py[1], px[2], py[2]];
+}
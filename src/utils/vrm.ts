@@ -0,0 +1,199 @@
+import * as THREE from 'three';
+import type { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { VRMLoaderPlugin, type VRM, type VRMExpressionPresetName } from '@pixiv/three-vrm';
+import type { UpperBodyPose } from '../types/pose';
+
+/**
+ * MediaPipe (ARKit-named) blendshapes that drive each VRM expression preset by
+ * default; the expression weight is the mean of their scores. Visemes are
+ * approximated from mouth shape since there is no audio.
+ */
+export const VRM_EXPRESSION_SOURCES: Partial<Record<VRMExpressionPresetName, string[]>> = {
+    blinkLeft: ['eyeBlinkLeft'],
+    blinkRight: ['eyeBlinkRight'],
+    aa: ['jawOpen'],
+    ih: ['mouthStretchLeft', 'mouthStretchRight'],
+    ou: ['mouthPucker'],
+    ee: ['mouthUpperUpLeft', 'mouthUpperUpRight'],
+    oh: ['mouthFunnel'],
+    happy: ['mouthSmileLeft', 'mouthSmileRight'],
+    angry: ['browDownLeft', 'browDownRight'],
+    sad: ['mouthFrownLeft', 'mouthFrownRight'],
+    surprised: ['eyeWideLeft', 'eyeWideRight', 'browInnerUp'],
+};
+
+export const VRM_LOOK_SOURCES = [
+    'eyeLookInLeft', 'eyeLookInRight', 'eyeLookOutLeft', 'eyeLookOutRight',
+    'eyeLookUpLeft', 'eyeLookUpRight', 'eyeLookDownLeft', 'eyeLookDownRight',
+];
+
+// Gaze range in degrees at a blendshape score of 1.
+const LOOK_YAW_RANGE = 25;
+const LOOK_PITCH_RANGE = 20;
+
+export function registerVrmLoader(loader: GLTFLoader) {
+    loader.register((parser) => new VRMLoaderPlugin(parser));
+}
+
+/** Swaps the Left / Right suffix, for driving a mirrored avatar. */
+export function mirrorBlendshapeName(name: string) {
+    if (name.endsWith('Left')) return `${name.slice(0, -4)}Right`;
+    if (name.endsWith('Right')) return `${name.slice(0, -5)}Left`;
+    return name;
+}
+
+/** ARKit blendshape names that move something on this VRM. */
+export function getVrmDrivenBlendshapes(vrm: VRM): string[] {
+    const driven = new Set<string>();
+    Object.entries(VRM_EXPRESSION_SOURCES).forEach(([expression, sources]) => {
+        if (vrm.expressionManager?.getExpression(expression)) {
+            sources.forEach((name) => driven.add(name));
+        }
+    });
+    if (vrm.lookAt) {
+        VRM_LOOK_SOURCES.forEach((name) => driven.add(name));
+    }
+    return [...driven];
+}
+
+/** Sets gaze yaw / pitch (degrees) from the eyeLook blendshapes. */
+export function applyVrmLookAt(vrm: VRM, scores: Record<string, number>) {
+    if (!vrm.lookAt) return;
+    const score = (name: string) => scores[name] ?? 0;
+    // Looking to the subject's left moves the left eye out and the right eye in.
+    const left = (score('eyeLookOutLeft') + score('eyeLookInRight')) * 0.5;
+    const right = (score('eyeLookInLeft') + score('eyeLookOutRight')) * 0.5;
+    const up = (score('eyeLookUpLeft') + score('eyeLookUpRight')) * 0.5;
+    const down = (score('eyeLookDownLeft') + score('eyeLookDownRight')) * 0.5;
+    vrm.lookAt.autoUpdate = false;
+    // three-vrm: positive yaw turns toward the avatar's left, positive pitch looks down.
+    vrm.lookAt.yaw = (left - right) * LOOK_YAW_RANGE;
+    vrm.lookAt.pitch = (down - up) * LOOK_PITCH_RANGE;
+}
+
+const identity = new THREE.Quaternion();
+const sceneQuat = new THREE.Quaternion();
+const localQuat = new THREE.Quaternion();
+
+/**
+ * Poses the normalized neck and head bones so the head ends up at `rotation`
+ * (in the space outside `parentRotation`, the avatar's calibration). The neck
+ * takes `neckShare` of the turn.
+ */
+export function driveVrmHeadBones(
+    vrm: VRM,
+    rotation: THREE.Quaternion,
+    parentRotation: THREE.Quaternion = identity,
+    neckShare = 0.35
+) {
+    const head = vrm.humanoid.getNormalizedBoneNode('head');
+    if (!head) return;
+    const neck = vrm.humanoid.getNormalizedBoneNode('neck');
+    // Bring the rotation into the scene's frame (VRM 0.x scenes are turned 180°).
+    sceneQuat.copy(parentRotation).multiply(vrm.scene.quaternion);
+    localQuat.copy(sceneQuat).invert().multiply(rotation).multiply(sceneQuat);
+    if (neck) {
+        neck.quaternion.copy(identity).slerp(localQuat, neckShare);
+        head.quaternion.copy(neck.quaternion).invert().multiply(localQuat);
+    } else {
+        head.quaternion.copy(localQuat);
+    }
+}
+
+const MAX_SHRUG_ANGLE = THREE.MathUtils.degToRad(12);
+const zAxis = new THREE.Vector3(0, 0, 1);
+const torsoEuler = new THREE.Euler();
+const shoulderQuat = new THREE.Quaternion();
+const anchorOffset = new THREE.Vector3();
+const restAnchorOffset = new THREE.Vector3();
+const restHipsPositions = new WeakMap<VRM, THREE.Vector3>();
+
+// Position of `bone` in hips space through the normalized rig; `rest` ignores the current rotations.
+function offsetFromHips(bone: THREE.Object3D, hips: THREE.Object3D, target: THREE.Vector3, rest: boolean) {
+    target.copy(bone.position);
+    let node = bone.parent;
+    while (node && node !== hips) {
+        if (!rest) target.applyQuaternion(node.quaternion);
+        target.add(node.position);
+        node = node.parent;
+    }
+    return target;
+}
+
+/**
+ * Poses the normalized spine, chest and shoulder bones from `body` and writes
+ * the torso rotation (in the same space `driveVrmHeadBones` takes) into
+ * `torsoRotation`, so the caller can take it out of the head rotation. The
+ * hips shift to keep the neck in place, since the overlay pins the head to the
+ * face. Avatars without a spine keep a zero torso rotation.
+ */
+export function driveVrmUpperBody(
+    vrm: VRM,
+    body: UpperBodyPose,
+    torsoRotation: THREE.Quaternion,
+    parentRotation: THREE.Quaternion = identity,
+    spineShare = 0.4
+) {
+    const humanoid = vrm.humanoid;
+    const hips = humanoid.getNormalizedBoneNode('hips');
+    const spine = humanoid.getNormalizedBoneNode('spine');
+    torsoRotation.identity();
+    if (!hips || !spine) return;
+    sceneQuat.copy(parentRotation).multiply(vrm.scene.quaternion);
+    const toLocal = (rotation: THREE.Quaternion, target: THREE.Quaternion) => (
+        target.copy(sceneQuat).invert().multiply(rotation).multiply(sceneQuat)
+    );
+
+    torsoRotation.setFromEuler(torsoEuler.set(body.pitch, body.yaw, body.roll, 'YXZ'));
+    toLocal(torsoRotation, localQuat);
+    const chest = humanoid.getNormalizedBoneNode('chest');
+    if (chest) {
+        spine.quaternion.copy(identity).slerp(localQuat, spineShare);
+        chest.quaternion.copy(spine.quaternion).invert().multiply(localQuat);
+    } else {
+        spine.quaternion.copy(localQuat);
+    }
+
+    // Facing the viewer, the avatar's left shoulder is on +x and rises with a turn about +z.
+    const shoulders: Array<['leftShoulder' | 'rightShoulder', number]> = [
+        ['leftShoulder', body.shrugLeft],
+        ['rightShoulder', -body.shrugRight],
+    ];
+    shoulders.forEach(([name, shrug]) => {
+        const bone = humanoid.getNormalizedBoneNode(name);
+        if (bone) {
+            toLocal(shoulderQuat.setFromAxisAngle(zAxis, shrug * MAX_SHRUG_ANGLE), bone.quaternion);
+        }
+    });
+
+    const anchor = humanoid.getNormalizedBoneNode('neck') ?? humanoid.getNormalizedBoneNode('head');
+    if (!anchor) return;
+    let restHips = restHipsPositions.get(vrm);
+    if (!restHips) {
+        restHips = hips.position.clone();
+        restHipsPositions.set(vrm, restHips);
+    }
+    offsetFromHips(anchor, hips, restAnchorOffset, true);
+    offsetFromHips(anchor, hips, anchorOffset, false);
+    hips.position.copy(restHips).add(restAnchorOffset).sub(anchorOffset);
+}
+
+/**
+ * Centre and height of the head in the scene's parent space: from the head
+ * bone up to the top of the model. VRMs are full bodies, so the whole-model
+ * bounds would shrink the head to a fraction of the face box.
+ */
+export function measureVrmHead(vrm: VRM): { center: THREE.Vector3; height: number } | null {
+    const head = vrm.humanoid.getRawBoneNode('head');
+    if (!head) return null;
+    vrm.scene.updateMatrixWorld(true);
+    const box = new THREE.Box3().setFromObject(vrm.scene);
+    if (box.isEmpty()) return null;
+    const base = head.getWorldPosition(new THREE.Vector3());
+    // The head bone sits around the base of the skull; stretch down to the chin.
+    const height = Math.max(1e-3, (box.max.y - base.y) * 1.3);
+    return {
+        center: new THREE.Vector3(base.x, box.max.y - height * 0.5, base.z),
+        height,
+    };
+}
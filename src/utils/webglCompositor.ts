@@ -0,0 +1,1214 @@
+import type { BackgroundScaleMode, BackgroundSource } from '../types/background';
+import type { Point2D, Triangle } from '../types/face';
+import type { PersonMaskKind, SegmentationMask } from '../types/segmentation';
+import type { MaskRefinementOptions } from './segmentation';
+import { computeFitRect, getBackgroundSize, isBackgroundReady, type FitRect } from './background';
+import { FACE_OVAL_INDICES, parseHexColor } from './blend';
+import { toChroma, type ChromaKeyOptions } from './chromaKey';
+import type { PrivacyMode } from './privacy';
+
+export type ClassTint = {
+    mask: SegmentationMask;
+    // CSS hex colour, e.g. "#ff3366".
+    color: string;
+    strength: number;
+};
+
+export type CompositeSource = HTMLImageElement | HTMLCanvasElement | HTMLVideoElement | ImageBitmap;
+
+/** Artwork drawn through a canvas-style transform: a sticker, an anchored mask or a face-box mask. */
+export type CompositeImage = {
+    source: CompositeSource;
+    // Maps the width x height rectangle (origin top-left) to frame pixels, as ctx.transform would.
+    transform: [number, number, number, number, number, number];
+    width: number;
+    height: number;
+};
+
+/** Face-swap artwork warped onto the tracked mesh, colour matched to the live skin and feathered. */
+export type CompositeWarp = {
+    source: CompositeSource;
+    sourceWidth: number;
+    sourceHeight: number;
+    // Landmarks on the artwork (source pixels) and on the tracked face (frame pixels), index for index.
+    sourcePoints: Point2D[];
+    points: Point2D[];
+    triangles: Triangle[];
+    // Face-oval bounds padded for the feather; colour statistics are sampled inside it.
+    bounds: FitRect;
+    // Strength of the mean/variance colour transfer, 0..1.
+    colorMatch: number;
+    // The oval is inset by the feather width; `softEdge` blurs it by the same amount.
+    feather: number;
+    softEdge: boolean;
+};
+
+export type CompositeFaceLayer =
+    | ({ kind: 'image' } & CompositeImage)
+    | ({ kind: 'warp' } & CompositeWarp)
+    // Debug dots for a face that has no artwork.
+    | { kind: 'landmarks'; points: Point2D[] };
+
+export type CompositePrivacy = {
+    mode: Exclude<PrivacyMode, 'off'>;
+    color: string;
+    // Frame-pixel polygons to cover; null covers the whole frame with a heavy blur.
+    regions: Point2D[][] | null;
+};
+
+export type CompositeFrame = {
+    video: HTMLVideoElement;
+    // Null leaves the background untouched and only applies the tints.
+    person: { mask: SegmentationMask; kind: PersonMaskKind } | null;
+    // Keys the person out of a physical screen instead of using `person`.
+    chromaKey: ChromaKeyOptions | null;
+    // Solid fill (e.g. an OBS key colour) that takes precedence over `background`.
+    backgroundColor: string | null;
+    // At most MAX_TINTS are applied.
+    tints: ClassTint[];
+    background: BackgroundSource | null;
+    backgroundScaleMode: BackgroundScaleMode;
+    refinement: MaskRefinementOptions;
+    // False skips the background blur passes and shows the camera at half resolution instead.
+    blurBackground: boolean;
+    // Face layers, in unmirrored camera-frame pixels: stickers below the masks, the masks, stickers above.
+    underlays: CompositeImage[];
+    faces: CompositeFaceLayer[];
+    overlays: CompositeImage[];
+    // Class mask whose composited pixels are laid back over the face layers (keep hair).
+    keepHair: SegmentationMask | null;
+    // Applied last, over everything else.
+    privacy: CompositePrivacy | null;
+};
+
+// Output-pixel sigma of the default background blur, matching the Canvas2D `blur(12px)`.
+const BACKGROUND_BLUR_SIGMA = 12;
+const MAX_BLUR_RADIUS = 32;
+const MAX_TINTS = 2;
+// Colour statistics are averaged down a 64x64 mip chain to a single texel.
+const STATS_SIZE = 64;
+const STATS_LEVEL = Math.log2(STATS_SIZE);
+const LANDMARK_POINT_SIZE = 3;
+
+// Frame-uv rectangle that a mesh pass maps onto its whole target.
+type Region = [number, number, number, number];
+const FULL_REGION: Region = [0, 0, 1, 1];
+
+const privacyModes: Record<CompositePrivacy['mode'], number> = {
+    blur: 1,
+    pixelate: 2,
+    solid: 3,
+};
+
+const personKinds: Record<PersonMaskKind, number> = {
+    'confidence': 0,
+    'inverted-confidence': 1,
+    'category': 2,
+};
+
+const vertexSource = `#version 300 es
+in vec2 a_position;
+uniform bool u_flipY;
+out vec2 v_uv;
+void main() {
+    v_uv = a_position;
+    vec2 clip = a_position * 2.0 - 1.0;
+    gl_Position = vec4(clip.x, u_flipY ? -clip.y : clip.y, 0.0, 1.0);
+}`;
+
+// Exponential moving average of the raw mask; the result feeds the next frame.
+const temporalSource = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+uniform sampler2D u_mask;
+uniform sampler2D u_history;
+uniform float u_keep;
+uniform int u_kind;
+out vec4 outColor;
+void main() {
+    float raw = texture(u_mask, v_uv).r;
+    float value = u_kind == 2 ? step(0.5 / 255.0, raw) : clamp(raw, 0.0, 1.0);
+    if (u_kind == 1) value = 1.0 - value;
+    float previous = texture(u_history, v_uv).r;
+    outColor = vec4(mix(value, previous, u_keep), 0.0, 0.0, 1.0);
+}`;
+
+// Optional joint bilateral filter guided by the video, then the threshold / softness ramp.
+const refineSource = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+uniform sampler2D u_confidence;
+uniform sampler2D u_guide;
+uniform vec2 u_texel;
+uniform bool u_edgeAware;
+uniform float u_low;
+uniform float u_high;
+out vec4 outColor;
+float luma(vec2 uv) {
+    return dot(texture(u_guide, uv).rgb, vec3(0.299, 0.587, 0.114));
+}
+void main() {
+    float value = texture(u_confidence, v_uv).r;
+    if (u_edgeAware) {
+        float centerLuma = luma(v_uv);
+        float sum = 0.0;
+        float weightSum = 0.0;
+        for (int dy = -2; dy <= 2; dy++) {
+            for (int dx = -2; dx <= 2; dx++) {
+                vec2 uv = v_uv + vec2(float(dx), float(dy)) * u_texel;
+                float diff = (luma(uv) - centerLuma) * 255.0;
+                float weight = exp(-float(dx * dx + dy * dy) / 4.5 - diff * diff / 1152.0);
+                sum += texture(u_confidence, uv).r * weight;
+                weightSum += weight;
+            }
+        }
+        value = sum / weightSum;
+    }
+    float alpha = u_high > u_low ? smoothstep(u_low, u_high, value) : step(u_low, value);
+    outColor = vec4(alpha, 0.0, 0.0, 1.0);
+}`;
+
+// One direction of a separable Gaussian; u_step is the tap spacing in UV units.
+const blurSource = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+uniform sampler2D u_source;
+uniform vec2 u_step;
+uniform float u_sigma;
+out vec4 outColor;
+void main() {
+    if (u_sigma < 0.01) {
+        outColor = texture(u_source, v_uv);
+        return;
+    }
+    int radius = min(int(ceil(u_sigma * 3.0)), ${MAX_BLUR_RADIUS});
+    vec4 sum = vec4(0.0);
+    float weightSum = 0.0;
+    for (int i = -radius; i <= radius; i++) {
+        float weight = exp(-float(i * i) / (2.0 * u_sigma * u_sigma));
+        sum += texture(u_source, v_uv + u_step * float(i)) * weight;
+        weightSum += weight;
+    }
+    outColor = sum / weightSum;
+}`;
+
+// Tints use the W3C "color" blend mode, the same as the Canvas2D path.
+const compositeSource = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+uniform sampler2D u_video;
+uniform sampler2D u_matte;
+uniform sampler2D u_background;
+uniform sampler2D u_tintMask0;
+uniform sampler2D u_tintMask1;
+uniform vec4 u_tint0;
+uniform vec4 u_tint1;
+uniform bool u_replaceBackground;
+uniform bool u_hasBackground;
+uniform vec4 u_backgroundRect;
+uniform bool u_solidBackground;
+uniform vec3 u_solidColor;
+uniform bool u_chroma;
+uniform vec2 u_chromaKey;
+uniform vec3 u_chromaParams;
+out vec4 outColor;
+float lum(vec3 c) {
+    return dot(c, vec3(0.3, 0.59, 0.11));
+}
+vec3 clipColor(vec3 c) {
+    float l = lum(c);
+    float low = min(min(c.r, c.g), c.b);
+    float high = max(max(c.r, c.g), c.b);
+    if (low < 0.0) c = l + (c - l) * l / (l - low);
+    if (high > 1.0) c = l + (c - l) * (1.0 - l) / (high - l);
+    return c;
+}
+vec3 applyTint(vec3 base, sampler2D mask, vec4 tint) {
+    if (tint.a <= 0.0) return base;
+    vec3 tinted = clipColor(tint.rgb + (lum(base) - lum(tint.rgb)));
+    return mix(base, tinted, texture(mask, v_uv).r * tint.a);
+}
+void main() {
+    vec3 person = texture(u_video, v_uv).rgb;
+    float alpha;
+    if (u_chroma) {
+        // Same maths as applyChromaKey in chromaKey.ts.
+        vec2 chroma = vec2(
+            dot(person, vec3(-0.168736, -0.331264, 0.5)),
+            dot(person, vec3(0.5, -0.418688, -0.081312))
+        );
+        float baseMask = distance(chroma, u_chromaKey) - u_chromaParams.x;
+        alpha = pow(clamp(baseMask / u_chromaParams.y, 0.0, 1.0), 1.5);
+        float keep = pow(clamp(baseMask / u_chromaParams.z, 0.0, 1.0), 1.5);
+        float luma = dot(person, vec3(0.2126, 0.7152, 0.0722));
+        person = mix(vec3(luma), person, keep);
+    } else {
+        alpha = texture(u_matte, v_uv).r;
+    }
+    person = applyTint(person, u_tintMask0, u_tint0);
+    person = applyTint(person, u_tintMask1, u_tint1);
+    if (!u_replaceBackground) {
+        outColor = vec4(person, 1.0);
+        return;
+    }
+    vec3 background;
+    if (u_solidBackground) {
+        background = u_solidColor;
+    } else if (u_hasBackground) {
+        vec2 uv = (v_uv - u_backgroundRect.xy) / u_backgroundRect.zw;
+        bool inside = all(greaterThanEqual(uv, vec2(0.0))) && all(lessThanEqual(uv, vec2(1.0)));
+        background = inside ? texture(u_background, uv).rgb : vec3(0.0);
+    } else {
+        background = texture(u_background, v_uv).rgb;
+    }
+    outColor = vec4(mix(background, person, alpha), 1.0);
+}`;
+
+// Mesh passes: positions are frame uv (image row 0 at v = 0) mapped through u_region.
+const meshVertexSource = `#version 300 es
+in vec2 a_position;
+in vec2 a_texCoord;
+uniform vec4 u_region;
+uniform float u_pointSize;
+out vec2 v_uv;
+out vec2 v_texCoord;
+void main() {
+    v_uv = a_position;
+    v_texCoord = a_texCoord;
+    vec2 clip = (a_position - u_region.xy) / u_region.zw * 2.0 - 1.0;
+    gl_Position = vec4(clip, 0.0, 1.0);
+    gl_PointSize = u_pointSize;
+}`;
+
+// Solid polygons: face ovals and privacy regions.
+const fillSource = `#version 300 es
+precision highp float;
+uniform vec4 u_color;
+out vec4 outColor;
+void main() {
+    outColor = u_color;
+}`;
+
+// Weighted colour sums (or sums of squares) inside the oval; mipmapping averages them.
+const statsSource = `#version 300 es
+precision highp float;
+in vec2 v_texCoord;
+uniform sampler2D u_image;
+uniform sampler2D u_oval;
+uniform vec2 u_targetSize;
+uniform bool u_square;
+out vec4 outColor;
+void main() {
+    vec4 color = texture(u_image, v_texCoord);
+    float weight = color.a * texture(u_oval, gl_FragCoord.xy / u_targetSize).r;
+    vec3 value = u_square ? color.rgb * color.rgb : color.rgb;
+    outColor = vec4(value * weight, weight);
+}`;
+
+// Face layers, premultiplied: artwork with optional colour transfer and feather, or a debug dot.
+const layerSource = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+in vec2 v_texCoord;
+uniform sampler2D u_image;
+uniform sampler2D u_feather;
+uniform bool u_useFeather;
+uniform bool u_point;
+uniform vec4 u_color;
+uniform float u_colorMatch;
+uniform sampler2D u_faceSum;
+uniform sampler2D u_faceSquares;
+uniform sampler2D u_skinSum;
+uniform sampler2D u_skinSquares;
+uniform float u_statsLevel;
+out vec4 outColor;
+void stats(sampler2D sums, sampler2D squares, out vec3 mean, out vec3 deviation, out float weight) {
+    vec4 sum = textureLod(sums, vec2(0.5), u_statsLevel);
+    weight = sum.a;
+    mean = sum.rgb / max(sum.a, 1e-6);
+    vec3 square = textureLod(squares, vec2(0.5), u_statsLevel).rgb / max(sum.a, 1e-6);
+    deviation = sqrt(max(square - mean * mean, 0.0));
+}
+// Same maths as applyColorTransfer in blend.ts, on 0..1 channels.
+vec3 colorTransfer(vec3 color) {
+    vec3 faceMean, faceDeviation, skinMean, skinDeviation;
+    float faceWeight, skinWeight;
+    stats(u_faceSum, u_faceSquares, faceMean, faceDeviation, faceWeight);
+    stats(u_skinSum, u_skinSquares, skinMean, skinDeviation, skinWeight);
+    if (faceWeight <= 1e-5 || skinWeight <= 1e-5) return color;
+    vec3 ratio = mix(vec3(1.0), skinDeviation / max(faceDeviation, vec3(1e-6)), step(vec3(1.0 / 255.0), faceDeviation));
+    vec3 gain = 1.0 + (clamp(ratio, 0.33, 3.0) - 1.0) * u_colorMatch;
+    vec3 mean = faceMean + (skinMean - faceMean) * u_colorMatch;
+    return color * gain + (mean - faceMean * gain);
+}
+void main() {
+    if (u_point) {
+        if (length(gl_PointCoord - 0.5) > 0.5) discard;
+        outColor = vec4(u_color.rgb * u_color.a, u_color.a);
+        return;
+    }
+    vec4 color = texture(u_image, v_texCoord);
+    float alpha = color.a;
+    if (u_useFeather) alpha *= texture(u_feather, v_uv).r;
+    vec3 rgb = u_colorMatch > 0.0 ? clamp(colorTransfer(color.rgb), 0.0, 1.0) : color.rgb;
+    outColor = vec4(rgb * alpha, alpha);
+}`;
+
+// Lays the face layers over the composite; kept hair goes between the masks and the top stickers.
+const combineSource = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+uniform sampler2D u_scene;
+uniform sampler2D u_below;
+uniform sampler2D u_above;
+uniform sampler2D u_hair;
+uniform bool u_keepHair;
+out vec4 outColor;
+void main() {
+    vec3 scene = texture(u_scene, v_uv).rgb;
+    vec4 below = texture(u_below, v_uv);
+    vec3 color = below.rgb + scene * (1.0 - below.a);
+    if (u_keepHair) color = mix(color, scene, texture(u_hair, v_uv).r);
+    vec4 above = texture(u_above, v_uv);
+    outColor = vec4(above.rgb + color * (1.0 - above.a), 1.0);
+}`;
+
+// Final on-screen pass with the privacy cover (same modes as applyPrivacy).
+const presentSource = `#version 300 es
+precision highp float;
+in vec2 v_uv;
+uniform sampler2D u_source;
+uniform sampler2D u_obscured;
+uniform sampler2D u_regions;
+uniform int u_privacy;
+uniform bool u_wholeFrame;
+uniform vec2 u_blocks;
+uniform vec3 u_privacyColor;
+out vec4 outColor;
+void main() {
+    vec3 color = texture(u_source, v_uv).rgb;
+    if (u_privacy != 0) {
+        vec3 hidden;
+        if (u_privacy == 1) {
+            hidden = texture(u_obscured, v_uv).rgb;
+        } else if (u_privacy == 2) {
+            hidden = texture(u_source, (floor(v_uv * u_blocks) + 0.5) / u_blocks).rgb;
+        } else {
+            hidden = u_privacyColor;
+        }
+        float cover = u_wholeFrame ? 1.0 : texture(u_regions, v_uv).r;
+        color = mix(color, hidden, cover);
+    }
+    outColor = vec4(color, 1.0);
+}`;
+
+type Program = {
+    program: WebGLProgram;
+    uniforms: Map<string, WebGLUniformLocation | null>;
+};
+
+type TargetFormat = {
+    internalFormat: number;
+    type: number;
+};
+
+type Target = {
+    texture: WebGLTexture;
+    framebuffer: WebGLFramebuffer;
+    width: number;
+    height: number;
+};
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string) {
+    const shader = gl.createShader(type);
+    if (!shader) throw new Error('Failed to create shader');
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        const log = gl.getShaderInfoLog(shader);
+        gl.deleteShader(shader);
+        throw new Error(`Shader compile failed: ${log}`);
+    }
+    return shader;
+}
+
+function createProgram(gl: WebGL2RenderingContext, fragmentSource: string, vertexShaderSource = vertexSource): Program {
+    const program = gl.createProgram();
+    if (!program) throw new Error('Failed to create program');
+    const vertex = compileShader(gl, gl.VERTEX_SHADER, vertexShaderSource);
+    const fragment = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+    gl.attachShader(program, vertex);
+    gl.attachShader(program, fragment);
+    gl.bindAttribLocation(program, 0, 'a_position');
+    gl.bindAttribLocation(program, 1, 'a_texCoord');
+    gl.linkProgram(program);
+    gl.deleteShader(vertex);
+    gl.deleteShader(fragment);
+    if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+        const log = gl.getProgramInfoLog(program);
+        gl.deleteProgram(program);
+        throw new Error(`Program link failed: ${log}`);
+    }
+    return { program, uniforms: new Map() };
+}
+
+// Geometry for mesh passes: interleaved frame-uv position and texture coordinate per vertex.
+
+function imageQuad(image: CompositeImage, width: number, height: number) {
+    const [a, b, c, d, e, f] = image.transform;
+    const corner = (u: number, v: number) => {
+        const x = u * image.width;
+        const y = v * image.height;
+        return [(a * x + c * y + e) / width, (b * x + d * y + f) / height, u, v];
+    };
+    return new Float32Array([
+        ...corner(0, 0), ...corner(1, 0), ...corner(0, 1),
+        ...corner(0, 1), ...corner(1, 0), ...corner(1, 1),
+    ]);
+}
+
+function warpMesh(warp: CompositeWarp, width: number, height: number) {
+    const vertices: number[] = [];
+    for (const triangle of warp.triangles) {
+        const corners = triangle.map((index) => [warp.points[index], warp.sourcePoints[index]] as const);
+        if (corners.some(([point, source]) => !point || !source)) continue;
+        corners.forEach(([point, source]) => {
+            vertices.push(point.x / width, point.y / height, source.x / warp.sourceWidth, source.y / warp.sourceHeight);
+        });
+    }
+    return new Float32Array(vertices);
+}
+
+// Triangle fan around the centroid; face ovals and privacy regions are star-shaped around it.
+function polygonFan(points: Point2D[], width: number, height: number) {
+    const cx = points.reduce((sum, pt) => sum + pt.x, 0) / points.length;
+    const cy = points.reduce((sum, pt) => sum + pt.y, 0) / points.length;
+    const vertices = [cx / width, cy / height, 0, 0];
+    [...points, points[0]].forEach((pt) => vertices.push(pt.x / width, pt.y / height, 0, 0));
+    return new Float32Array(vertices);
+}
+
+function regionQuad([x, y, w, h]: Region) {
+    const corner = (u: number, v: number) => [x + u * w, y + v * h, x + u * w, y + v * h];
+    return new Float32Array([
+        ...corner(0, 0), ...corner(1, 0), ...corner(0, 1),
+        ...corner(0, 1), ...corner(1, 0), ...corner(1, 1),
+    ]);
+}
+
+function facePoints(points: Point2D[]) {
+    return FACE_OVAL_INDICES.map((index) => points[index]).filter((pt): pt is Point2D => Boolean(pt));
+}
+
+/**
+ * WebGL2 replacement for the Canvas2D background pass: temporal mask smoothing,
+ * edge refinement, feathering, background blur / fit, hair and clothing tints
+ * and the final person composite all run in shaders, and so do the face
+ * layers: masks are warped as a textured mesh, colour matched from mipmapped
+ * statistics and cut by a blurred oval, stickers are textured quads, and kept
+ * hair and the privacy cover are applied in the last passes. The result lands
+ * in `canvas`, which the caller copies into its output once per frame.
+ *
+ * When the segmenter runs on the GPU with this same canvas, its mask texture is
+ * sampled directly; otherwise the mask is uploaded once per frame without any
+ * per-pixel JavaScript. The context may be shared with MediaPipe, so every
+ * piece of GL state used here is set again on each frame.
+ */
+export class WebGLCompositor {
+    private programs: {
+        temporal: Program;
+        refine: Program;
+        blur: Program;
+        composite: Program;
+        fill: Program;
+        stats: Program;
+        layer: Program;
+        combine: Program;
+        present: Program;
+    };
+    private quad: WebGLVertexArrayObject;
+    private mesh: WebGLVertexArrayObject;
+    private meshBuffer: WebGLBuffer;
+    private videoTexture: WebGLTexture;
+    private maskTexture: WebGLTexture;
+    private tintTextures: WebGLTexture[];
+    private backgroundTexture: WebGLTexture;
+    private hairTexture: WebGLTexture;
+    // Artwork textures; still images upload once, animated frames and videos every frame.
+    private images = new Map<CompositeSource, WebGLTexture>();
+    private usedImages = new Set<CompositeSource>();
+    private uploadedBackground: HTMLImageElement | null = null;
+    private history: [Target, Target] | null = null;
+    private historyValid = false;
+    private matte: [Target, Target] | null = null;
+    private blurred: [Target, Target] | null = null;
+    private tintTargets: [Target, Target] | null = null;
+    // Composite without and with the face layers.
+    private scene: [Target, Target] | null = null;
+    // Premultiplied face layers: below the kept hair, and above it.
+    private layers: [Target, Target] | null = null;
+    private faceMask: [Target, Target] | null = null;
+    private hairTargets: [Target, Target] | null = null;
+    private statsOval: [Target, Target] | null = null;
+    // Face sums, face squares, skin sums, skin squares.
+    private stats: Target[] | null = null;
+    private privacyMask: [Target, Target] | null = null;
+    private privacyBlur: [Target, Target] | null = null;
+    private historyFormat: TargetFormat;
+    private lost = false;
+
+    private constructor(readonly canvas: HTMLCanvasElement, private gl: WebGL2RenderingContext) {
+        this.programs = {
+            temporal: createProgram(gl, temporalSource),
+            refine: createProgram(gl, refineSource),
+            blur: createProgram(gl, blurSource),
+            composite: createProgram(gl, compositeSource),
+            fill: createProgram(gl, fillSource, meshVertexSource),
+            stats: createProgram(gl, statsSource, meshVertexSource),
+            layer: createProgram(gl, layerSource, meshVertexSource),
+            combine: createProgram(gl, combineSource),
+            present: createProgram(gl, presentSource),
+        };
+        const quad = gl.createVertexArray();
+        const buffer = gl.createBuffer();
+        if (!quad || !buffer) throw new Error('Failed to create quad');
+        gl.bindVertexArray(quad);
+        gl.bindBuffer(gl.ARRAY_BUFFER, buffer);
+        gl.bufferData(gl.ARRAY_BUFFER, new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]), gl.STATIC_DRAW);
+        gl.enableVertexAttribArray(0);
+        gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 0, 0);
+        gl.bindVertexArray(null);
+        this.quad = quad;
+        const mesh = gl.createVertexArray();
+        const meshBuffer = gl.createBuffer();
+        if (!mesh || !meshBuffer) throw new Error('Failed to create mesh');
+        gl.bindVertexArray(mesh);
+        gl.bindBuffer(gl.ARRAY_BUFFER, meshBuffer);
+        gl.enableVertexAttribArray(0);
+        gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 16, 0);
+        gl.enableVertexAttribArray(1);
+        gl.vertexAttribPointer(1, 2, gl.FLOAT, false, 16, 8);
+        gl.bindVertexArray(null);
+        this.mesh = mesh;
+        this.meshBuffer = meshBuffer;
+        this.videoTexture = this.createTexture(gl.LINEAR);
+        this.maskTexture = this.createTexture(gl.NEAREST);
+        this.tintTextures = Array.from({ length: MAX_TINTS }, () => this.createTexture(gl.NEAREST));
+        this.backgroundTexture = this.createTexture(gl.LINEAR);
+        this.hairTexture = this.createTexture(gl.NEAREST);
+        // 8-bit history stalls a slow moving average short of its target; prefer half floats.
+        this.historyFormat = gl.getExtension('EXT_color_buffer_float')
+            ? { internalFormat: gl.RGBA16F, type: gl.HALF_FLOAT }
+            : { internalFormat: gl.RGBA8, type: gl.UNSIGNED_BYTE };
+
+        canvas.addEventListener('webglcontextlost', () => {
+            this.lost = true;
+        });
+    }
+
+    /** Returns null when WebGL2 is unavailable or the shaders fail to build. */
+    static create(canvas: HTMLCanvasElement = document.createElement('canvas')): WebGLCompositor | null {
+        const gl = canvas.getContext('webgl2', { alpha: false, antialias: false, depth: false, premultipliedAlpha: false });
+        if (!gl) return null;
+        try {
+            return new WebGLCompositor(canvas, gl);
+        } catch (error) {
+            console.warn('WebGL compositor unavailable:', error);
+            return null;
+        }
+    }
+
+    /** Renders one frame at `width` x `height`. Returns false if the caller should fall back to Canvas2D. */
+    render(frame: CompositeFrame, width: number, height: number): boolean {
+        const gl = this.gl;
+        if (this.lost || gl.isContextLost()) {
+            this.lost = true;
+            return false;
+        }
+        if (this.canvas.width !== width || this.canvas.height !== height) {
+            this.canvas.width = width;
+            this.canvas.height = height;
+        }
+
+        gl.disable(gl.BLEND);
+        gl.disable(gl.DEPTH_TEST);
+        gl.disable(gl.SCISSOR_TEST);
+        gl.disable(gl.CULL_FACE);
+        gl.colorMask(true, true, true, true);
+        gl.bindVertexArray(this.quad);
+        gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false);
+        gl.pixelStorei(gl.UNPACK_PREMULTIPLY_ALPHA_WEBGL, false);
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+
+        this.upload(this.videoTexture, frame.video);
+        const matte = frame.person && !frame.chromaKey ? this.renderMatte(frame.person, frame.refinement, width) : null;
+        const replacing = Boolean(matte || frame.chromaKey);
+
+        // Class masks are copied into linear-filtered targets so they upscale smoothly.
+        const tints = frame.tints.slice(0, MAX_TINTS);
+        if (tints.length > 0) {
+            this.tintTargets = this.ensureTargets(this.tintTargets, tints[0].mask.width, tints[0].mask.height);
+            tints.forEach((tint, index) => {
+                const texture = this.bindMask(tint.mask, 'confidence', this.tintTextures[index]);
+                this.blur(texture, this.tintTargets![index], 0, 0, 0);
+            });
+        }
+
+        // Background: a solid key colour, the fitted replacement, or a blurred copy of the camera at half resolution.
+        let hasBackground = false;
+        let backgroundRect = [0, 0, 1, 1];
+        const fillBackground = replacing && !frame.backgroundColor;
+        if (fillBackground && frame.background && isBackgroundReady(frame.background)) {
+            const source = frame.background;
+            if (source.kind === 'video' || this.uploadedBackground !== source.element) {
+                this.upload(this.backgroundTexture, source.element);
+                this.uploadedBackground = source.kind === 'image' ? source.element : null;
+            }
+            const size = getBackgroundSize(source);
+            const rect = computeFitRect(size.width, size.height, width, height, frame.backgroundScaleMode);
+            backgroundRect = [rect.x / width, rect.y / height, rect.width / width, rect.height / height];
+            hasBackground = true;
+        } else if (fillBackground) {
+            const blurWidth = Math.max(1, Math.round(width / 2));
+            const blurHeight = Math.max(1, Math.round(height / 2));
+            this.blurred = this.ensureTargets(this.blurred, blurWidth, blurHeight);
+            const sigma = frame.blurBackground ? BACKGROUND_BLUR_SIGMA * (blurWidth / width) : 0;
+            this.blur(this.videoTexture, this.blurred[0], 1 / blurWidth, 0, sigma);
+            this.blur(this.blurred[0].texture, this.blurred[1], 0, 1 / blurHeight, sigma);
+        }
+
+        // With face layers or a privacy cover the composite is kept in a texture for the passes below.
+        const layered = frame.underlays.length > 0
+            || frame.faces.length > 0
+            || frame.overlays.length > 0
+            || frame.keepHair !== null
+            || frame.privacy !== null;
+        if (layered) {
+            this.scene = this.ensureTargets(this.scene, width, height);
+        }
+        const composite = this.programs.composite;
+        this.use(composite, layered ? this.scene![0] : null, !layered);
+        this.bindTexture(0, this.videoTexture);
+        this.bindTexture(1, matte ?? this.videoTexture);
+        this.bindTexture(2, hasBackground ? this.backgroundTexture : this.blurred?.[1].texture ?? this.videoTexture);
+        this.bindTexture(3, this.tintTargets?.[0].texture ?? this.videoTexture);
+        this.bindTexture(4, this.tintTargets?.[1].texture ?? this.videoTexture);
+        this.setInt(composite, 'u_video', 0);
+        this.setInt(composite, 'u_matte', 1);
+        this.setInt(composite, 'u_background', 2);
+        this.setInt(composite, 'u_tintMask0', 3);
+        this.setInt(composite, 'u_tintMask1', 4);
+        for (let index = 0; index < MAX_TINTS; index++) {
+            const tint = tints[index];
+            const [r, g, b] = tint ? parseHexColor(tint.color) : [0, 0, 0];
+            gl.uniform4f(this.uniform(composite, `u_tint${index}`), r, g, b, tint ? Math.min(1, Math.max(0, tint.strength)) : 0);
+        }
+        this.setInt(composite, 'u_replaceBackground', replacing ? 1 : 0);
+        this.setInt(composite, 'u_hasBackground', hasBackground ? 1 : 0);
+        this.setInt(composite, 'u_solidBackground', frame.backgroundColor ? 1 : 0);
+        const [solidR, solidG, solidB] = parseHexColor(frame.backgroundColor ?? '');
+        gl.uniform3f(this.uniform(composite, 'u_solidColor'), solidR, solidG, solidB);
+        const chroma = frame.chromaKey;
+        this.setInt(composite, 'u_chroma', chroma ? 1 : 0);
+        if (chroma) {
+            const [keyCb, keyCr] = toChroma(...parseHexColor(chroma.keyColor, [0, 1, 0]));
+            this.setVec2(composite, 'u_chromaKey', keyCb, keyCr);
+            gl.uniform3f(
+                this.uniform(composite, 'u_chromaParams'),
+                chroma.similarity,
+                Math.max(1e-4, chroma.smoothness),
+                Math.max(1e-4, chroma.spill)
+            );
+        }
+        gl.uniform4f(this.uniform(composite, 'u_backgroundRect'), backgroundRect[0], backgroundRect[1], backgroundRect[2], backgroundRect[3]);
+        this.draw();
+
+        if (layered) {
+            this.renderLayers(frame, width, height);
+        }
+        this.releaseImages();
+
+        gl.bindVertexArray(null);
+        gl.activeTexture(gl.TEXTURE0);
+        gl.bindTexture(gl.TEXTURE_2D, null);
+        return true;
+    }
+
+    /** Drops the temporal history, e.g. when background replacement is re-enabled. */
+    reset() {
+        this.historyValid = false;
+    }
+
+    dispose() {
+        const gl = this.gl;
+        Object.values(this.programs).forEach(({ program }) => gl.deleteProgram(program));
+        [
+            this.videoTexture,
+            this.maskTexture,
+            this.backgroundTexture,
+            this.hairTexture,
+            ...this.tintTextures,
+            ...this.images.values(),
+        ].forEach((texture) => gl.deleteTexture(texture));
+        [
+            this.history,
+            this.matte,
+            this.blurred,
+            this.tintTargets,
+            this.scene,
+            this.layers,
+            this.faceMask,
+            this.hairTargets,
+            this.statsOval,
+            this.stats,
+            this.privacyMask,
+            this.privacyBlur,
+        ].forEach((targets) => targets?.forEach((target) => this.deleteTarget(target)));
+        gl.deleteVertexArray(this.quad);
+        gl.deleteVertexArray(this.mesh);
+        gl.deleteBuffer(this.meshBuffer);
+        this.images.clear();
+        this.history = null;
+        this.matte = null;
+        this.blurred = null;
+        this.tintTargets = null;
+        this.scene = null;
+        this.layers = null;
+        this.faceMask = null;
+        this.hairTargets = null;
+        this.statsOval = null;
+        this.stats = null;
+        this.privacyMask = null;
+        this.privacyBlur = null;
+    }
+
+    /** Face layers over the composite in `scene`, then kept hair and the privacy cover on screen. */
+    private renderLayers(frame: CompositeFrame, width: number, height: number) {
+        const gl = this.gl;
+        const [scene, output] = this.scene!;
+        this.layers = this.ensureTargets(this.layers, width, height);
+        const [below, above] = this.layers;
+        this.clearTarget(below);
+        this.clearTarget(above);
+
+        frame.underlays.forEach((image) => this.drawImageLayer(image, below, width, height));
+        frame.faces.forEach((face) => {
+            if (face.kind === 'warp') {
+                this.drawWarpLayer(face, below, width, height);
+            } else if (face.kind === 'image') {
+                this.drawImageLayer(face, below, width, height);
+            } else {
+                this.drawLandmarks(face.points, below, width, height);
+            }
+        });
+        frame.overlays.forEach((image) => this.drawImageLayer(image, above, width, height));
+
+        let hair: WebGLTexture | null = null;
+        if (frame.keepHair) {
+            // Copied into a linear target so it upscales smoothly, like the tint masks.
+            this.hairTargets = this.ensureTargets(this.hairTargets, frame.keepHair.width, frame.keepHair.height);
+            this.blur(this.bindMask(frame.keepHair, 'confidence', this.hairTexture), this.hairTargets[0], 0, 0, 0);
+            hair = this.hairTargets[0].texture;
+        }
+
+        const combine = this.programs.combine;
+        this.use(combine, output, false);
+        this.bindTexture(0, scene.texture);
+        this.bindTexture(1, below.texture);
+        this.bindTexture(2, above.texture);
+        this.bindTexture(3, hair ?? scene.texture);
+        this.setInt(combine, 'u_scene', 0);
+        this.setInt(combine, 'u_below', 1);
+        this.setInt(combine, 'u_above', 2);
+        this.setInt(combine, 'u_hair', 3);
+        this.setInt(combine, 'u_keepHair', hair ? 1 : 0);
+        this.draw();
+
+        let privacyMode = 0;
+        let obscured = output.texture;
+        let regions = output.texture;
+        const privacy = frame.privacy;
+        if (privacy) {
+            const wholeFrame = privacy.regions === null;
+            const mode = wholeFrame ? 'blur' : privacy.mode;
+            privacyMode = privacyModes[mode];
+            if (mode === 'blur') {
+                const blurWidth = Math.max(1, Math.round(width / 4));
+                const blurHeight = Math.max(1, Math.round(height / 4));
+                this.privacyBlur = this.ensureTargets(this.privacyBlur, blurWidth, blurHeight);
+                const sigma = Math.max(8, Math.round(width / (wholeFrame ? 25 : 40))) * (blurWidth / width);
+                this.blur(output.texture, this.privacyBlur[0], 1 / blurWidth, 0, sigma);
+                this.blur(this.privacyBlur[0].texture, this.privacyBlur[1], 0, 1 / blurHeight, sigma);
+                obscured = this.privacyBlur[1].texture;
+            }
+            if (privacy.regions) {
+                this.privacyMask = this.ensureTargets(
+                    this.privacyMask,
+                    Math.max(1, Math.round(width / 2)),
+                    Math.max(1, Math.round(height / 2))
+                );
+                const mask = this.privacyMask[0];
+                this.clearTarget(mask);
+                privacy.regions
+                    .filter((region) => region.length >= 3)
+                    .forEach((region) => this.fillShape(mask, polygonFan(region, width, height), FULL_REGION));
+                regions = mask.texture;
+            }
+        }
+
+        const present = this.programs.present;
+        this.use(present, null, true);
+        this.bindTexture(0, output.texture);
+        this.bindTexture(1, obscured);
+        this.bindTexture(2, regions);
+        this.setInt(present, 'u_source', 0);
+        this.setInt(present, 'u_obscured', 1);
+        this.setInt(present, 'u_regions', 2);
+        this.setInt(present, 'u_privacy', privacyMode);
+        this.setInt(present, 'u_wholeFrame', privacy && !privacy.regions ? 1 : 0);
+        const block = Math.max(6, Math.round(width / 64));
+        this.setVec2(present, 'u_blocks', width / block, height / block);
+        const [privacyR, privacyG, privacyB] = parseHexColor(privacy?.color ?? '', [0, 0, 0]);
+        gl.uniform3f(this.uniform(present, 'u_privacyColor'), privacyR, privacyG, privacyB);
+        this.draw();
+    }
+
+    private drawImageLayer(image: CompositeImage, target: Target, width: number, height: number) {
+        this.drawLayer(target, imageQuad(image, width, height), this.imageTexture(image.source), null, 0);
+    }
+
+    private drawWarpLayer(warp: CompositeWarp, target: Target, width: number, height: number) {
+        const mesh = warpMesh(warp, width, height);
+        const oval = facePoints(warp.points);
+        if (mesh.length === 0 || oval.length < 3) return;
+        const texture = this.imageTexture(warp.source);
+        const { bounds, feather } = warp;
+        const region: Region = [bounds.x / width, bounds.y / height, bounds.width / width, bounds.height / height];
+        if (warp.colorMatch > 0) {
+            this.renderColorStats(texture, mesh, polygonFan(oval, width, height), region);
+        }
+
+        // Feathered oval, inset so the soft edge falls inside the warped face (as in the Canvas2D pass).
+        const centerX = bounds.x + bounds.width * 0.5;
+        const centerY = bounds.y + bounds.height * 0.5;
+        const radius = Math.max(1, Math.min(bounds.width, bounds.height) * 0.5 - feather * 2);
+        const inset = Math.max(0.5, 1 - feather / radius);
+        const insetOval = oval.map((pt) => ({ x: centerX + (pt.x - centerX) * inset, y: centerY + (pt.y - centerY) * inset }));
+        this.faceMask = this.ensureTargets(this.faceMask, Math.max(1, Math.round(width / 2)), Math.max(1, Math.round(height / 2)));
+        const [mask, maskScratch] = this.faceMask;
+        this.clearTarget(mask);
+        this.fillShape(mask, polygonFan(insetOval, width, height), FULL_REGION);
+        const sigma = warp.softEdge ? feather * (mask.width / width) : 0;
+        if (sigma > 0.01) {
+            this.blur(mask.texture, maskScratch, 1 / mask.width, 0, sigma);
+            this.blur(maskScratch.texture, mask, 0, 1 / mask.height, sigma);
+        }
+
+        this.drawLayer(target, mesh, texture, mask.texture, warp.colorMatch);
+    }
+
+    /** Weighted colour sums of the warped face and the live skin inside the oval, averaged by mipmapping. */
+    private renderColorStats(face: WebGLTexture, mesh: Float32Array, oval: Float32Array, region: Region) {
+        const gl = this.gl;
+        if (!this.stats) {
+            this.stats = Array.from({ length: 4 }, () => {
+                const target = this.createTarget(STATS_SIZE, STATS_SIZE, this.historyFormat);
+                gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST_MIPMAP_NEAREST);
+                return target;
+            });
+        }
+        this.statsOval = this.ensureTargets(this.statsOval, STATS_SIZE, STATS_SIZE);
+        const ovalTarget = this.statsOval[0];
+        this.clearTarget(ovalTarget);
+        this.fillShape(ovalTarget, oval, region);
+
+        const skin = regionQuad(region);
+        const passes: Array<[Target, WebGLTexture, Float32Array, boolean]> = [
+            [this.stats[0], face, mesh, false],
+            [this.stats[1], face, mesh, true],
+            [this.stats[2], this.videoTexture, skin, false],
+            [this.stats[3], this.videoTexture, skin, true],
+        ];
+        const program = this.programs.stats;
+        passes.forEach(([target, image, vertices, square]) => {
+            this.clearTarget(target);
+            this.useMesh(program, target, region);
+            this.bindTexture(0, image);
+            this.bindTexture(1, ovalTarget.texture);
+            this.setInt(program, 'u_image', 0);
+            this.setInt(program, 'u_oval', 1);
+            this.setInt(program, 'u_square', square ? 1 : 0);
+            this.setVec2(program, 'u_targetSize', STATS_SIZE, STATS_SIZE);
+            this.drawGeometry(gl.TRIANGLES, vertices);
+            gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+            this.bindTexture(0, target.texture);
+            gl.generateMipmap(gl.TEXTURE_2D);
+        });
+    }
+
+    private drawLayer(target: Target, vertices: Float32Array, image: WebGLTexture, feather: WebGLTexture | null, colorMatch: number) {
+        const gl = this.gl;
+        const program = this.programs.layer;
+        const stats = colorMatch > 0 ? this.stats : null;
+        this.useMesh(program, target, FULL_REGION);
+        // Every sampler gets a texture that is not the render target, used or not.
+        this.bindTexture(0, image);
+        this.bindTexture(1, feather ?? image);
+        for (let index = 0; index < 4; index++) {
+            this.bindTexture(2 + index, stats?.[index].texture ?? image);
+        }
+        this.setInt(program, 'u_image', 0);
+        this.setInt(program, 'u_feather', 1);
+        this.setInt(program, 'u_faceSum', 2);
+        this.setInt(program, 'u_faceSquares', 3);
+        this.setInt(program, 'u_skinSum', 4);
+        this.setInt(program, 'u_skinSquares', 5);
+        this.setInt(program, 'u_useFeather', feather ? 1 : 0);
+        this.setInt(program, 'u_point', 0);
+        this.setFloat(program, 'u_colorMatch', stats ? Math.min(1, colorMatch) : 0);
+        this.setFloat(program, 'u_statsLevel', STATS_LEVEL);
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        this.drawGeometry(gl.TRIANGLES, vertices);
+        gl.disable(gl.BLEND);
+    }
+
+    private drawLandmarks(points: Point2D[], target: Target, width: number, height: number) {
+        const gl = this.gl;
+        const program = this.programs.layer;
+        this.useMesh(program, target, FULL_REGION);
+        for (let unit = 0; unit < 6; unit++) {
+            this.bindTexture(unit, this.videoTexture);
+        }
+        this.setInt(program, 'u_image', 0);
+        this.setInt(program, 'u_feather', 1);
+        this.setInt(program, 'u_faceSum', 2);
+        this.setInt(program, 'u_faceSquares', 3);
+        this.setInt(program, 'u_skinSum', 4);
+        this.setInt(program, 'u_skinSquares', 5);
+        this.setInt(program, 'u_point', 1);
+        this.setFloat(program, 'u_pointSize', LANDMARK_POINT_SIZE);
+        gl.uniform4f(this.uniform(program, 'u_color'), 0, 1, 0, 0.5);
+        const vertices = new Float32Array(points.length * 4);
+        points.forEach((pt, index) => {
+            vertices[index * 4] = pt.x / width;
+            vertices[index * 4 + 1] = pt.y / height;
+        });
+        gl.enable(gl.BLEND);
+        gl.blendFunc(gl.ONE, gl.ONE_MINUS_SRC_ALPHA);
+        this.drawGeometry(gl.POINTS, vertices);
+        gl.disable(gl.BLEND);
+    }
+
+    private fillShape(target: Target, fan: Float32Array, region: Region) {
+        const program = this.programs.fill;
+        this.useMesh(program, target, region);
+        this.gl.uniform4f(this.uniform(program, 'u_color'), 1, 1, 1, 1);
+        this.drawGeometry(this.gl.TRIANGLE_FAN, fan);
+    }
+
+    private imageTexture(source: CompositeSource) {
+        let texture = this.images.get(source);
+        const fresh = !texture;
+        if (!texture) {
+            texture = this.createTexture(this.gl.LINEAR);
+            this.images.set(source, texture);
+        }
+        if (fresh || !(source instanceof HTMLImageElement)) {
+            this.upload(texture, source);
+        }
+        this.usedImages.add(source);
+        return texture;
+    }
+
+    /** Drops textures of artwork that was not drawn this frame (removed masks, past animation frames). */
+    private releaseImages() {
+        this.images.forEach((texture, source) => {
+            if (!this.usedImages.has(source)) {
+                this.gl.deleteTexture(texture);
+                this.images.delete(source);
+            }
+        });
+        this.usedImages.clear();
+    }
+
+    /** Temporal smoothing, edge refinement, threshold and feather; returns the matte texture. */
+    private renderMatte(person: NonNullable<CompositeFrame['person']>, refinement: MaskRefinementOptions, width: number) {
+        const maskWidth = person.mask.width;
+        const maskHeight = person.mask.height;
+        this.history = this.ensureTargets(this.history, maskWidth, maskHeight, this.historyFormat);
+        this.matte = this.ensureTargets(this.matte, maskWidth, maskHeight);
+        const maskTexture = this.bindMask(person.mask, person.kind, this.maskTexture);
+
+        // Temporal smoothing into the history ping-pong pair.
+        const temporal = this.programs.temporal;
+        const [previous, next] = this.history;
+        this.use(temporal, next, false);
+        this.bindTexture(0, maskTexture);
+        this.bindTexture(1, previous.texture);
+        this.setInt(temporal, 'u_mask', 0);
+        this.setInt(temporal, 'u_history', 1);
+        this.setFloat(temporal, 'u_keep', this.historyValid ? Math.min(0.95, Math.max(0, refinement.temporalSmoothing)) : 0);
+        this.setInt(temporal, 'u_kind', personKinds[person.kind]);
+        this.draw();
+        this.history = [next, previous];
+        this.historyValid = true;
+
+        // Edge refinement and threshold into the matte.
+        const refine = this.programs.refine;
+        const [matte, matteScratch] = this.matte;
+        this.use(refine, matte, false);
+        this.bindTexture(0, next.texture);
+        this.bindTexture(1, this.videoTexture);
+        this.setInt(refine, 'u_confidence', 0);
+        this.setInt(refine, 'u_guide', 1);
+        this.setVec2(refine, 'u_texel', 1 / maskWidth, 1 / maskHeight);
+        this.setInt(refine, 'u_edgeAware', refinement.edgeAware ? 1 : 0);
+        this.setFloat(refine, 'u_low', refinement.threshold - refinement.softness * 0.5);
+        this.setFloat(refine, 'u_high', refinement.threshold + refinement.softness * 0.5);
+        this.draw();
+
+        // Feather is specified in output pixels; convert to mask texels.
+        const featherSigma = refinement.feather * (maskWidth / width);
+        if (featherSigma > 0.01) {
+            this.blur(matte.texture, matteScratch, 1 / maskWidth, 0, featherSigma);
+            this.blur(matteScratch.texture, matte, 0, 1 / maskHeight, featherSigma);
+        }
+        return matte.texture;
+    }
+
+    private bindMask(mask: SegmentationMask, kind: PersonMaskKind, texture: WebGLTexture): WebGLTexture {
+        const gl = this.gl;
+        if (mask.canvas === this.canvas && mask.hasWebGLTexture()) {
+            return mask.getAsWebGLTexture();
+        }
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        if (kind !== 'category') {
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.R32F, mask.width, mask.height, 0, gl.RED, gl.FLOAT, mask.getAsFloat32Array());
+        } else {
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, mask.width, mask.height, 0, gl.RED, gl.UNSIGNED_BYTE, mask.getAsUint8Array());
+        }
+        return texture;
+    }
+
+    private blur(source: WebGLTexture, target: Target, stepX: number, stepY: number, sigma: number) {
+        const program = this.programs.blur;
+        this.use(program, target, false);
+        this.bindTexture(0, source);
+        this.setInt(program, 'u_source', 0);
+        this.setVec2(program, 'u_step', stepX, stepY);
+        this.setFloat(program, 'u_sigma', sigma);
+        this.draw();
+    }
+
+    private use(program: Program, target: Target | null, flipY: boolean) {
+        const gl = this.gl;
+        gl.useProgram(program.program);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, target ? target.framebuffer : null);
+        gl.viewport(0, 0, target ? target.width : this.canvas.width, target ? target.height : this.canvas.height);
+        // Textures keep image row 0 at v = 0; only the on-screen pass needs flipping.
+        this.setInt(program, 'u_flipY', flipY ? 1 : 0);
+    }
+
+    private useMesh(program: Program, target: Target, region: Region) {
+        this.use(program, target, false);
+        this.gl.uniform4f(this.uniform(program, 'u_region'), region[0], region[1], region[2], region[3]);
+    }
+
+    private draw() {
+        this.gl.drawArrays(this.gl.TRIANGLE_STRIP, 0, 4);
+    }
+
+    private drawGeometry(mode: number, vertices: Float32Array) {
+        const gl = this.gl;
+        gl.bindVertexArray(this.mesh);
+        gl.bindBuffer(gl.ARRAY_BUFFER, this.meshBuffer);
+        gl.bufferData(gl.ARRAY_BUFFER, vertices, gl.DYNAMIC_DRAW);
+        gl.drawArrays(mode, 0, vertices.length / 4);
+        gl.bindVertexArray(this.quad);
+    }
+
+    private clearTarget(target: Target) {
+        const gl = this.gl;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, target.framebuffer);
+        gl.viewport(0, 0, target.width, target.height);
+        gl.clearColor(0, 0, 0, 0);
+        gl.clear(gl.COLOR_BUFFER_BIT);
+    }
+
+    private uniform(program: Program, name: string) {
+        if (!program.uniforms.has(name)) {
+            program.uniforms.set(name, this.gl.getUniformLocation(program.program, name));
+        }
+        return program.uniforms.get(name) ?? null;
+    }
+
+    private setInt(program: Program, name: string, value: number) {
+        this.gl.uniform1i(this.uniform(program, name), value);
+    }
+
+    private setFloat(program: Program, name: string, value: number) {
+        this.gl.uniform1f(this.uniform(program, name), value);
+    }
+
+    private setVec2(program: Program, name: string, x: number, y: number) {
+        this.gl.uniform2f(this.uniform(program, name), x, y);
+    }
+
+    private bindTexture(unit: number, texture: WebGLTexture) {
+        const gl = this.gl;
+        gl.activeTexture(gl.TEXTURE0 + unit);
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+    }
+
+    private upload(texture: WebGLTexture, source: TexImageSource) {
+        const gl = this.gl;
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, source);
+    }
+
+    private createTexture(filter: number) {
+        const gl = this.gl;
+        const texture = gl.createTexture();
+        if (!texture) throw new Error('Failed to create texture');
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        return texture;
+    }
+
+    private ensureTargets(
+        pair: [Target, Target] | null,
+        width: number,
+        height: number,
+        format: TargetFormat = { internalFormat: this.gl.RGBA8, type: this.gl.UNSIGNED_BYTE }
+    ): [Target, Target] {
+        if (pair && pair[0].width === width && pair[0].height === height) {
+            return pair;
+        }
+        pair?.forEach((target) => this.deleteTarget(target));
+        if (pair === this.history) {
+            this.historyValid = false;
+        }
+        return [this.createTarget(width, height, format), this.createTarget(width, height, format)];
+    }
+
+    private createTarget(width: number, height: number, format: TargetFormat): Target {
+        const gl = this.gl;
+        const texture = this.createTexture(gl.LINEAR);
+        gl.texImage2D(gl.TEXTURE_2D, 0, format.internalFormat, width, height, 0, gl.RGBA, format.type, null);
+        const framebuffer = gl.createFramebuffer();
+        if (!framebuffer) throw new Error('Failed to create framebuffer');
+        gl.bindFramebuffer(gl.FRAMEBUFFER, framebuffer);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        return { texture, framebuffer, width, height };
+    }
+
+    private deleteTarget(target: Target) {
+        this.gl.deleteTexture(target.texture);
+        this.gl.deleteFramebuffer(target.framebuffer);
+    }
+}
@@ -0,0 +1,107 @@
+import { MediaPipeService } from "../services/MediaPipeService";
+import type {
+    InferenceRequest,
+    InferenceResponse,
+    InferenceTasks,
+    SerializedMask,
+    SerializedSegmentation
+} from "../types/inference";
+import type { SegmentationMask, SegmentationMasks } from "../types/segmentation";
+
+type WorkerScope = {
+    onmessage: ((event: MessageEvent<InferenceRequest>) => void) | null;
+    postMessage: (message: InferenceResponse, options?: { transfer?: Transferable[] }) => void;
+};
+
+const scope = self as unknown as WorkerScope;
+
+const post = (message: InferenceResponse, transfer: Transferable[] = []) => {
+    scope.postMessage(message, { transfer });
+};
+
+// Masks are freed once the segmenter callback returns, so copy them out.
+const serializeMask = (mask: SegmentationMask, category: boolean, transfer: Transferable[]): SerializedMask => {
+    const data = category ? mask.getAsUint8Array().slice() : mask.getAsFloat32Array().slice();
+    transfer.push(data.buffer);
+    return { width: mask.width, height: mask.height, data };
+};
+
+const serializeMasks = (masks: SegmentationMasks, transfer: Transferable[]): SerializedSegmentation => {
+    const classes: SerializedSegmentation["classes"] = {};
+    (Object.keys(masks.classes) as Array<keyof SegmentationMasks["classes"]>).forEach((name) => {
+        const mask = masks.classes[name];
+        if (mask) {
+            classes[name] = serializeMask(mask, false, transfer);
+        }
+    });
+    return {
+        person: serializeMask(masks.person, masks.personKind === "category", transfer),
+        personKind: masks.personKind,
+        classes,
+    };
+};
+
+const runFrame = (frame: VideoFrame | ImageBitmap, timestamp: number, tasks: InferenceTasks) => {
+    const service = MediaPipeService.getInstance();
+    const transfer: Transferable[] = [];
+    try {
+        const face = tasks.face ? service.detectFace(frame, timestamp) : null;
+        const pose = tasks.pose && face && face.faceLandmarks.length > 0 ? service.detectPose(frame, timestamp) : null;
+        const hands = tasks.hands ? service.detectHands(frame, timestamp) : null;
+        let segmentation: SerializedSegmentation | null = null;
+        if (tasks.segment) {
+            service.segmentImage(frame, timestamp, (result) => {
+                const masks = service.getSegmentationMasks(result);
+                if (masks) {
+                    segmentation = serializeMasks(masks, transfer);
+                }
+                result.close();
+            });
+        }
+        post({ type: "result", timestamp, face, pose, hands, segmentation }, transfer);
+    } catch (error) {
+        post({ type: "frameError", message: error instanceof Error ? error.message : String(error) });
+    } finally {
+        frame.close();
+    }
+};
+
+const runCall = async (request: Extract<InferenceRequest, { type: "call" }>): Promise<unknown> => {
+    const service = MediaPipeService.getInstance();
+    switch (request.method) {
+        case "initialize":
+            service.setDelegateOrder(request.args[0]);
+            return service.initialize();
+        case "setMaxFaces":
+            return service.setMaxFaces(request.args[0]);
+        case "setSegmentationModel":
+            return service.setSegmentationModel(request.args[0]);
+        case "setPoseTrackingEnabled":
+            return service.setPoseTrackingEnabled(request.args[0]);
+        case "setHandTrackingEnabled":
+            return service.setHandTrackingEnabled(request.args[0]);
+        case "detectFaceInImage": {
+            const image = request.args[0];
+            try {
+                return await service.detectFaceInImage(image);
+            } finally {
+                image.close();
+            }
+        }
+    }
+};
+
+scope.onmessage = (event) => {
+    const request = event.data;
+    if (request.type === "frame") {
+        runFrame(request.frame, request.timestamp, request.tasks);
+        return;
+    }
+    runCall(request)
+        .then((result) => post({ type: "callResult", id: request.id, result }))
+        .catch((error) => post({
+            type: "callResult",
+            id: request.id,
+            error: error instanceof Error ? error.message : String(error),
+        }));
+};
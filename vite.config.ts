@@ -38,4 +38,8 @@ export default defineConfig({
         : {},
     }),
   ],
+  // MediaPipe loads its WASM glue with importScripts, which only classic workers support.
+  worker: {
+    format: 'iife',
+  },
 })